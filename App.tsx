@@ -2,12 +2,36 @@ import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { ManagementPanel } from './components/ManagementPanel';
 import { MatchScheduler } from './components/MatchScheduler';
 import { StandingsTable } from './components/StandingsTable';
+import { BracketView } from './components/BracketView';
 import { TournamentSummary } from './components/TournamentSummary';
 import { PlayerProfile } from './components/PlayerProfile';
 import { ConfirmationDialog } from './components/ConfirmationDialog';
-import { Player, Team, Category, Match, MatchStatus, TeamImportPayload, CategoryImportPayload } from './types';
-import { generateRoundRobinMatches, calculateStandings } from './utils/tournamentUtils';
-import { ChevronDoubleLeftIcon, ChevronDoubleRightIcon, SaveIcon, DocumentPlusIcon, DocumentArrowUpIcon } from './components/icons';
+import { ScheduleView } from './components/ScheduleView';
+import { CrossTable } from './components/CrossTable';
+import { PlayerStatsView } from './components/PlayerStatsView';
+import { RatingsView } from './components/RatingsView';
+import { ClubRankingView } from './components/ClubRankingView';
+import { LedgerView } from './components/LedgerView';
+import { Player, Team, Category, Match, MatchStatus, TeamImportPayload, CategoryImportPayload, KnockoutOptions, GroupStagePayload, CategorySettings, MatchUpdate, MatchSlot, ScheduleSettings, FillDatesOptions, UnavailabilityWindow, Official, RescheduleRequest, Sanction, RatedResult, Club, Charge, Payment } from './types';
+import { generateRoundRobinMatches, calculateStandings, calculateSwissStandings, generateSwissRound } from './utils/tournamentUtils';
+import { generateKnockoutStage, applyBracketSync } from './utils/bracketUtils';
+import { getScoringRules, getMatchResult } from './utils/scoringUtils';
+import { getStandingsRules } from './utils/standingsUtils';
+import { DEFAULT_SCHEDULE_SETTINGS, findScheduleConflicts, autoScheduleMatches, getUnscheduledMatches, moveMatchToSlot, releaseRemovedCourts, fillMatchDates } from './utils/scheduleUtils';
+import { withRescheduleEntry, rescheduleMatch } from './utils/rescheduleUtils';
+import { findOfficialConflicts, autoAssignOfficials } from './utils/officialUtils';
+import { getSuspendedPlayers } from './utils/disciplineUtils';
+import { getUnlicensedPlayers } from './utils/licenceUtils';
+import { dropOrphanWalkoverFines, getInscriptionCharges, syncWalkoverFine, voidUnpaidCategoryCharges } from './utils/ledgerUtils';
+import { DISPLAY_HASH, publishDisplaySnapshot } from './utils/displayUtils';
+import { getCategoryStandings, getStandingsHistory, getRankMovement, getTeamForm } from './utils/categoryStandingsUtils';
+import { isResultProvisional } from './utils/protestUtils';
+import { calculatePlayerStats } from './utils/playerStatsUtils';
+import { calculateRatings, collectRatedResults, getTeamRatings, mergeRatedResults, toRatedResult } from './utils/ratingUtils';
+import { getCategoryPlacements, getClubRanking, getTeamClubs } from './utils/clubUtils';
+import { assignTeamsToGroups, generateGroupStageMatches, calculateGroupStandings } from './utils/groupUtils';
+import { ChevronDoubleLeftIcon, ChevronDoubleRightIcon, SaveIcon, DocumentPlusIcon, DocumentArrowUpIcon, CalendarIcon, TvIcon, ChartBarIcon, TrophyIcon, BuildingIcon, BanknotesIcon } from './components/icons';
+import { todayIso } from './utils/dateUtils';
 
 // Make FileSaver.js `saveAs` function available
 declare const saveAs: any;
@@ -24,11 +48,19 @@ function usePersistentState<T>(key: string, defaultValue: T): [T, React.Dispatch
     }
   });
 
+  // Warn once per run of failed writes rather than on every change
+  const hasWarnedRef = useRef(false);
+
   useEffect(() => {
     try {
       localStorage.setItem(key, JSON.stringify(state));
+      hasWarnedRef.current = false;
     } catch (error) {
       console.error(`Error writing to localStorage for key "${key}":`, error);
+      if (!hasWarnedRef.current) {
+        hasWarnedRef.current = true;
+        alert('No se han podido guardar los últimos cambios en el navegador: el almacenamiento está lleno. Guarda el campeonato en un archivo para no perderlos y libera espacio, por ejemplo quitando documentos adjuntos.');
+      }
     }
   }, [key, state]);
 
@@ -41,9 +73,19 @@ const App: React.FC = () => {
     const [categories, setCategories] = usePersistentState<Category[]>('categories', []);
     const [matches, setMatches] = usePersistentState<Match[]>('matches', []);
     const [activeCategoryId, setActiveCategoryId] = usePersistentState<string | null>('activeCategoryId', null);
+    const [schedule, setSchedule] = usePersistentState<ScheduleSettings>('schedule', DEFAULT_SCHEDULE_SETTINGS);
+    const [officials, setOfficials] = usePersistentState<Official[]>('officials', []);
+    const [sanctions, setSanctions] = usePersistentState<Sanction[]>('sanctions', []);
+    const [clubs, setClubs] = usePersistentState<Club[]>('clubs', []);
+    const [charges, setCharges] = usePersistentState<Charge[]>('charges', []);
+    const [payments, setPayments] = usePersistentState<Payment[]>('payments', []);
+    // Results of past championships, kept when starting or loading another so ratings carry over
+    const [ratingArchive, setRatingArchive] = usePersistentState<RatedResult[]>('ratingArchive', []);
     
     const [viewingPlayerId, setViewingPlayerId] = useState<string | null>(null);
     const [maximizedWidget, setMaximizedWidget] = useState<string | null>(null);
+    // Match card to scroll to, with a timestamp so the same match can be requested again
+    const [matchFocus, setMatchFocus] = useState<{ matchId: string; at: number } | null>(null);
     const [isPanelCollapsed, setIsPanelCollapsed] = usePersistentState<boolean>('isPanelCollapsed', false);
     const [isNewChampionshipConfirmOpen, setIsNewChampionshipConfirmOpen] = useState(false);
     
@@ -63,10 +105,72 @@ const App: React.FC = () => {
         return matches.filter(m => m.categoryId === activeCategory.id);
     }, [matches, activeCategory]);
 
+    // Knockout matches never count towards the league table
+    const activeCategoryLeagueMatches = useMemo(() => activeCategoryMatches.filter(m => !m.bracketNodeId), [activeCategoryMatches]);
+
+    // Expelled teams drop out of the table, together with every result against them
+    const activeCategoryRankedTeams = useMemo(() => {
+        const expelled = activeCategory?.expelledTeamIds || [];
+        return activeCategoryTeams.filter(t => !expelled.includes(t.id));
+    }, [activeCategory, activeCategoryTeams]);
+
     const standings = useMemo(() => {
-        if (!activeCategory || activeCategoryTeams.length === 0) return [];
-        return calculateStandings(activeCategoryTeams, activeCategoryMatches);
-    }, [activeCategory, activeCategoryTeams, activeCategoryMatches]);
+        if (!activeCategory || activeCategoryRankedTeams.length === 0) return [];
+        const rules = getStandingsRules(activeCategory);
+        const scoring = getScoringRules(activeCategory);
+        if (activeCategory.swiss) return calculateSwissStandings(activeCategoryRankedTeams, activeCategoryLeagueMatches, activeCategory.swiss, rules, scoring);
+        return calculateStandings(activeCategoryRankedTeams, activeCategoryLeagueMatches, rules, scoring);
+    }, [activeCategory, activeCategoryRankedTeams, activeCategoryLeagueMatches]);
+
+    const groupStandings = useMemo(() => {
+        if (!activeCategory?.groupStage) return undefined;
+        return calculateGroupStandings(activeCategory.groupStage, activeCategoryRankedTeams, activeCategoryLeagueMatches, getStandingsRules(activeCategory), getScoringRules(activeCategory));
+    }, [activeCategory, activeCategoryRankedTeams, activeCategoryLeagueMatches]);
+
+    // Only worked out while some result is provisional or protested
+    const confirmedStandings = useMemo(() => {
+        if (!activeCategory || !activeCategoryLeagueMatches.some(isResultProvisional)) return undefined;
+        return getCategoryStandings(activeCategory, teams, activeCategoryLeagueMatches.filter(m => !isResultProvisional(m)));
+    }, [activeCategory, teams, activeCategoryLeagueMatches]);
+
+    // Standings replayed after every round or match day, for the movement arrows and the position chart
+    const standingsHistory = useMemo(() => (activeCategory ? getStandingsHistory(activeCategory, teams, matches) : []), [activeCategory, teams, matches]);
+    const teamForm = useMemo(
+        () => Object.fromEntries(activeCategoryTeams.map(t => [t.id, getTeamForm(t.id, activeCategoryLeagueMatches)])),
+        [activeCategoryTeams, activeCategoryLeagueMatches]
+    );
+
+    // Checked over every category, since the same players may enter several of them
+    const scheduleConflicts = useMemo(() => findScheduleConflicts(matches, teams, schedule), [matches, teams, schedule]);
+    const officialConflicts = useMemo(() => findOfficialConflicts(matches, officials, schedule.slotMinutes), [matches, officials, schedule.slotMinutes]);
+
+    // Suspended players of each pending match, flagged on the match cards
+    const suspensions = useMemo(() => {
+        const today = todayIso();
+        return new Map(activeCategoryMatches
+            .filter(m => m.status === MatchStatus.Pending)
+            .map(m => [m.id, getSuspendedPlayers(m, players, teams, sanctions, matches, today)]));
+    }, [activeCategoryMatches, players, teams, sanctions, matches]);
+
+    // Players of each pending match without a valid licence, when the category checks them
+    const unlicensed = useMemo(() => {
+        if (!activeCategory?.licenceCheck) return new Map();
+        const today = todayIso();
+        return new Map(activeCategoryMatches
+            .filter(m => m.status === MatchStatus.Pending)
+            .map(m => [m.id, getUnlicensedPlayers(m, players, teams, today)]));
+    }, [activeCategory, activeCategoryMatches, players, teams]);
+
+    // Keeps any open public display in step with the tournament
+    useEffect(() => {
+        // The signed acta is not shown on the display and would only bloat every broadcast
+        publishDisplaySnapshot({ categories, teams, matches: matches.map(({ sheet, ...match }) => match), schedule });
+    }, [categories, teams, matches, schedule]);
+
+    // Walkover fines go with their match when fixtures are regenerated or removed
+    useEffect(() => {
+        setCharges(prev => dropOrphanWalkoverFines(prev, matches));
+    }, [matches]);
 
     const viewingPlayer = useMemo(() => {
         if (!viewingPlayerId) return null;
@@ -84,6 +188,19 @@ const App: React.FC = () => {
         return matches.filter(m => playerTeamIds.has(m.team1.id) || playerTeamIds.has(m.team2.id));
     }, [matches, viewingPlayer, viewingPlayerTeams]);
 
+    // Replayed from scratch on every change, so corrected results propagate
+    const ratings = useMemo(() => calculateRatings(collectRatedResults(ratingArchive, matches, teams, players, categories)), [ratingArchive, matches, teams, players, categories]);
+    const teamRatings = useMemo(() => getTeamRatings(ratings, activeCategoryTeams, activeCategory), [ratings, activeCategoryTeams, activeCategory]);
+
+    const teamClubs = useMemo(() => getTeamClubs(teams, clubs), [teams, clubs]);
+    const categoryPlacements = useMemo(() => categories.map(c => getCategoryPlacements(c, teams, matches)), [categories, teams, matches]);
+    const clubRanking = useMemo(() => getClubRanking(clubs, teams, categoryPlacements), [clubs, teams, categoryPlacements]);
+
+    const viewingPlayerStats = useMemo(() => {
+        if (!viewingPlayer) return null;
+        return calculatePlayerStats(viewingPlayer, teams, matches, categories);
+    }, [viewingPlayer, teams, matches, categories]);
+
 
     // Handlers
     const handleAddPlayer = (playerData: Omit<Player, 'id'>) => {
@@ -101,6 +218,7 @@ const App: React.FC = () => {
             ...team,
             playerIds: team.playerIds.filter(pid => pid !== id)
         })));
+        setSanctions(prev => prev.filter(s => s.playerId !== id));
         setPlayers(prev => prev.filter(p => p.id !== id));
     };
 
@@ -112,13 +230,13 @@ const App: React.FC = () => {
         setPlayers(prev => [...prev, ...newPlayers]);
     };
 
-    const handleAddTeam = (name: string, playerIds: string[]) => {
-        const newTeam: Team = { id: `team-${Date.now()}`, name, playerIds };
+    const handleAddTeam = (name: string, playerIds: string[], unavailability: UnavailabilityWindow[], clubId?: string) => {
+        const newTeam: Team = { id: `team-${Date.now()}`, name, playerIds, unavailability, ...(clubId && { clubId }) };
         setTeams(prev => [...prev, newTeam]);
     };
 
-    const handleUpdateTeam = (id: string, name: string, playerIds: string[]) => {
-        setTeams(prev => prev.map(t => t.id === id ? { ...t, name, playerIds } : t));
+    const handleUpdateTeam = (id: string, name: string, playerIds: string[], unavailability: UnavailabilityWindow[], clubId?: string) => {
+        setTeams(prev => prev.map(t => t.id === id ? { ...t, name, playerIds, unavailability, clubId } : t));
     };
 
     const handleDeleteTeam = (id: string) => {
@@ -127,18 +245,102 @@ const App: React.FC = () => {
             ...cat,
             teamIds: cat.teamIds.filter(tid => tid !== id)
         })));
+        setOfficials(prev => prev.map(o => ({ ...o, teamIds: o.teamIds.filter(tid => tid !== id) })));
+        // The ledger keeps its movements under the team's name, since receipts have been issued
+        const teamName = teams.find(t => t.id === id)?.name ?? '';
+        setCharges(prev => prev.map(c => c.teamId === id ? { ...c, teamName } : c));
+        setPayments(prev => prev.map(p => p.teamId === id ? { ...p, teamName } : p));
         // Delete associated matches
         setMatches(prev => prev.filter(m => m.team1.id !== id && m.team2.id !== id));
         setTeams(prev => prev.filter(t => t.id !== id));
     };
 
-    const handleAddCategory = (name: string, teamIds: string[]) => {
-        const newCategory: Category = { id: `category-${Date.now()}`, name, teamIds };
+    const handleAddOfficial = (officialData: Omit<Official, 'id'>) => {
+        const newOfficial: Official = { id: `official-${Date.now()}`, ...officialData };
+        setOfficials(prev => [...prev, newOfficial]);
+    };
+
+    const handleUpdateOfficial = (id: string, officialData: Omit<Official, 'id'>) => {
+        setOfficials(prev => prev.map(o => o.id === id ? { ...o, ...officialData } : o));
+    };
+
+    const handleDeleteOfficial = (id: string) => {
+        // Also remove from any match they were assigned to
+        setMatches(prev => prev.map(m => ({
+            ...m,
+            refereeId: m.refereeId === id ? undefined : m.refereeId,
+            scorekeeperId: m.scorekeeperId === id ? undefined : m.scorekeeperId,
+        })));
+        setOfficials(prev => prev.filter(o => o.id !== id));
+    };
+
+    const handleAddSanction = (sanctionData: Omit<Sanction, 'id'>) => {
+        const newSanction: Sanction = { id: `sanction-${Date.now()}`, ...sanctionData };
+        setSanctions(prev => [...prev, newSanction]);
+    };
+
+    const handleDeleteSanction = (id: string) => {
+        setSanctions(prev => prev.filter(s => s.id !== id));
+    };
+
+    const handleAddClub = (clubData: Omit<Club, 'id'>) => {
+        const newClub: Club = { id: `club-${Date.now()}`, ...clubData };
+        setClubs(prev => [...prev, newClub]);
+    };
+
+    const handleUpdateClub = (id: string, clubData: Omit<Club, 'id'>) => {
+        setClubs(prev => prev.map(c => c.id === id ? { id, ...clubData } : c));
+    };
+
+    const handleDeleteClub = (id: string) => {
+        // Its teams and players stay, without a club
+        setTeams(prev => prev.map(t => t.clubId === id ? { ...t, clubId: undefined } : t));
+        setPlayers(prev => prev.map(p => p.clubId === id ? { ...p, clubId: undefined } : p));
+        setClubs(prev => prev.filter(c => c.id !== id));
+    };
+
+    const handleAddCategory = (name: string, teamIds: string[], settings: CategorySettings) => {
+        const newCategory: Category = { id: `category-${Date.now()}`, name, teamIds, ...settings };
         setCategories(prev => [...prev, newCategory]);
+        chargeInscriptions([newCategory]);
+    };
+
+    const handleUpdateCategory = (id: string, name: string, teamIds: string[], settings: CategorySettings) => {
+        setCategories(prev => prev.map(c => c.id === id ? { ...c, name, teamIds, ...settings } : c));
+        const category = categories.find(c => c.id === id);
+        if (category) chargeInscriptions([{ ...category, name, teamIds, ...settings }]);
+    };
+
+    // Charges the inscription fee to the teams just entered in the categories
+    const chargeInscriptions = (updatedCategories: Category[]) => {
+        const today = todayIso();
+        setCharges(prev => updatedCategories.reduce((acc, category) => [...acc, ...getInscriptionCharges(category, acc, today)], prev));
     };
 
-    const handleUpdateCategory = (id: string, name: string, teamIds: string[]) => {
-        setCategories(prev => prev.map(c => c.id === id ? { ...c, name, teamIds } : c));
+    const handleAddCharge = (chargeData: Omit<Charge, 'id'>) => {
+        const newCharge: Charge = { id: `charge-${Date.now()}`, ...chargeData };
+        setCharges(prev => [...prev, newCharge]);
+    };
+
+    const handleDeleteCharge = (id: string) => {
+        setCharges(prev => prev.filter(c => c.id !== id));
+    };
+
+    const handleAddPayment = (paymentData: Omit<Payment, 'id'>) => {
+        const newPayment: Payment = { id: `payment-${Date.now()}`, ...paymentData };
+        setPayments(prev => [...prev, newPayment]);
+    };
+
+    const handleDeletePayment = (id: string) => {
+        setPayments(prev => prev.filter(p => p.id !== id));
+    };
+
+    const handleToggleExpelledTeam = (categoryId: string, teamId: string) => {
+        setCategories(prev => prev.map(c => {
+            if (c.id !== categoryId) return c;
+            const expelled = c.expelledTeamIds || [];
+            return { ...c, expelledTeamIds: expelled.includes(teamId) ? expelled.filter(id => id !== teamId) : [...expelled, teamId] };
+        }));
     };
 
     const handleDeleteCategory = (id: string) => {
@@ -147,60 +349,154 @@ const App: React.FC = () => {
         }
         // Delete associated matches
         setMatches(prev => prev.filter(m => m.categoryId !== id));
+        setCharges(prev => voidUnpaidCategoryCharges(prev, payments, id));
         setCategories(prev => prev.filter(c => c.id !== id));
     };
 
     const handleGenerateMatches = (twoLegged: boolean) => {
         if (!activeCategory) return;
         const newMatches = generateRoundRobinMatches(activeCategoryTeams, activeCategory, twoLegged);
-        // Remove old matches for this category and add new ones
+        // A single league replaces any group phase or Swiss system
+        setCategories(prev => prev.map(c => c.id === activeCategory.id ? { ...c, groupStage: undefined, swiss: undefined } : c));
+        // Remove old league matches for this category and add new ones
         setMatches(prev => [
-            ...prev.filter(m => m.categoryId !== activeCategory.id),
+            ...prev.filter(m => m.categoryId !== activeCategory.id || m.bracketNodeId),
             ...newMatches
         ]);
     };
 
-    const handleUpdateMatch = (matchId: string, newMatchData: Partial<Pick<Match, 'sets' | 'date'>>) => {
-        setMatches(prevMatches => prevMatches.map(match => {
-            if (match.id !== matchId) return match;
+    const handleGenerateGroupStage = (payload: GroupStagePayload) => {
+        if (!activeCategory) return;
+        const { groupCount, teamIds, ...settings } = payload;
+        const groupStage = { ...settings, groups: assignTeamsToGroups(teamIds, groupCount, settings.seeding) };
+        const updatedCategory: Category = { ...activeCategory, groupStage, swiss: undefined };
+        setCategories(prev => prev.map(c => c.id === updatedCategory.id ? updatedCategory : c));
+        setMatches(prev => [
+            ...prev.filter(m => m.categoryId !== activeCategory.id || m.bracketNodeId),
+            ...generateGroupStageMatches(groupStage, activeCategoryTeams, updatedCategory)
+        ]);
+    };
 
-            const updatedMatch = { ...match, ...newMatchData };
+    const handleStartSwiss = (totalRounds: number) => {
+        if (!activeCategory) return;
+        const startedCategory: Category = { ...activeCategory, groupStage: undefined, swiss: { totalRounds, byes: [] } };
+        const { matches: roundMatches, bye } = generateSwissRound(activeCategoryRankedTeams, [], startedCategory);
+        const updatedCategory: Category = { ...startedCategory, swiss: { totalRounds, byes: bye ? [bye] : [] } };
+        setCategories(prev => prev.map(c => c.id === updatedCategory.id ? updatedCategory : c));
+        setMatches(prev => [
+            ...prev.filter(m => m.categoryId !== activeCategory.id || m.bracketNodeId),
+            ...roundMatches
+        ]);
+    };
 
-            // Determine winner
-            let team1SetWins = 0;
-            let team2SetWins = 0;
-            
-            updatedMatch.sets.forEach(set => {
-                if (set.team1 !== null && set.team2 !== null) {
-                    if (set.team1 > set.team2) team1SetWins++;
-                    if (set.team2 > set.team1) team2SetWins++;
+    const handleGenerateNextSwissRound = () => {
+        if (!activeCategory?.swiss) return;
+        const { matches: roundMatches, bye } = generateSwissRound(activeCategoryRankedTeams, activeCategoryLeagueMatches, activeCategory);
+        const swiss = { ...activeCategory.swiss, byes: bye ? [...activeCategory.swiss.byes, bye] : activeCategory.swiss.byes };
+        setCategories(prev => prev.map(c => c.id === activeCategory.id ? { ...c, swiss } : c));
+        setMatches(prev => [...prev, ...roundMatches]);
+    };
+
+    const handleGeneratePlayoff = (seedTeamIds: string[], options: KnockoutOptions) => {
+        if (!activeCategory) return;
+        const updatedCategory: Category = { ...activeCategory, playoff: generateKnockoutStage(seedTeamIds, options) };
+        setCategories(prev => prev.map(c => c.id === updatedCategory.id ? updatedCategory : c));
+        // Start from an empty bracket: drop any knockout matches left from a previous draw
+        setMatches(prev => applyBracketSync(
+            updatedCategory,
+            teams,
+            prev.filter(m => m.categoryId !== updatedCategory.id || !m.bracketNodeId)
+        ));
+    };
+
+    const handleResetPlayoff = () => {
+        if (!activeCategory) return;
+        setCategories(prev => prev.map(c => c.id === activeCategory.id ? { ...c, playoff: undefined } : c));
+        setMatches(prev => prev.filter(m => m.categoryId !== activeCategory.id || !m.bracketNodeId));
+    };
+
+    const handleUpdateMatch = (matchId: string, newMatchData: MatchUpdate) => {
+        setMatches(prevMatches => {
+            const updatedMatches = prevMatches.map(match => {
+                if (match.id !== matchId) return match;
+
+                // A new date never silently replaces the old one: it goes into the rescheduling history
+                const updatedMatch = withRescheduleEntry(match, { ...match, ...newMatchData });
+
+                switch (updatedMatch.status) {
+                    case MatchStatus.Walkover:
+                    case MatchStatus.Retired:
+                        // The winner is whoever did not fail to show up or retire, chosen by the editor
+                        break;
+                    case MatchStatus.Suspended:
+                    case MatchStatus.Annulled:
+                        updatedMatch.winner = null;
+                        break;
+                    default: {
+                        // Determine winner under the category's scoring rules
+                        const rules = getScoringRules(categories.find(c => c.id === match.categoryId));
+                        const { winner } = getMatchResult(updatedMatch.sets, rules);
+                        updatedMatch.winner = winner ? updatedMatch[winner] : null;
+                        updatedMatch.status = winner ? MatchStatus.Finished : MatchStatus.Pending;
+                        updatedMatch.statusReason = undefined;
+                    }
                 }
+
+                return updatedMatch;
             });
 
-            if (team1SetWins >= 2) {
-                updatedMatch.winner = updatedMatch.team1;
-            } else if (team2SetWins >= 2) {
-                updatedMatch.winner = updatedMatch.team2;
-            } else {
-                updatedMatch.winner = null;
-            }
+            // Advance winners (or roll back later rounds) when a knockout result changes
+            const bracketMatch = updatedMatches.find(m => m.id === matchId && m.bracketNodeId);
+            const bracketCategory = bracketMatch && categories.find(c => c.id === bracketMatch.categoryId);
+            return bracketCategory ? applyBracketSync(bracketCategory, teams, updatedMatches) : updatedMatches;
+        });
 
-            if (updatedMatch.winner) {
-                updatedMatch.status = MatchStatus.Finished;
-            } else {
-                updatedMatch.status = MatchStatus.Pending;
-            }
-            
-            // Clean up third set if match is decided in two
-            if (team1SetWins === 2 || team2SetWins === 2) {
-                const thirdSet = updatedMatch.sets[2];
-                if (thirdSet && thirdSet.team1 === null && thirdSet.team2 === null) {
-                    // No need to do anything if it was already empty
-                }
-            }
-            
-            return updatedMatch;
-        }));
+        // A walkover fines the team that did not show up
+        const match = matches.find(m => m.id === matchId);
+        if (match) {
+            const today = todayIso();
+            setCharges(prev => syncWalkoverFine(prev, { ...match, ...newMatchData }, categories.find(c => c.id === match.categoryId), today));
+        }
+    };
+
+    const handleUpdateSchedule = (settings: ScheduleSettings) => {
+        setSchedule(settings);
+        setMatches(prev => releaseRemovedCourts(prev, settings));
+    };
+
+    const handleAutoSchedule = (date: string, categoryId: string | null) => {
+        setMatches(prev => {
+            const toSchedule = getUnscheduledMatches(prev, date).filter(m => !categoryId || m.categoryId === categoryId);
+            const assignments = autoScheduleMatches(toSchedule, prev, teams, players, schedule, date);
+            return prev.map(m => assignments.has(m.id) ? { ...m, ...assignments.get(m.id) } : m);
+        });
+    };
+
+    const handleFillDates = (options: FillDatesOptions) => {
+        if (!activeCategory) return;
+        setMatches(prev => {
+            const toDate = prev.filter(m => m.categoryId === activeCategory.id && m.status === MatchStatus.Pending && !m.date);
+            const dates = fillMatchDates(toDate, prev, teams, players, options);
+            return prev.map(m => dates.has(m.id) ? { ...m, date: dates.get(m.id)! } : m);
+        });
+    };
+
+    const handleAutoAssignOfficials = (date: string, categoryId: string | null) => {
+        setMatches(prev => {
+            const toAssign = prev.filter(m =>
+                m.date === date && m.status === MatchStatus.Pending && (!categoryId || m.categoryId === categoryId) && (!m.refereeId || !m.scorekeeperId)
+            );
+            const changes = autoAssignOfficials(toAssign, prev, officials, schedule.slotMinutes);
+            return prev.map(m => changes.has(m.id) ? { ...m, ...changes.get(m.id) } : m);
+        });
+    };
+
+    const handleMoveMatch = (matchId: string, slot: MatchSlot | null) => {
+        setMatches(prev => moveMatchToSlot(prev, matchId, slot));
+    };
+
+    const handleRescheduleMatch = (matchId: string, request: RescheduleRequest) => {
+        setMatches(prev => prev.map(m => m.id === matchId ? rescheduleMatch(m, request) : m));
     };
 
     const handleSelectCategory = (id: string | null) => {
@@ -295,6 +591,7 @@ const App: React.FC = () => {
         });
         
         setCategories(updatedCategories);
+        chargeInscriptions(updatedCategories);
     };
     
     const handleSaveChampionship = () => {
@@ -303,6 +600,13 @@ const App: React.FC = () => {
             teams,
             categories,
             matches,
+            schedule,
+            officials,
+            sanctions,
+            clubs,
+            charges,
+            payments,
+            ratingArchive,
             activeCategoryId,
             isPanelCollapsed,
             version: '1.0.0', // For future compatibility
@@ -310,7 +614,7 @@ const App: React.FC = () => {
         };
         const jsonString = JSON.stringify(tournamentData, null, 2);
         const blob = new Blob([jsonString], { type: 'application/json;charset=utf-8' });
-        saveAs(blob, `championship_backup_${new Date().toISOString().split('T')[0]}.json`);
+        saveAs(blob, `championship_backup_${todayIso()}.json`);
     };
 
     const handleFileSelected = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -350,10 +654,17 @@ const App: React.FC = () => {
                 throw new Error("El archivo no tiene un formato válido.");
             }
 
+            archiveCurrentResults(Array.isArray(data.ratingArchive) ? data.ratingArchive : []);
             setPlayers(data.players);
             setTeams(data.teams);
             setCategories(data.categories);
             setMatches(data.matches);
+            setSchedule(data.schedule || DEFAULT_SCHEDULE_SETTINGS);
+            setOfficials(data.officials || []);
+            setSanctions(data.sanctions || []);
+            setClubs(data.clubs || []);
+            setCharges(data.charges || []);
+            setPayments(data.payments || []);
             setActiveCategoryId(data.activeCategoryId || null);
             setIsPanelCollapsed(data.isPanelCollapsed || false);
             setViewingPlayerId(null);
@@ -374,11 +685,24 @@ const App: React.FC = () => {
         }
     };
 
+    // Keeps the finished results of the championship being closed (and any brought by a loaded file)
+    const archiveCurrentResults = (loadedArchive: RatedResult[] = []) => {
+        const current = matches.flatMap(m => toRatedResult(m, teams, players, categories) ?? []);
+        setRatingArchive(prev => mergeRatedResults(mergeRatedResults(prev, loadedArchive), current));
+    };
+
     const confirmNewChampionship = () => {
+        archiveCurrentResults();
         setPlayers([]);
         setTeams([]);
         setCategories([]);
         setMatches([]);
+        setSchedule(DEFAULT_SCHEDULE_SETTINGS);
+        setOfficials([]);
+        setSanctions([]);
+        setClubs([]);
+        setCharges([]);
+        setPayments([]);
         setActiveCategoryId(null);
         setViewingPlayerId(null);
         setMaximizedWidget(null);
@@ -389,6 +713,11 @@ const App: React.FC = () => {
         setMaximizedWidget(prev => prev === widgetName ? null : widgetName);
     };
 
+    const handleSelectMatch = (matchId: string) => {
+        setMaximizedWidget(prev => prev === 'scheduler' ? prev : null);
+        setMatchFocus({ matchId, at: Date.now() });
+    };
+
     const renderMaximizedWidget = () => {
         const commonProps = { isMaximized: true };
         switch (maximizedWidget) {
@@ -398,29 +727,83 @@ const App: React.FC = () => {
                 return <MatchScheduler {...{...commonProps, ...matchSchedulerProps}} onToggleMaximize={() => toggleMaximize('scheduler')} />;
             case 'standings':
                 return <StandingsTable {...{...commonProps, ...standingsTableProps}} onToggleMaximize={() => toggleMaximize('standings')} />;
+            case 'bracket':
+                return <BracketView {...{...commonProps, ...bracketViewProps}} onToggleMaximize={() => toggleMaximize('bracket')} />;
             case 'summary':
                 return <TournamentSummary {...{...commonProps, ...tournamentSummaryProps}} onToggleMaximize={() => toggleMaximize('summary')} />;
+            case 'crossTable':
+                return <CrossTable {...{...commonProps, ...crossTableProps}} onToggleMaximize={() => toggleMaximize('crossTable')} />;
+            case 'ratings':
+                return <RatingsView {...{...commonProps, ...ratingsViewProps}} onToggleMaximize={() => toggleMaximize('ratings')} />;
+            case 'clubs':
+                return <ClubRankingView {...{...commonProps, ...clubRankingViewProps}} onToggleMaximize={() => toggleMaximize('clubs')} />;
+            case 'ledger':
+                return <LedgerView {...{...commonProps, ...ledgerViewProps}} onToggleMaximize={() => toggleMaximize('ledger')} />;
+            case 'playerStats':
+                return <PlayerStatsView {...{...commonProps, ...playerStatsViewProps}} onToggleMaximize={() => toggleMaximize('playerStats')} />;
+            case 'schedule':
+                return <ScheduleView {...{...commonProps, ...scheduleViewProps}} onToggleMaximize={() => toggleMaximize('schedule')} />;
             default:
                 return null;
         }
     };
 
     const managementPanelProps = {
-        players, teams, categories, activeCategoryId,
+        players, teams, categories, activeCategoryId, officials, matches, courts: schedule.courts, sanctions, clubs,
         onAddPlayer: handleAddPlayer, onUpdatePlayer: handleUpdatePlayer, onDeletePlayer: handleDeletePlayer,
         onImportPlayers: handleImportPlayers,
         onAddTeam: handleAddTeam, onUpdateTeam: handleUpdateTeam, onDeleteTeam: handleDeleteTeam,
         onAddCategory: handleAddCategory, onUpdateCategory: handleUpdateCategory, onDeleteCategory: handleDeleteCategory,
+        onToggleExpelledTeam: handleToggleExpelledTeam,
         onSelectCategory: handleSelectCategory,
         onImportTeams: handleImportTeams, onImportCategories: handleImportCategories,
         onViewPlayerProfile: handleViewPlayerProfile,
+        onAddOfficial: handleAddOfficial, onUpdateOfficial: handleUpdateOfficial, onDeleteOfficial: handleDeleteOfficial,
+        onAddSanction: handleAddSanction, onDeleteSanction: handleDeleteSanction,
+        onAddClub: handleAddClub, onUpdateClub: handleUpdateClub, onDeleteClub: handleDeleteClub,
     };
     const matchSchedulerProps = {
         matches: activeCategoryMatches, teams: activeCategoryTeams, players, categoryName: activeCategory?.name,
-        onGenerateMatches: handleGenerateMatches, onUpdateMatch: handleUpdateMatch,
+        playoff: activeCategory?.playoff, groupStage: activeCategory?.groupStage, swiss: activeCategory?.swiss, scoring: activeCategory?.scoring,
+        onGenerateMatches: handleGenerateMatches, onGenerateGroupStage: handleGenerateGroupStage,
+        onStartSwiss: handleStartSwiss, onGenerateNextSwissRound: handleGenerateNextSwissRound, onUpdateMatch: handleUpdateMatch,
+        onRescheduleMatch: handleRescheduleMatch,
+        courts: schedule.courts, scheduleConflicts, slotMinutes: schedule.slotMinutes, onFillDates: handleFillDates,
+        officials, officialConflicts,
+        sanctions, suspensions, onAddSanction: handleAddSanction,
+        matchFocus, teamRatings, teamClubs,
+        unlicensed, licenceCheck: activeCategory?.licenceCheck,
+    };
+    const standingsTableProps = {
+        standings, groupStandings, qualifiersPerGroup: activeCategory?.groupStage?.qualifiersPerGroup, categoryName: activeCategory?.name,
+        confirmed: confirmedStandings,
+        history: standingsHistory, movement: getRankMovement(standingsHistory), form: teamForm,
+        teamClubs,
+    };
+    const bracketViewProps = {
+        playoff: activeCategory?.playoff, groupStage: activeCategory?.groupStage, groupStandings, standingsRules: activeCategory?.standingsRules,
+        teams: activeCategoryTeams, standings, matches: activeCategoryMatches,
+        onGeneratePlayoff: handleGeneratePlayoff, onResetPlayoff: handleResetPlayoff,
+        teamRatings,
+    };
+    const crossTableProps = {
+        teams: activeCategoryTeams, matches: activeCategoryMatches, groupStage: activeCategory?.groupStage, scoring: activeCategory?.scoring,
+        categoryName: activeCategory?.name, onSelectMatch: handleSelectMatch,
     };
-    const standingsTableProps = { standings, categoryName: activeCategory?.name };
     const tournamentSummaryProps = { standings, matches: activeCategoryMatches, categoryName: activeCategory?.name || '' };
+    const scheduleViewProps = {
+        matches, teams, players, categories, activeCategoryId, schedule, conflicts: scheduleConflicts,
+        officials, officialConflicts,
+        onUpdateSchedule: handleUpdateSchedule, onAutoSchedule: handleAutoSchedule, onMoveMatch: handleMoveMatch,
+        onAutoAssignOfficials: handleAutoAssignOfficials,
+    };
+    const ratingsViewProps = { ratings, archivedResults: ratingArchive.length, onClearArchive: () => setRatingArchive([]) };
+    const ledgerViewProps = {
+        teams, categories, matches, clubs, charges, payments,
+        onAddCharge: handleAddCharge, onDeleteCharge: handleDeleteCharge, onAddPayment: handleAddPayment, onDeletePayment: handleDeletePayment,
+    };
+    const clubRankingViewProps = { clubs, teams, ranking: clubRanking, results: categoryPlacements };
+    const playerStatsViewProps = { players, teams, matches, categories, activeCategoryId, onViewPlayerProfile: handleViewPlayerProfile };
 
     return (
         <div className="bg-background text-text-primary min-h-screen p-4 sm:p-6 lg:p-8">
@@ -457,6 +840,54 @@ const App: React.FC = () => {
                     </p>
                 </div>
                 <div className="flex-shrink-0 flex items-center gap-2">
+                     <button
+                        onClick={() => { setViewingPlayerId(null); toggleMaximize('schedule'); }}
+                        className="flex items-center gap-2 bg-purple-600 text-white font-bold py-2 px-4 rounded-md hover:bg-purple-500 transition-colors"
+                        title="Pistas, horarios y cuadrícula del día"
+                    >
+                        <CalendarIcon className="w-5 h-5" />
+                        <span>Horarios</span>
+                    </button>
+                     <button
+                        onClick={() => { setViewingPlayerId(null); toggleMaximize('ratings'); }}
+                        className="flex items-center gap-2 bg-orange-600 text-white font-bold py-2 px-4 rounded-md hover:bg-orange-500 transition-colors"
+                        title="Rating Elo de equipos y jugadores a lo largo de los campeonatos"
+                    >
+                        <TrophyIcon className="w-5 h-5" />
+                        <span>Ranking</span>
+                    </button>
+                     <button
+                        onClick={() => { setViewingPlayerId(null); toggleMaximize('clubs'); }}
+                        className="flex items-center gap-2 bg-cyan-700 text-white font-bold py-2 px-4 rounded-md hover:bg-cyan-600 transition-colors"
+                        title="Medallero y clasificación por clubes de todas las categorías"
+                    >
+                        <BuildingIcon className="w-5 h-5" />
+                        <span>Clubes</span>
+                    </button>
+                     <button
+                        onClick={() => { setViewingPlayerId(null); toggleMaximize('playerStats'); }}
+                        className="flex items-center gap-2 bg-teal-600 text-white font-bold py-2 px-4 rounded-md hover:bg-teal-500 transition-colors"
+                        title="Estadísticas y clasificaciones individuales de los jugadores"
+                    >
+                        <ChartBarIcon className="w-5 h-5" />
+                        <span>Estadísticas</span>
+                    </button>
+                     <button
+                        onClick={() => { setViewingPlayerId(null); toggleMaximize('ledger'); }}
+                        className="flex items-center gap-2 bg-emerald-700 text-white font-bold py-2 px-4 rounded-md hover:bg-emerald-600 transition-colors"
+                        title="Cuotas, multas, pagos y saldo de cada equipo"
+                    >
+                        <BanknotesIcon className="w-5 h-5" />
+                        <span>Cuentas</span>
+                    </button>
+                     <button
+                        onClick={() => window.open(`${window.location.pathname}${DISPLAY_HASH}`, 'fronton-display')}
+                        className="flex items-center gap-2 bg-gray-700 text-white font-bold py-2 px-4 rounded-md hover:bg-gray-600 transition-colors"
+                        title="Abrir la pantalla pública para proyectar en la sede"
+                    >
+                        <TvIcon className="w-5 h-5" />
+                        <span>Pantalla</span>
+                    </button>
                      <button
                         onClick={handleSaveChampionship}
                         className="flex items-center gap-2 bg-blue-600 text-white font-bold py-2 px-4 rounded-md hover:bg-blue-500 transition-colors"
@@ -497,6 +928,7 @@ const App: React.FC = () => {
                         player={viewingPlayer}
                         teams={viewingPlayerTeams}
                         matches={viewingPlayerMatches}
+                        stats={viewingPlayerStats!}
                         onBack={handleBackToMainView}
                     />
                 </div>
@@ -537,6 +969,12 @@ const App: React.FC = () => {
                                             <div className="flex-1 min-h-0">
                                                 <StandingsTable {...standingsTableProps} onToggleMaximize={() => toggleMaximize('standings')} />
                                             </div>
+                                            <div className="flex-1 min-h-0">
+                                                <CrossTable {...crossTableProps} onToggleMaximize={() => toggleMaximize('crossTable')} />
+                                            </div>
+                                            <div className="flex-1 min-h-0">
+                                                <BracketView {...bracketViewProps} onToggleMaximize={() => toggleMaximize('bracket')} />
+                                            </div>
                                             <div className="flex-1 min-h-0">
                                                 <TournamentSummary {...tournamentSummaryProps} onToggleMaximize={() => toggleMaximize('summary')} />
                                             </div>
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { UnavailabilityWindow } from '../types';
+import { describeUnavailability } from '../utils/scheduleUtils';
+import { PlusIcon, TrashIcon } from './icons';
+
+interface AvailabilityEditorProps {
+  windows: UnavailabilityWindow[];
+  onChange: (windows: UnavailabilityWindow[]) => void;
+}
+
+const inputClassName = "bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+
+export const AvailabilityEditor: React.FC<AvailabilityEditorProps> = ({ windows, onChange }) => {
+  const [date, setDate] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [note, setNote] = useState('');
+
+  // Without a date or hours the window would rule out every day
+  const canAdd = (date || from || to) && !(from && to && from >= to);
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    const window: UnavailabilityWindow = {
+      id: `window-${Date.now()}`,
+      ...(date && { date }),
+      ...(from && { from }),
+      ...(to && { to }),
+      ...(note.trim() && { note: note.trim() }),
+    };
+    onChange([...windows, window]);
+    setDate('');
+    setFrom('');
+    setTo('');
+    setNote('');
+  };
+
+  return (
+    <details className="text-sm">
+        <summary className="cursor-pointer text-text-secondary">No disponible ({windows.length})</summary>
+        <div className="mt-2 space-y-2">
+            {windows.length > 0 && (
+                <ul className="space-y-1">
+                    {windows.map(window => (
+                        <li key={window.id} className="flex items-center justify-between bg-gray-900 px-3 py-1 rounded-md text-text-primary">
+                            <span className="first-letter:uppercase">{describeUnavailability(window)}</span>
+                            <button type="button" onClick={() => onChange(windows.filter(w => w.id !== window.id))} className="p-1 rounded text-red-500 hover:bg-gray-700" aria-label="Quitar restricción">
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className="grid grid-cols-3 gap-2">
+                <input type="date" value={date} onChange={e => setDate(e.target.value)} title="Día (vacío = todos los días)" className={`${inputClassName} text-text-secondary`} />
+                <input type="time" value={from} onChange={e => setFrom(e.target.value)} title="Desde (vacío = desde el inicio del día)" className={`${inputClassName} text-text-secondary`} />
+                <input type="time" value={to} onChange={e => setTo(e.target.value)} title="Hasta (vacío = hasta el final del día)" className={`${inputClassName} text-text-secondary`} />
+            </div>
+            <div className="flex gap-2">
+                <input type="text" value={note} onChange={e => setNote(e.target.value)} placeholder="Motivo (opcional)" className={`${inputClassName} flex-1 min-w-0`} />
+                <button type="button" onClick={handleAdd} disabled={!canAdd} className="flex items-center gap-1 bg-primary text-background font-semibold py-1 px-3 rounded-md hover:bg-primary-dark disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors" aria-label="Añadir restricción">
+                    <PlusIcon className="w-4 h-4" />
+                </button>
+            </div>
+            <p className="text-xs text-text-secondary">Deja el día vacío para una restricción diaria (p. ej. solo "hasta" 12:00 = no antes de las 12:00), o las horas vacías para todo el día.</p>
+        </div>
+    </details>
+  );
+};
@@ -0,0 +1,320 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Team, Match, Standings, KnockoutStage, KnockoutOptions, KnockoutFormat, BracketNode, BracketSection, GroupStage, StandingsRules } from '../types';
+import { Card } from './Card';
+import { ConfirmationDialog } from './ConfirmationDialog';
+import { BracketIcon, TrashIcon, ArrowUpIcon, ArrowDownIcon } from './icons';
+import { resolveBracket, getBracketRoundName, SlotState, ResolvedNode } from '../utils/bracketUtils';
+import { countSetWins } from '../utils/tournamentUtils';
+import { GroupStandings, getGroupQualifierSeeds, isGroupStageComplete } from '../utils/groupUtils';
+import { formatRating, sortByRating } from '../utils/ratingUtils';
+
+interface BracketViewProps {
+  playoff?: KnockoutStage;
+  groupStage?: GroupStage;
+  groupStandings?: GroupStandings[];
+  standingsRules?: StandingsRules;
+  teams: Team[];
+  standings: Standings[];
+  matches: Match[];
+  onGeneratePlayoff: (seedTeamIds: string[], options: KnockoutOptions) => void;
+  onResetPlayoff: () => void;
+  teamRatings?: Record<string, number>;
+  isMaximized?: boolean;
+  onToggleMaximize?: () => void;
+}
+
+const BracketSlot: React.FC<{ slot: SlotState; seed?: number; setWins: number | null; isWinner: boolean }> = ({ slot, seed, setWins, isWinner }) => (
+    <div className={`flex items-center justify-between gap-2 px-2 py-1 text-sm ${isWinner ? 'text-primary font-bold' : 'text-text-primary'}`}>
+        <span className="truncate">
+            {seed !== undefined && slot !== 'bye' && <span className="text-xs text-text-secondary mr-1">{seed}</span>}
+            {slot === null ? <span className="italic text-text-secondary">Por definir</span> : slot === 'bye' ? <span className="text-text-secondary">BYE</span> : slot.name}
+        </span>
+        {setWins !== null && <span className="font-mono">{setWins}</span>}
+    </div>
+);
+
+const BracketMatchBox: React.FC<{ node: BracketNode; resolved: Map<string, ResolvedNode> }> = ({ node, resolved }) => {
+    const { team1, team2, winner, match } = resolved.get(node.id)!;
+    const setWins = match && winner ? countSetWins(match.sets) : null;
+    const isWinner = (slot: SlotState) => !!winner && winner !== 'bye' && slot !== null && slot !== 'bye' && slot.id === winner.id;
+    const seeds = node.sources.map(s => s.type === 'seed' ? s.seed : undefined);
+
+    return (
+        <div className="bg-background border border-border rounded-md divide-y divide-border w-44">
+            <BracketSlot slot={team1} seed={seeds[0]} setWins={setWins ? setWins.team1 : null} isWinner={isWinner(team1)} />
+            <BracketSlot slot={team2} seed={seeds[1]} setWins={setWins ? setWins.team2 : null} isWinner={isWinner(team2)} />
+        </div>
+    );
+};
+
+export const BracketView: React.FC<BracketViewProps> = ({ playoff, groupStage, groupStandings, standingsRules, teams, standings, matches, onGeneratePlayoff, onResetPlayoff, teamRatings, isMaximized, onToggleMaximize }) => {
+  const [qualifiers, setQualifiers] = useState(Math.min(teams.length, 8));
+  const [seeding, setSeeding] = useState<KnockoutStage['seeding']>(groupStage ? 'groups' : 'standings');
+  const [manualOrder, setManualOrder] = useState<string[]>([]);
+  const [format, setFormat] = useState<KnockoutFormat>('single');
+  const [thirdPlaceMatch, setThirdPlaceMatch] = useState(false);
+  const [consolation, setConsolation] = useState(false);
+  const [isResetConfirmOpen, setIsResetConfirmOpen] = useState(false);
+
+  const standingsOrder = useMemo(() => standings.map(s => s.team.id), [standings]);
+
+  useEffect(() => {
+    setManualOrder(standingsOrder);
+    setQualifiers(Math.min(standingsOrder.length, 8));
+  }, [standingsOrder]);
+
+  useEffect(() => {
+    setSeeding(groupStage ? 'groups' : 'standings');
+  }, [groupStage]);
+
+  const groupSeeds = useMemo(
+    () => groupStage && groupStandings ? getGroupQualifierSeeds(groupStage, groupStandings, standingsRules) : [],
+    [groupStage, groupStandings, standingsRules]
+  );
+  const isGroupPhasePending = seeding === 'groups' && !isGroupStageComplete(matches);
+
+  const resolved = useMemo(() => playoff ? resolveBracket(playoff, teams, matches) : null, [playoff, teams, matches]);
+
+  const ratingOrder = useMemo(() => (teamRatings ? sortByRating(standingsOrder, teamRatings) : standingsOrder), [standingsOrder, teamRatings]);
+
+  const seedOrder = seeding === 'groups' ? groupSeeds.map(s => s.teamId)
+    : seeding === 'standings' ? standingsOrder
+    : seeding === 'rating' ? ratingOrder
+    : manualOrder;
+  const seedCount = seeding === 'groups' ? groupSeeds.length : qualifiers;
+
+  const moveTeam = (index: number, direction: -1 | 1) => {
+    setManualOrder(prev => {
+      const next = [...prev];
+      const target = index + direction;
+      if (target < 0 || target >= next.length) return prev;
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleGenerate = () => {
+    onGeneratePlayoff(seedOrder.slice(0, seedCount), { format, seeding, thirdPlaceMatch, consolation });
+  };
+
+  const headerActions = playoff && (
+    <button
+        onClick={() => setIsResetConfirmOpen(true)}
+        className="text-text-secondary hover:text-red-400 p-1 rounded-full transition-colors"
+        aria-label="Eliminar cuadro"
+        title="Eliminar cuadro"
+    >
+        <TrashIcon className="w-5 h-5" />
+    </button>
+  );
+
+  const renderSetup = () => (
+    <div className="space-y-4">
+        <p className="text-sm text-text-secondary">Genera un cuadro de eliminación directa a partir de la clasificación, del rating o de un orden manual.</p>
+        <div className="flex flex-col sm:flex-row gap-4">
+            {seeding !== 'groups' && (
+            <label className="flex items-center gap-2 text-sm">
+                <span className="text-text-secondary">Clasificados:</span>
+                <select
+                    value={qualifiers}
+                    onChange={e => setQualifiers(Number(e.target.value))}
+                    className="bg-gray-900 border border-border rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary"
+                >
+                    {Array.from({ length: Math.max(teams.length - 1, 0) }, (_, i) => i + 2).map(n => (
+                        <option key={n} value={n}>{n}</option>
+                    ))}
+                </select>
+            </label>
+            )}
+            <div className="flex gap-2" role="group" aria-label="Tipo de cabezas de serie">
+                {groupStage && (
+                    <button
+                        onClick={() => setSeeding('groups')}
+                        className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors ${seeding === 'groups' ? 'bg-primary text-background' : 'bg-background hover:bg-gray-600 text-text-secondary'}`}
+                    >
+                        Desde grupos
+                    </button>
+                )}
+                <button
+                    onClick={() => setSeeding('standings')}
+                    className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors ${seeding === 'standings' ? 'bg-primary text-background' : 'bg-background hover:bg-gray-600 text-text-secondary'}`}
+                >
+                    Según clasificación
+                </button>
+                {teamRatings && (
+                    <button
+                        onClick={() => setSeeding('rating')}
+                        className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors ${seeding === 'rating' ? 'bg-primary text-background' : 'bg-background hover:bg-gray-600 text-text-secondary'}`}
+                    >
+                        Según rating
+                    </button>
+                )}
+                <button
+                    onClick={() => setSeeding('manual')}
+                    className={`px-3 py-1 text-sm font-semibold rounded-md transition-colors ${seeding === 'manual' ? 'bg-primary text-background' : 'bg-background hover:bg-gray-600 text-text-secondary'}`}
+                >
+                    Manual
+                </button>
+            </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+            <span className="text-text-secondary">Formato:</span>
+            <select
+                value={format}
+                onChange={e => setFormat(e.target.value as KnockoutFormat)}
+                className="bg-gray-900 border border-border rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary"
+            >
+                <option value="single">Eliminación directa</option>
+                <option value="double">Doble eliminación</option>
+            </select>
+        </label>
+        {format === 'single' && (
+            <div className="flex flex-col gap-2">
+                <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={thirdPlaceMatch}
+                        onChange={e => setThirdPlaceMatch(e.target.checked)}
+                        className="form-checkbox h-4 w-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary"
+                    />
+                    Partido por el tercer puesto
+                </label>
+                <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={consolation}
+                        onChange={e => setConsolation(e.target.checked)}
+                        className="form-checkbox h-4 w-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary"
+                    />
+                    Cuadro de consolación (repechaje) para los perdedores de primera ronda
+                </label>
+            </div>
+        )}
+        <ol className="space-y-1">
+            {seedOrder.map((teamId, index) => {
+                const team = teams.find(t => t.id === teamId);
+                if (!team) return null;
+                const qualifies = index < seedCount;
+                return (
+                    <li key={teamId} className={`flex items-center justify-between bg-background px-3 py-1.5 rounded-md text-sm ${qualifies ? 'text-text-primary' : 'text-text-secondary opacity-50'}`}>
+                        <span>
+                            <span className="font-bold text-primary mr-2">{index + 1}</span>
+                            {seeding === 'groups' && <span className="text-xs text-text-secondary mr-2">{groupSeeds[index].label}</span>}
+                            {team.name}
+                            {seeding === 'rating' && teamRatings && <span className="text-xs text-text-secondary ml-2">{formatRating(teamRatings[teamId])}</span>}
+                        </span>
+                        {seeding === 'manual' && (
+                            <span className="flex gap-1">
+                                <button onClick={() => moveTeam(index, -1)} disabled={index === 0} className="p-1 rounded hover:bg-gray-700 disabled:opacity-30" aria-label={`Subir ${team.name}`}>
+                                    <ArrowUpIcon className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => moveTeam(index, 1)} disabled={index === seedOrder.length - 1} className="p-1 rounded hover:bg-gray-700 disabled:opacity-30" aria-label={`Bajar ${team.name}`}>
+                                    <ArrowDownIcon className="w-4 h-4" />
+                                </button>
+                            </span>
+                        )}
+                    </li>
+                );
+            })}
+        </ol>
+        <button
+            onClick={handleGenerate}
+            disabled={teams.length < 2 || isGroupPhasePending || seedCount < 2}
+            className="w-full bg-primary text-background font-bold py-2 px-4 rounded-md hover:bg-primary-dark disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+        >
+            Generar Cuadro
+        </button>
+        {teams.length < 2 && <p className="text-xs text-text-secondary text-center">Necesitas al menos 2 equipos en la categoría.</p>}
+        {isGroupPhasePending && <p className="text-xs text-text-secondary text-center">Los cruces se generan cuando todos los partidos de grupos estén finalizados.</p>}
+    </div>
+  );
+
+  const renderSection = (stage: KnockoutStage, resolvedNodes: Map<string, ResolvedNode>, sections: BracketSection[]) => {
+    const sectionNodes = stage.nodes.filter(n => sections.includes(n.section) && n.section !== 'thirdPlace');
+    const rounds = Array.from(new Set(sectionNodes.map(n => n.round)));
+    const thirdPlaceNode = sections.includes('thirdPlace') ? stage.nodes.find(n => n.section === 'thirdPlace') : undefined;
+
+    return (
+        <div className="flex gap-6 overflow-x-auto pb-2">
+            {rounds.map(round => {
+                const roundNodes = sectionNodes.filter(n => n.round === round);
+                return (
+                    <div key={round} className="flex flex-col flex-shrink-0">
+                        <h3 className="text-xs font-bold uppercase tracking-wide text-text-secondary mb-2 text-center">{getBracketRoundName(roundNodes[0], stage)}</h3>
+                        <div className="flex flex-col justify-around flex-grow gap-3">
+                            {roundNodes.map(node => <BracketMatchBox key={node.id} node={node} resolved={resolvedNodes} />)}
+                        </div>
+                        {thirdPlaceNode && round === thirdPlaceNode.round && (
+                            <div className="mt-4">
+                                <h3 className="text-xs font-bold uppercase tracking-wide text-text-secondary mb-2 text-center">{getBracketRoundName(thirdPlaceNode, stage)}</h3>
+                                <BracketMatchBox node={thirdPlaceNode} resolved={resolvedNodes} />
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+  };
+
+  const renderBracket = (stage: KnockoutStage, resolvedNodes: Map<string, ResolvedNode>) => {
+    const hasSection = (section: BracketSection) => stage.nodes.some(n => n.section === section);
+    const resetNode = stage.nodes.find(n => n.section === 'grandFinalReset');
+    const isResetSkipped = resetNode && resolvedNodes.get(resetNode.id)?.team1 === 'bye';
+
+    if (stage.format !== 'double' && !hasSection('consolation')) {
+        return renderSection(stage, resolvedNodes, ['main', 'thirdPlace']);
+    }
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h3 className="text-sm font-bold uppercase tracking-wide text-primary mb-2">{stage.format === 'double' ? 'Cuadro de Ganadores' : 'Cuadro Principal'}</h3>
+                {renderSection(stage, resolvedNodes, ['main', 'thirdPlace'])}
+            </div>
+            {hasSection('losers') && (
+                <div>
+                    <h3 className="text-sm font-bold uppercase tracking-wide text-primary mb-2">Cuadro de Perdedores</h3>
+                    {renderSection(stage, resolvedNodes, ['losers'])}
+                </div>
+            )}
+            {hasSection('grandFinal') && (
+                <div>
+                    <h3 className="text-sm font-bold uppercase tracking-wide text-primary mb-2">Gran Final</h3>
+                    {renderSection(stage, resolvedNodes, isResetSkipped ? ['grandFinal'] : ['grandFinal', 'grandFinalReset'])}
+                    {isResetSkipped && <p className="text-xs text-text-secondary mt-1">El campeón del cuadro de ganadores ganó la gran final: no hace falta desempate.</p>}
+                </div>
+            )}
+            {hasSection('consolation') && (
+                <div>
+                    <h3 className="text-sm font-bold uppercase tracking-wide text-primary mb-2">Consolación</h3>
+                    {renderSection(stage, resolvedNodes, ['consolation'])}
+                </div>
+            )}
+        </div>
+    );
+  };
+
+  return (
+    <>
+    <ConfirmationDialog
+        isOpen={isResetConfirmOpen}
+        onClose={() => setIsResetConfirmOpen(false)}
+        onConfirm={() => { onResetPlayoff(); setIsResetConfirmOpen(false); }}
+        title="Eliminar Cuadro de Eliminatoria"
+    >
+        <p>¿Estás seguro de que quieres eliminar el cuadro de eliminatoria?</p>
+        <p className="text-sm text-yellow-400 mt-2">Se eliminarán todos los partidos de la fase final y sus resultados.</p>
+    </ConfirmationDialog>
+    <Card
+        title="Eliminatoria"
+        icon={<BracketIcon />}
+        headerActions={headerActions}
+        isMaximized={isMaximized}
+        onToggleMaximize={onToggleMaximize}
+    >
+      {playoff && resolved ? renderBracket(playoff, resolved) : renderSetup()}
+    </Card>
+    </>
+  );
+};
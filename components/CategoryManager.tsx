@@ -1,34 +1,52 @@
 import React, { useState, useMemo, useRef } from 'react';
-import { Team, Category, CategoryImportPayload } from '../types';
+import { Team, Player, Category, CategoryImportPayload, CategorySettings, ScoringRules, StandingsRules, EligibilityRules, FeeSchedule } from '../types';
 import { TrashIcon, PencilIcon, ExportIcon, ImportIcon, RefreshIcon } from './icons';
 import { ConfirmationDialog } from './ConfirmationDialog';
+import { ScoringRulesEditor } from './ScoringRulesEditor';
+import { StandingsRulesEditor } from './StandingsRulesEditor';
+import { EligibilityRulesEditor } from './EligibilityRulesEditor';
+import { EligibilityReport } from './EligibilityReport';
+import { DEFAULT_SCORING_RULES, getScoringRules, describeScoringRules } from '../utils/scoringUtils';
+import { DEFAULT_STANDINGS_RULES, getStandingsRules } from '../utils/standingsUtils';
+import { formatAmount } from '../utils/ledgerUtils';
+import { checkTeamEligibility, describeEligibilityRules, describeEligibilityViolation } from '../utils/eligibilityUtils';
+import { todayIso } from '../utils/dateUtils';
 
 // Make sure XLSX is globally available from the script tag
 declare const XLSX: any;
 
 interface CategoryManagerProps {
   teams: Team[];
+  players: Player[];
   categories: Category[];
   activeCategoryId: string | null;
-  onAddCategory: (name: string, teamIds: string[]) => void;
-  onUpdateCategory: (id: string, name: string, teamIds: string[]) => void;
+  onAddCategory: (name: string, teamIds: string[], settings: CategorySettings) => void;
+  onUpdateCategory: (id: string, name: string, teamIds: string[], settings: CategorySettings) => void;
   onDeleteCategory: (id:string) => void;
+  onToggleExpelledTeam: (categoryId: string, teamId: string) => void;
   onSelectCategory: (id: string | null) => void;
   onImportCategories: (payload: CategoryImportPayload[]) => void;
 }
 
 export const CategoryManager: React.FC<CategoryManagerProps> = ({
   teams,
+  players,
   categories,
   activeCategoryId,
   onAddCategory,
   onUpdateCategory,
   onDeleteCategory,
+  onToggleExpelledTeam,
   onSelectCategory,
   onImportCategories,
 }) => {
   const [newCategoryName, setNewCategoryName] = useState('');
   const [selectedTeamIds, setSelectedTeamIds] = useState<string[]>([]);
+  const [scoring, setScoring] = useState<ScoringRules>(DEFAULT_SCORING_RULES);
+  const [standingsRules, setStandingsRules] = useState<StandingsRules>(DEFAULT_STANDINGS_RULES);
+  const [eligibility, setEligibility] = useState<EligibilityRules | undefined>(undefined);
+  const [licenceCheck, setLicenceCheck] = useState<Category['licenceCheck']>(undefined);
+  const [fees, setFees] = useState<FeeSchedule | undefined>(undefined);
   const [editingCategoryId, setEditingCategoryId] = useState<string | null>(null);
   const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(null);
   const [importedCategories, setImportedCategories] = useState<CategoryImportPayload[] | null>(null);
@@ -47,18 +65,29 @@ export const CategoryManager: React.FC<CategoryManagerProps> = ({
     });
   }, [teams, categories, editingCategoryId, isEditing]);
 
+  // Checked against the rules being edited, before they are saved
+  const draftCategory = { id: editingCategoryId ?? 'new', name: newCategoryName, teamIds: selectedTeamIds, eligibility };
+  const getTeamViolations = (team: Team) => checkTeamEligibility(team.id, team.playerIds, draftCategory, players, todayIso());
+  const selectedViolations = teams.filter(t => selectedTeamIds.includes(t.id)).flatMap(getTeamViolations);
+  const isBlocked = eligibility?.enforcement === 'block' && selectedViolations.length > 0;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (newCategoryName.trim() === '') return;
+    if (newCategoryName.trim() === '' || isBlocked) return;
 
     if (isEditing) {
-        onUpdateCategory(editingCategoryId, newCategoryName, selectedTeamIds);
+        onUpdateCategory(editingCategoryId, newCategoryName, selectedTeamIds, { scoring, standingsRules, eligibility, licenceCheck, fees });
     } else {
-        onAddCategory(newCategoryName, selectedTeamIds);
+        onAddCategory(newCategoryName, selectedTeamIds, { scoring, standingsRules, eligibility, licenceCheck, fees });
     }
     
     setNewCategoryName('');
     setSelectedTeamIds([]);
+    setScoring(DEFAULT_SCORING_RULES);
+    setStandingsRules(DEFAULT_STANDINGS_RULES);
+    setEligibility(undefined);
+    setLicenceCheck(undefined);
+    setFees(undefined);
     setEditingCategoryId(null);
   };
   
@@ -66,12 +95,22 @@ export const CategoryManager: React.FC<CategoryManagerProps> = ({
     setEditingCategoryId(category.id);
     setNewCategoryName(category.name);
     setSelectedTeamIds(category.teamIds);
+    setScoring(getScoringRules(category));
+    setStandingsRules(getStandingsRules(category));
+    setEligibility(category.eligibility);
+    setLicenceCheck(category.licenceCheck);
+    setFees(category.fees);
   };
 
   const handleCancelEdit = () => {
     setEditingCategoryId(null);
     setNewCategoryName('');
     setSelectedTeamIds([]);
+    setScoring(DEFAULT_SCORING_RULES);
+    setStandingsRules(DEFAULT_STANDINGS_RULES);
+    setEligibility(undefined);
+    setLicenceCheck(undefined);
+    setFees(undefined);
   };
 
   const handleConfirmDelete = () => {
@@ -145,7 +184,7 @@ export const CategoryManager: React.FC<CategoryManagerProps> = ({
         title="Confirmar Eliminación de Categoría"
     >
         <p>¿Estás seguro de que quieres eliminar la categoría <strong>{categoryToDelete?.name}</strong>?</p>
-        <p className="text-sm text-yellow-400 mt-2">Se eliminarán todos los partidos asociados a esta categoría.</p>
+        <p className="text-sm text-yellow-400 mt-2">Se eliminarán todos los partidos asociados a esta categoría y se anularán las cuotas y multas de la categoría que estén pendientes de pago.</p>
     </ConfirmationDialog>
 
     <div className="flex flex-col h-full">
@@ -198,7 +237,9 @@ export const CategoryManager: React.FC<CategoryManagerProps> = ({
         <div className="mb-2">
           <p className="text-sm text-text-secondary mb-1">Selecciona equipos (opcional):</p>
           <div className="grid grid-cols-2 gap-2 max-h-32 overflow-y-auto">
-            {availableTeams.map(team => (
+            {availableTeams.map(team => {
+              const violationCount = getTeamViolations(team).length;
+              return (
               <label key={team.id} className={`flex items-center gap-2 p-2 rounded-md cursor-pointer transition-colors ${selectedTeamIds.includes(team.id) ? 'bg-primary text-background' : 'bg-gray-900 hover:bg-gray-800'}`}>
                 <input
                   type="checkbox"
@@ -207,15 +248,80 @@ export const CategoryManager: React.FC<CategoryManagerProps> = ({
                   className="form-checkbox h-4 w-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary"
                 />
                 <span className="text-sm font-medium">{team.name}</span>
+                {violationCount > 0 && <span className="ml-auto text-xs font-bold text-yellow-400" title="No cumple los requisitos de la categoría">⚠ {violationCount}</span>}
               </label>
-            ))}
+              );
+            })}
           </div>
           {availableTeams.length === 0 && <p className="text-xs text-text-secondary mt-1">No hay equipos disponibles.</p>}
+          {selectedViolations.length > 0 && (
+            <div className={`mt-2 text-xs p-2 rounded-md border ${isBlocked ? 'border-red-700 text-red-400' : 'border-yellow-700 text-yellow-400'}`}>
+              <p className="font-semibold mb-1">{isBlocked ? 'No se puede guardar: hay equipos que no cumplen los requisitos.' : 'Hay equipos que no cumplen los requisitos:'}</p>
+              <ul className="space-y-0.5">
+                {selectedViolations.map((v, i) => (
+                  <li key={i}>{teams.find(t => t.id === v.teamId)?.name}: {describeEligibilityViolation(v, draftCategory, players, todayIso())}</li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
+        <details className="mb-2">
+          <summary className="text-sm text-text-secondary cursor-pointer mb-1">Reglas de puntuación: {describeScoringRules(scoring)}</summary>
+          <ScoringRulesEditor rules={scoring} onChange={setScoring} />
+          {isEditing && <p className="text-xs text-text-secondary mt-1">Los cambios se aplican a los resultados que se guarden a partir de ahora.</p>}
+        </details>
+        <details className="mb-2">
+          <summary className="text-sm text-text-secondary cursor-pointer mb-1">Puntos y desempates de la clasificación</summary>
+          <StandingsRulesEditor rules={standingsRules} onChange={setStandingsRules} />
+        </details>
+        <details className="mb-2">
+          <summary className="text-sm text-text-secondary cursor-pointer mb-1">Requisitos de inscripción: {eligibility ? describeEligibilityRules(eligibility) : 'Abierta'}</summary>
+          <EligibilityRulesEditor rules={eligibility} onChange={setEligibility} />
+        </details>
+        <label className="flex items-center justify-between gap-2 mb-2 text-sm">
+          <span className="text-text-secondary">Licencias y certificados médicos:</span>
+          <select
+            value={licenceCheck ?? ''}
+            onChange={e => setLicenceCheck((e.target.value || undefined) as Category['licenceCheck'])}
+            className="bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary"
+          >
+            <option value="">No comprobar</option>
+            <option value="warn">Avisar en los partidos</option>
+            <option value="block">Impedir anotar el resultado</option>
+          </select>
+        </label>
+        {licenceCheck && (
+          <p className="text-xs text-text-secondary -mt-1 mb-2">
+            Se comprueba la plantilla completa de cada equipo: un solo jugador sin licencia en regla {licenceCheck === 'block' ? 'impide anotar el resultado de todos sus partidos' : 'genera un aviso en todos sus partidos'}.
+          </p>
+        )}
+        <details className="mb-2">
+          <summary className="text-sm text-text-secondary cursor-pointer mb-1">Cuotas: {fees ? `inscripción ${formatAmount(fees.inscription)} · W.O. ${formatAmount(fees.walkoverFine)}` : 'sin cuotas'}</summary>
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            {([['inscription', 'Inscripción por equipo'], ['walkoverFine', 'Multa por W.O.']] as [keyof FeeSchedule, string][]).map(([field, label]) => (
+              <label key={field} className="flex items-center justify-between gap-2">
+                <span className="text-text-secondary">{label}:</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="0"
+                  value={fees?.[field] || ''}
+                  onChange={e => {
+                    const next = { inscription: 0, walkoverFine: 0, ...fees, [field]: Math.max(0, parseFloat(e.target.value) || 0) };
+                    setFees(next.inscription > 0 || next.walkoverFine > 0 ? next : undefined);
+                  }}
+                  className="w-24 bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-text-secondary mt-1">La inscripción se carga a cada equipo al añadirlo a la categoría.</p>
+        </details>
          <div className="flex gap-2 mt-2">
             <button
               type="submit"
-              disabled={!newCategoryName.trim()}
+              disabled={!newCategoryName.trim() || isBlocked}
               className="flex-grow w-full bg-primary text-background font-bold py-2 px-4 rounded-md hover:bg-primary-dark disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
             >
               {isEditing ? 'Actualizar Categoría' : 'Crear Categoría'}
@@ -232,6 +338,7 @@ export const CategoryManager: React.FC<CategoryManagerProps> = ({
         </div>
       </form>
       <div className="flex-grow overflow-y-auto pr-2">
+        <EligibilityReport categories={categories} teams={teams} players={players} />
         <h3 className="text-text-primary font-semibold mb-2">Categorías Existentes</h3>
          {categories.length > 0 ? (
           <ul className="space-y-2">
@@ -248,7 +355,9 @@ export const CategoryManager: React.FC<CategoryManagerProps> = ({
                 <div className="flex justify-between items-center">
                     <div>
                       <p className="font-semibold text-text-primary">{category.name}</p>
-                      <p className="text-sm text-text-secondary">{category.teamIds.length} equipos</p>
+                      <p className="text-sm text-text-secondary">{category.teamIds.length} equipos · {describeScoringRules(getScoringRules(category))}</p>
+                      {category.eligibility && <p className="text-xs text-text-secondary">{describeEligibilityRules(category.eligibility)}</p>}
+                      {category.licenceCheck && <p className="text-xs text-text-secondary">Se exige licencia en vigor</p>}
                     </div>
                     <div className="flex items-center gap-2">
                         <button
@@ -272,11 +381,21 @@ export const CategoryManager: React.FC<CategoryManagerProps> = ({
                     <h4 className="text-sm font-semibold text-text-secondary mb-2">Equipos en esta categoría:</h4>
                     {categoryTeams.length > 0 ? (
                       <ul className="space-y-1 pl-2">
-                        {categoryTeams.map(team => (
-                          <li key={team.id} className="text-sm text-text-primary list-disc list-inside">
-                            {team.name}
-                          </li>
-                        ))}
+                        {categoryTeams.map(team => {
+                          const isExpelled = (category.expelledTeamIds || []).includes(team.id);
+                          return (
+                            <li key={team.id} className="flex items-center justify-between text-sm text-text-primary">
+                              <span className={`list-item list-disc list-inside ${isExpelled ? 'line-through text-text-secondary' : ''}`}>{team.name}</span>
+                              <button
+                                onClick={(e) => { e.stopPropagation(); onToggleExpelledTeam(category.id, team.id); }}
+                                className={`text-xs px-2 py-0.5 rounded-md transition-colors ${isExpelled ? 'bg-red-600 text-white hover:bg-red-500' : 'text-text-secondary hover:text-red-400'}`}
+                                title={isExpelled ? 'Volver a incluir sus resultados en la clasificación' : 'Excluir sus resultados de la clasificación'}
+                              >
+                                {isExpelled ? 'Expulsado' : 'Expulsar'}
+                              </button>
+                            </li>
+                          );
+                        })}
                       </ul>
                     ) : (
                       <p className="text-sm text-text-secondary pl-2">No hay equipos asignados.</p>
@@ -0,0 +1,24 @@
+import React from 'react';
+import { Club } from '../types';
+import { getClubInitials } from '../utils/clubUtils';
+
+interface ClubBadgeProps {
+  club?: Club;
+  className?: string; // size, e.g. "w-5 h-5 text-[8px]"
+}
+
+// Club logo, or its initials in the club colours when it has no logo
+export const ClubBadge: React.FC<ClubBadgeProps> = ({ club, className = 'w-5 h-5 text-[8px]' }) => {
+  if (!club) return null;
+  return club.logoUrl ? (
+    <img src={club.logoUrl} alt={club.name} title={club.name} className={`${className} rounded-full object-cover flex-shrink-0`} />
+  ) : (
+    <span
+      title={club.name}
+      className={`${className} rounded-full flex-shrink-0 inline-flex items-center justify-center font-bold`}
+      style={{ backgroundColor: club.colors?.[0] ?? '#374151', color: club.colors?.[1] ?? '#ffffff' }}
+    >
+      {getClubInitials(club)}
+    </span>
+  );
+};
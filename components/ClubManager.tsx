@@ -0,0 +1,208 @@
+import React, { useRef, useState } from 'react';
+import { Club, Player, Team } from '../types';
+import { TrashIcon, PlusIcon, PencilIcon } from './icons';
+import { ConfirmationDialog } from './ConfirmationDialog';
+import { ClubBadge } from './ClubBadge';
+
+interface ClubManagerProps {
+  clubs: Club[];
+  teams: Team[];
+  players: Player[];
+  onAddClub: (clubData: Omit<Club, 'id'>) => void;
+  onUpdateClub: (id: string, clubData: Omit<Club, 'id'>) => void;
+  onDeleteClub: (id: string) => void;
+}
+
+const initialFormState = {
+  name: '',
+  logoUrl: '',
+  contactName: '',
+  email: '',
+  phone: '',
+  colors: ['#f59e0b', '#111827'] as [string, string],
+};
+
+export const ClubManager: React.FC<ClubManagerProps> = ({ clubs, teams, players, onAddClub, onUpdateClub, onDeleteClub }) => {
+  const [formData, setFormData] = useState(initialFormState);
+  const [editingClubId, setEditingClubId] = useState<string | null>(null);
+  const [clubToDelete, setClubToDelete] = useState<Club | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+
+  const isEditing = editingClubId !== null;
+  const isFormValid = formData.name.trim() !== '';
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      setFormData(prev => ({ ...prev, logoUrl: event.target?.result as string }));
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isFormValid) return;
+    const { name, logoUrl, contactName, email, phone, colors } = formData;
+    // Empty optional fields are left out rather than stored as ''
+    const clubData: Omit<Club, 'id'> = {
+      name: name.trim(),
+      colors,
+      ...(logoUrl && { logoUrl }),
+      ...(contactName.trim() && { contactName: contactName.trim() }),
+      ...(email.trim() && { email: email.trim() }),
+      ...(phone.trim() && { phone: phone.trim() }),
+    };
+    if (isEditing) {
+      onUpdateClub(editingClubId, clubData);
+    } else {
+      onAddClub(clubData);
+    }
+    resetForm();
+  };
+
+  const handleEdit = (club: Club) => {
+    setEditingClubId(club.id);
+    setFormData({
+      name: club.name,
+      logoUrl: club.logoUrl || '',
+      contactName: club.contactName || '',
+      email: club.email || '',
+      phone: club.phone || '',
+      colors: club.colors || initialFormState.colors,
+    });
+  };
+
+  const resetForm = () => {
+    setFormData(initialFormState);
+    setEditingClubId(null);
+  };
+
+  const handleConfirmDelete = () => {
+    if (clubToDelete) {
+      onDeleteClub(clubToDelete.id);
+    }
+    setClubToDelete(null);
+  };
+
+  const previewClub: Club = { id: 'preview', ...formData, name: formData.name || '?', logoUrl: formData.logoUrl || undefined };
+
+  return (
+    <>
+    <ConfirmationDialog
+        isOpen={!!clubToDelete}
+        onClose={() => setClubToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        title="Confirmar Eliminación de Club"
+    >
+        <p>¿Estás seguro de que quieres eliminar el club <strong>{clubToDelete?.name}</strong>?</p>
+        <p className="text-sm text-yellow-400 mt-2">Sus equipos y jugadores no se borran: quedarán sin club.</p>
+    </ConfirmationDialog>
+
+    <div className="flex flex-col h-full">
+      <form onSubmit={handleSubmit} className="mb-4 border-b border-border pb-4 space-y-2">
+        <div className="flex gap-4">
+            <div className="flex-grow space-y-2">
+                <input type="text" name="name" value={formData.name} onChange={handleInputChange} placeholder="Nombre del club o colegio" className="w-full bg-gray-900 border border-border rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary" />
+                <div className="grid grid-cols-2 gap-2">
+                    <input type="text" name="contactName" value={formData.contactName} onChange={handleInputChange} placeholder="Persona de contacto" className="bg-gray-900 border border-border rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary" />
+                    <input type="tel" name="phone" value={formData.phone} onChange={handleInputChange} placeholder="Teléfono" className="bg-gray-900 border border-border rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary" />
+                    <input type="email" name="email" value={formData.email} onChange={handleInputChange} placeholder="Correo electrónico" className="col-span-2 bg-gray-900 border border-border rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary" />
+                </div>
+                <div className="flex items-center gap-3 text-sm text-text-secondary">
+                    <span>Colores:</span>
+                    {formData.colors.map((color, index) => (
+                        <input
+                            key={index}
+                            type="color"
+                            value={color}
+                            onChange={e => setFormData(prev => ({ ...prev, colors: (index === 0 ? [e.target.value, prev.colors[1]] : [prev.colors[0], e.target.value]) as [string, string] }))}
+                            className="w-8 h-8 bg-transparent border border-border rounded cursor-pointer"
+                            title={index === 0 ? 'Color principal' : 'Color secundario'}
+                        />
+                    ))}
+                </div>
+            </div>
+            <div className="flex-shrink-0 w-24 flex flex-col items-center gap-2">
+                <ClubBadge club={previewClub} className="w-20 h-20 text-2xl" />
+                <input type="file" ref={logoInputRef} onChange={handleLogoChange} accept="image/*" className="hidden" />
+                <button type="button" onClick={() => logoInputRef.current?.click()} className="text-xs text-primary hover:underline">
+                    {formData.logoUrl ? 'Cambiar escudo' : 'Subir escudo'}
+                </button>
+                {formData.logoUrl && (
+                    <button type="button" onClick={() => setFormData(prev => ({ ...prev, logoUrl: '' }))} className="text-xs text-text-secondary hover:text-red-400">
+                        Quitar
+                    </button>
+                )}
+            </div>
+        </div>
+        <div className="flex gap-2">
+            <button
+                type="submit"
+                disabled={!isFormValid}
+                className="flex-grow flex items-center justify-center gap-2 bg-primary text-background font-bold py-2 px-4 rounded-md hover:bg-primary-dark disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+                {isEditing ? 'Actualizar Club' : 'Añadir Club'}
+                {!isEditing && <PlusIcon className="w-4 h-4" />}
+            </button>
+            {isEditing && (
+                <button type="button" onClick={resetForm} className="bg-gray-600 text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-500 transition-colors">
+                    Cancelar
+                </button>
+            )}
+        </div>
+      </form>
+      <div className="flex-grow overflow-y-auto pr-2">
+        {clubs.length > 0 ? (
+            <ul className="space-y-2">
+                {clubs.map(club => {
+                    const clubTeams = teams.filter(t => t.clubId === club.id);
+                    const playerCount = players.filter(p => p.clubId === club.id).length;
+                    const contact = [club.contactName, club.phone, club.email].filter(Boolean).join(' · ');
+                    return (
+                        <li key={club.id} className="flex justify-between items-start bg-background p-3 rounded-md border border-border">
+                            <div className="flex items-start gap-3 min-w-0">
+                                <ClubBadge club={club} className="w-10 h-10 text-sm" />
+                                <div className="min-w-0">
+                                    <p className="font-semibold text-text-primary">{club.name}</p>
+                                    <p className="text-xs text-text-secondary mt-1">
+                                        {clubTeams.length} {clubTeams.length === 1 ? 'equipo' : 'equipos'} · {playerCount} {playerCount === 1 ? 'jugador' : 'jugadores'}
+                                    </p>
+                                    {clubTeams.length > 0 && <p className="text-xs text-text-secondary truncate">Equipos: {clubTeams.map(t => t.name).join(', ')}</p>}
+                                    {contact && <p className="text-xs text-text-secondary truncate">{contact}</p>}
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                                <button
+                                    onClick={() => handleEdit(club)}
+                                    className="text-blue-400 hover:text-blue-300 p-1 rounded-full hover:bg-gray-700 transition-colors"
+                                    aria-label={`Editar ${club.name}`}
+                                >
+                                    <PencilIcon className="w-5 h-5" />
+                                </button>
+                                <button
+                                    onClick={() => setClubToDelete(club)}
+                                    className="text-red-500 hover:text-red-400 p-1 rounded-full hover:bg-gray-700 transition-colors"
+                                    aria-label={`Eliminar ${club.name}`}
+                                >
+                                    <TrashIcon className="w-5 h-5" />
+                                </button>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        ) : (
+            <p className="text-center text-text-secondary py-4">Añade los clubes y colegios que representan los equipos.</p>
+        )}
+      </div>
+    </div>
+    </>
+  );
+};
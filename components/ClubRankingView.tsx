@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Club, Team } from '../types';
+import { Card } from './Card';
+import { ClubBadge } from './ClubBadge';
+import { BuildingIcon, PdfIcon } from './icons';
+import { CLUB_PLACEMENT_POINTS, CategoryPlacements, ClubRankingEntry, getTeamClubs, sortByMedals, sortByPoints } from '../utils/clubUtils';
+import { todayIso } from '../utils/dateUtils';
+
+// Make sure jspdf is globally available from the script tag
+declare const jspdf: any;
+
+interface ClubRankingViewProps {
+  clubs: Club[];
+  teams: Team[];
+  ranking: ClubRankingEntry[];
+  results: CategoryPlacements[];
+  isMaximized?: boolean;
+  onToggleMaximize?: () => void;
+}
+
+type View = 'medals' | 'points';
+
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+export const ClubRankingView: React.FC<ClubRankingViewProps> = ({ clubs, teams, ranking, results, isMaximized, onToggleMaximize }) => {
+  const [view, setView] = useState<View>('medals');
+  const teamClubs = getTeamClubs(teams, clubs);
+  const rows = view === 'medals' ? sortByMedals(ranking) : sortByPoints(ranking);
+  const finishedCount = results.filter(r => r.finished).length;
+  const teamName = (teamId: string) => teams.find(t => t.id === teamId)?.name ?? '';
+
+  const handleExportToPdf = () => {
+    if (typeof jspdf === 'undefined') {
+      alert("La librería de exportación no está disponible.");
+      return;
+    }
+    const { jsPDF } = jspdf;
+    const doc = new jsPDF();
+    const headStyles = { fillColor: [209, 213, 219], textColor: [49, 49, 49], fontStyle: 'bold' };
+    doc.text('Medallero por clubes', 14, 15);
+    (doc as any).autoTable({
+      startY: 20,
+      head: [['#', 'Club', 'Oro', 'Plata', 'Bronce', 'Total']],
+      body: sortByMedals(ranking).map((e, i) => [i + 1, e.club.name, e.gold, e.silver, e.bronze, e.gold + e.silver + e.bronze]),
+      headStyles,
+    });
+    doc.text('Clasificación por puntos', 14, (doc as any).lastAutoTable.finalY + 12);
+    (doc as any).autoTable({
+      startY: (doc as any).lastAutoTable.finalY + 17,
+      head: [['#', 'Club', 'Equipos', 'Puntos']],
+      body: sortByPoints(ranking).map((e, i) => [i + 1, e.club.name, e.teams, e.points]),
+      headStyles,
+    });
+    doc.save(`clubes_${todayIso()}.pdf`);
+  };
+
+  const headerActions = (
+    <button
+        onClick={handleExportToPdf}
+        disabled={ranking.length === 0}
+        className="text-text-secondary hover:text-primary p-1 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-label="Exportar clasificación de clubes a PDF"
+        title="Exportar a PDF"
+    >
+        <PdfIcon className="w-5 h-5" />
+    </button>
+  );
+
+  return (
+    <Card
+        title="Clubes"
+        icon={<BuildingIcon />}
+        headerActions={headerActions}
+        isMaximized={isMaximized}
+        onToggleMaximize={onToggleMaximize}
+    >
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="text-text-secondary">
+            {view === 'medals'
+              ? `Podios de las ${finishedCount} de ${results.length} categorías terminadas.`
+              : `Puntos por puesto en cada categoría (${CLUB_PLACEMENT_POINTS.join(', ')}); las categorías sin terminar cuentan con su clasificación actual.`}
+          </span>
+          <div className="flex gap-1 bg-background p-1 rounded-md flex-shrink-0">
+            {[{ label: 'Medallero', value: 'medals' as View }, { label: 'Puntos', value: 'points' as View }].map(option => (
+              <button
+                key={option.value}
+                onClick={() => setView(option.value)}
+                className={`px-3 py-1 rounded-md font-semibold transition-colors ${view === option.value ? 'bg-primary text-background' : 'text-text-secondary hover:bg-gray-600'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {rows.length > 0 ? (
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-border text-text-secondary uppercase">
+              <tr>
+                <th className="py-2 px-3 text-center">#</th>
+                <th className="py-2 px-3">Club</th>
+                {view === 'medals' ? (
+                  <>
+                    {MEDALS.map(medal => <th key={medal} className="py-2 px-3 text-center">{medal}</th>)}
+                    <th className="py-2 px-3 text-center">Total</th>
+                  </>
+                ) : (
+                  <>
+                    <th className="py-2 px-3 text-center">Equipos</th>
+                    <th className="py-2 px-3 text-center">Puntos</th>
+                  </>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((entry, index) => (
+                <tr key={entry.club.id} className="border-b border-border">
+                  <td className="py-2 px-3 text-center font-bold text-text-secondary">{index + 1}</td>
+                  <td className="py-2 px-3 font-medium text-text-primary">
+                    <span className="flex items-center gap-2"><ClubBadge club={entry.club} />{entry.club.name}</span>
+                  </td>
+                  {view === 'medals' ? (
+                    <>
+                      <td className="py-2 px-3 text-center">{entry.gold}</td>
+                      <td className="py-2 px-3 text-center">{entry.silver}</td>
+                      <td className="py-2 px-3 text-center">{entry.bronze}</td>
+                      <td className="py-2 px-3 text-center font-bold text-primary">{entry.gold + entry.silver + entry.bronze}</td>
+                    </>
+                  ) : (
+                    <>
+                      <td className="py-2 px-3 text-center text-text-primary">{entry.teams}</td>
+                      <td className="py-2 px-3 text-center font-bold text-primary">{entry.points}</td>
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-center text-text-secondary py-8">Asigna los equipos a sus clubes para ver la clasificación por clubes.</p>
+        )}
+
+        {view === 'medals' && finishedCount > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-text-secondary uppercase">Podios</h3>
+            {results.filter(r => r.finished).map(({ category, placements }) => (
+              <div key={category.id} className="bg-background border border-border rounded-md p-2 text-sm">
+                <p className="font-semibold text-text-primary mb-1">{category.name}</p>
+                <ul className="space-y-0.5">
+                  {placements.filter(p => p.position <= 3).map(p => (
+                    <li key={p.teamId} className="flex items-center gap-2 text-text-secondary">
+                      <span>{MEDALS[p.position - 1]}</span>
+                      <ClubBadge club={teamClubs[p.teamId]} className="w-4 h-4 text-[7px]" />
+                      <span className="text-text-primary">{teamName(p.teamId)}</span>
+                      {teamClubs[p.teamId] && <span className="text-xs">({teamClubs[p.teamId].name})</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
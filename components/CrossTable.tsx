@@ -0,0 +1,181 @@
+import React from 'react';
+import { GroupStage, Match, ScoringRules, Team } from '../types';
+import { buildCrossTables, CrossTableEntry, CrossTableOutcome } from '../utils/crossTableUtils';
+import { DEFAULT_SCORING_RULES } from '../utils/scoringUtils';
+import { Card } from './Card';
+import { TableCellsIcon, PdfIcon, ExportIcon } from './icons';
+
+// Make sure jspdf and XLSX are globally available
+declare const jspdf: any;
+declare const XLSX: any;
+
+interface CrossTableProps {
+  teams: Team[];
+  matches: Match[];
+  groupStage?: GroupStage;
+  scoring?: ScoringRules;
+  categoryName?: string;
+  onSelectMatch: (matchId: string) => void;
+  isMaximized?: boolean;
+  onToggleMaximize?: () => void;
+}
+
+const OUTCOME_CLASSES: Record<CrossTableOutcome, string> = {
+  win: 'bg-green-700 text-white',
+  loss: 'bg-red-800 text-white',
+  pending: 'bg-gray-700 text-text-secondary hover:bg-gray-600 cursor-pointer',
+  void: 'bg-gray-900 text-text-secondary line-through',
+};
+
+const OUTCOME_PDF_COLORS: Record<CrossTableOutcome, number[]> = {
+  win: [187, 247, 208],
+  loss: [254, 202, 202],
+  pending: [243, 244, 246],
+  void: [229, 231, 235],
+};
+
+// Both legs in one cell, e.g. "2-1 / 0-2"
+const formatCell = (entries: CrossTableEntry[]) => entries.map(e => e.label).join(' / ');
+
+// A cell takes the colour of its only result; with several legs, only a clean sweep or all losses colour it
+const getCellOutcome = (entries: CrossTableEntry[]): CrossTableOutcome | null => {
+  if (entries.length === 0) return null;
+  const outcomes = new Set(entries.map(e => e.outcome));
+  return outcomes.size === 1 ? entries[0].outcome : null;
+};
+
+export const CrossTable: React.FC<CrossTableProps> = ({ teams, matches, groupStage, scoring = DEFAULT_SCORING_RULES, categoryName, onSelectMatch, isMaximized, onToggleMaximize }) => {
+  const tables = buildCrossTables(teams, matches, scoring, groupStage);
+  const hasMatches = matches.some(m => !m.bracketNodeId);
+  const fileName = `cruces_${(categoryName || 'torneo').replace(/\s+/g, '_').toLowerCase()}`;
+
+  const handleExportToExcel = () => {
+    const workbook = XLSX.utils.book_new();
+    tables.forEach(table => {
+      const rows = [
+        ['', ...table.teams.map(t => t.name)],
+        ...table.teams.map((team, r) => [team.name, ...table.teams.map((_, c) => (r === c ? '—' : formatCell(table.entries[r][c])))]),
+      ];
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), table.title || 'Cruces');
+    });
+    XLSX.writeFile(workbook, `${fileName}.xlsx`);
+  };
+
+  const handleExportToPdf = () => {
+    if (typeof jspdf === 'undefined') {
+      alert("La librería de exportación no está disponible.");
+      return;
+    }
+    const { jsPDF } = jspdf;
+    const doc = new jsPDF({ orientation: 'landscape' });
+    doc.text(`Tabla de cruces - ${categoryName || 'General'}`, 14, 15);
+
+    let startY = 20;
+    tables.forEach(table => {
+      if (table.title) {
+        doc.setFontSize(12);
+        doc.text(table.title, 14, startY + 5);
+        startY += 8;
+      }
+      (doc as any).autoTable({
+        startY,
+        head: [['', ...table.teams.map(t => t.name)]],
+        body: table.teams.map((team, r) => [team.name, ...table.teams.map((_, c) => (r === c ? '' : formatCell(table.entries[r][c])))]),
+        headStyles: { fillColor: [209, 213, 219], textColor: [49, 49, 49], fontStyle: 'bold' },
+        styles: { halign: 'center', fontSize: 8 },
+        columnStyles: { 0: { halign: 'left', fontStyle: 'bold' } },
+        didParseCell: (data: any) => {
+          if (data.section !== 'body' || data.column.index === 0) return;
+          const r = data.row.index;
+          const c = data.column.index - 1;
+          const outcome = r === c ? 'void' : getCellOutcome(table.entries[r][c]);
+          if (outcome) data.cell.styles.fillColor = OUTCOME_PDF_COLORS[outcome];
+        },
+      });
+      startY = (doc as any).lastAutoTable.finalY + 10;
+    });
+    doc.save(`${fileName}.pdf`);
+  };
+
+  const headerActions = (
+    <>
+        <button
+            onClick={handleExportToExcel}
+            disabled={!hasMatches}
+            className="text-text-secondary hover:text-primary p-1 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Exportar a Excel"
+            title="Exportar a Excel"
+        >
+            <ExportIcon className="w-5 h-5" />
+        </button>
+        <button
+            onClick={handleExportToPdf}
+            disabled={!hasMatches}
+            className="text-text-secondary hover:text-primary p-1 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Exportar a PDF"
+            title="Exportar a PDF"
+        >
+            <PdfIcon className="w-5 h-5" />
+        </button>
+    </>
+  );
+
+  return (
+    <Card
+        title="Cruces"
+        icon={<TableCellsIcon />}
+        headerActions={headerActions}
+        isMaximized={isMaximized}
+        onToggleMaximize={onToggleMaximize}
+    >
+      {hasMatches ? (
+        <div className="space-y-6">
+          {tables.map(table => (
+            <div key={table.title || 'general'} className="overflow-x-auto">
+              {table.title && <h3 className="text-sm font-bold uppercase tracking-wide text-primary mb-2">{table.title}</h3>}
+              <table className="text-xs border-collapse">
+                <thead>
+                  <tr>
+                    <th />
+                    {table.teams.map(team => (
+                      <th key={team.id} className="p-1 text-text-secondary font-semibold max-w-[6rem] truncate" title={team.name}>{team.name}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.teams.map((row, r) => (
+                    <tr key={row.id}>
+                      <th className="p-1 pr-2 text-left text-text-primary font-semibold whitespace-nowrap">{row.name}</th>
+                      {table.teams.map((column, c) => {
+                        if (r === c) return <td key={column.id} className="border border-border bg-gray-900" />;
+                        const entries = table.entries[r][c];
+                        return (
+                          <td key={column.id} className="border border-border p-0 text-center">
+                            <div className="flex">
+                              {entries.map(entry => (
+                                <button
+                                  key={entry.match.id}
+                                  onClick={() => onSelectMatch(entry.match.id)}
+                                  className={`flex-1 px-2 py-1 whitespace-nowrap ${OUTCOME_CLASSES[entry.outcome]}`}
+                                  title={entry.outcome === 'pending' ? 'Ir al partido' : `${entry.match.team1.name} vs ${entry.match.team2.name}`}
+                                >
+                                  {entry.label}
+                                </button>
+                              ))}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-center text-text-secondary py-8">Genera el calendario para ver la tabla de cruces.</p>
+      )}
+    </Card>
+  );
+};
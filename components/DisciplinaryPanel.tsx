@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { DisciplinaryCard, DisciplinaryIncident, Match, MatchUpdate, Player, Sanction, Team } from '../types';
+import { CARD_LABELS } from '../utils/disciplineUtils';
+import { TrashIcon } from './icons';
+import { todayIso } from '../utils/dateUtils';
+
+interface DisciplinaryPanelProps {
+  match: Match;
+  teams: Team[];
+  players: Player[];
+  sanctions: Sanction[];
+  onUpdateMatch: (matchId: string, newMatchData: MatchUpdate) => void;
+  onAddSanction: (sanctionData: Omit<Sanction, 'id'>) => void;
+}
+
+const CARD_COLORS: Record<DisciplinaryCard, string> = {
+  yellow: 'bg-yellow-400',
+  red: 'bg-red-600',
+};
+
+const inputClassName = "bg-gray-900 border border-border rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary";
+
+export const DisciplinaryPanel: React.FC<DisciplinaryPanelProps> = ({ match, teams, players, sanctions, onUpdateMatch, onAddSanction }) => {
+  const [playerKey, setPlayerKey] = useState(''); // `${teamId}:${playerId}`
+  const [card, setCard] = useState<DisciplinaryCard>('yellow');
+  const [set, setSet] = useState('');
+  const [minute, setMinute] = useState('');
+  const [description, setDescription] = useState('');
+
+  const incidents = match.disciplinary || [];
+  const rosters = [match.team1, match.team2].map(matchTeam => {
+    const team = teams.find(t => t.id === matchTeam.id) ?? matchTeam;
+    return { team, players: players.filter(p => team.playerIds.includes(p.id)) };
+  });
+  const getPlayerName = (id: string) => {
+    const player = players.find(p => p.id === id);
+    return player ? `${player.firstName} ${player.lastName}` : 'Jugador eliminado';
+  };
+
+  const handleAdd = () => {
+    if (!playerKey) return;
+    const [teamId, playerId] = playerKey.split(':');
+    const incident: DisciplinaryIncident = {
+      id: `incident-${Date.now()}`,
+      playerId,
+      teamId,
+      card,
+      ...(set && { set: parseInt(set, 10) }),
+      ...(minute && { minute: parseInt(minute, 10) }),
+      ...(description.trim() && { description: description.trim() }),
+    };
+    onUpdateMatch(match.id, { disciplinary: [...incidents, incident] });
+    setPlayerKey('');
+    setSet('');
+    setMinute('');
+    setDescription('');
+  };
+
+  const handleSanction = (incident: DisciplinaryIncident) => {
+    onAddSanction({
+      playerId: incident.playerId,
+      categoryId: match.categoryId,
+      reason: `Tarjeta ${CARD_LABELS[incident.card].toLowerCase()}${incident.description ? `: ${incident.description}` : ''}`,
+      startDate: match.date || todayIso(),
+      matches: 1,
+      matchId: match.id,
+    });
+  };
+
+  return (
+    <details className="mt-3 text-sm">
+      <summary className="cursor-pointer text-xs text-text-secondary">Disciplina ({incidents.length})</summary>
+      <div className="mt-2 space-y-2">
+        {incidents.length > 0 && (
+          <ul className="space-y-1">
+            {incidents.map(incident => {
+              const isSanctioned = sanctions.some(s => s.matchId === match.id && s.playerId === incident.playerId);
+              return (
+                <li key={incident.id} className="flex items-center justify-between gap-2 bg-gray-900 px-2 py-1 rounded-md">
+                  <span className="flex items-center gap-2 min-w-0">
+                    <span className={`w-3 h-4 rounded-sm flex-shrink-0 ${CARD_COLORS[incident.card]}`} title={CARD_LABELS[incident.card]} />
+                    <span className="truncate">
+                      {getPlayerName(incident.playerId)}
+                      <span className="text-text-secondary">
+                        {incident.set && ` · Set ${incident.set}`}{incident.minute !== undefined && ` · min. ${incident.minute}`}{incident.description && ` · ${incident.description}`}
+                      </span>
+                    </span>
+                  </span>
+                  <span className="flex items-center gap-1 flex-shrink-0">
+                    {incident.card === 'red' && (
+                      isSanctioned
+                        ? <span className="text-xs text-red-400">Sancionado</span>
+                        : <button onClick={() => handleSanction(incident)} className="text-xs text-red-400 hover:text-red-300" title="Suspender un partido">Sancionar</button>
+                    )}
+                    <button onClick={() => onUpdateMatch(match.id, { disciplinary: incidents.filter(i => i.id !== incident.id) })} className="p-1 rounded text-red-500 hover:bg-gray-700" aria-label="Quitar incidencia">
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <div className="grid grid-cols-2 gap-2">
+          <select value={playerKey} onChange={e => setPlayerKey(e.target.value)} className={`${inputClassName} col-span-2`}>
+            <option value="">Jugador...</option>
+            {rosters.map(({ team, players: roster }) => (
+              <optgroup key={team.id} label={team.name}>
+                {roster.map(p => <option key={p.id} value={`${team.id}:${p.id}`}>{p.firstName} {p.lastName}</option>)}
+              </optgroup>
+            ))}
+          </select>
+          <select value={card} onChange={e => setCard(e.target.value as DisciplinaryCard)} className={inputClassName}>
+            {(Object.keys(CARD_LABELS) as DisciplinaryCard[]).map(c => <option key={c} value={c}>Tarjeta {CARD_LABELS[c].toLowerCase()}</option>)}
+          </select>
+          <div className="flex gap-2">
+            <input type="number" min="1" value={set} onChange={e => setSet(e.target.value)} placeholder="Set" className={`${inputClassName} w-full`} />
+            <input type="number" min="0" value={minute} onChange={e => setMinute(e.target.value)} placeholder="Min." className={`${inputClassName} w-full`} />
+          </div>
+          <input type="text" value={description} onChange={e => setDescription(e.target.value)} placeholder="Descripción" className={`${inputClassName} col-span-2`} />
+        </div>
+        <button onClick={handleAdd} disabled={!playerKey} className="w-full bg-gray-600 text-text-primary font-semibold py-1.5 px-3 rounded-md hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+          Añadir tarjeta
+        </button>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { Sanction, Player, Team, Match, Category } from '../types';
+import { TrashIcon, PlusIcon, PdfIcon } from './icons';
+import { ConfirmationDialog } from './ConfirmationDialog';
+import { CARD_LABELS, countCards, countServedMatches, describeSanction, isSanctionServed } from '../utils/disciplineUtils';
+import { todayIso } from '../utils/dateUtils';
+
+// Make sure jspdf is globally available from the script tag
+declare const jspdf: any;
+
+interface DisciplineManagerProps {
+  sanctions: Sanction[];
+  players: Player[];
+  teams: Team[];
+  matches: Match[];
+  categories: Category[];
+  activeCategoryId: string | null;
+  onAddSanction: (sanctionData: Omit<Sanction, 'id'>) => void;
+  onDeleteSanction: (id: string) => void;
+}
+
+const initialFormState = { playerId: '', categoryId: '', reason: '', startDate: todayIso(), matches: '1', until: '' };
+
+const inputClassName = "bg-gray-900 border border-border rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary";
+
+export const DisciplineManager: React.FC<DisciplineManagerProps> = ({ sanctions, players, teams, matches, categories, activeCategoryId, onAddSanction, onDeleteSanction }) => {
+  const [formData, setFormData] = useState(initialFormState);
+  const [reportCategoryId, setReportCategoryId] = useState(activeCategoryId || '');
+  const [sanctionToDelete, setSanctionToDelete] = useState<Sanction | null>(null);
+
+  const matchCount = parseInt(formData.matches, 10);
+  const isFormValid = formData.playerId !== '' && formData.reason.trim() !== '' && formData.startDate !== ''
+    && ((matchCount > 0) || formData.until !== '') && (!formData.until || formData.until >= formData.startDate);
+
+  const getPlayerName = (id: string) => {
+    const player = players.find(p => p.id === id);
+    return player ? `${player.firstName} ${player.lastName}` : 'Jugador eliminado';
+  };
+  const getCategoryName = (id?: string) => (id ? categories.find(c => c.id === id)?.name ?? '' : 'Todas las categorías');
+  const getStatus = (sanction: Sanction) => {
+    const served = sanction.matches ? ` · ${Math.min(countServedMatches(sanction, matches, teams), sanction.matches)}/${sanction.matches} cumplidos` : '';
+    return isSanctionServed(sanction, matches, teams, todayIso()) ? `Cumplida${served}` : `En vigor${served}`;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isFormValid) return;
+    onAddSanction({
+      playerId: formData.playerId,
+      ...(formData.categoryId && { categoryId: formData.categoryId }),
+      reason: formData.reason.trim(),
+      startDate: formData.startDate,
+      ...(matchCount > 0 && { matches: matchCount }),
+      ...(formData.until && { until: formData.until }),
+    });
+    setFormData(initialFormState);
+  };
+
+  const handleConfirmDelete = () => {
+    if (sanctionToDelete) {
+      onDeleteSanction(sanctionToDelete.id);
+    }
+    setSanctionToDelete(null);
+  };
+
+  const handleExportReport = () => {
+    const category = categories.find(c => c.id === reportCategoryId);
+    if (!category || typeof jspdf === 'undefined') {
+      alert("Selecciona una categoría o la librería de exportación no está disponible.");
+      return;
+    }
+    const { jsPDF } = jspdf;
+    const doc = new jsPDF();
+    const headStyles = { fillColor: [209, 213, 219], textColor: [49, 49, 49], fontStyle: 'bold' };
+    doc.text(`Informe disciplinario - ${category.name}`, 14, 15);
+
+    const categoryMatches = matches.filter(m => m.categoryId === category.id);
+    const cardRows = categoryMatches
+      .flatMap(m => (m.disciplinary || []).map(incident => ({ match: m, incident })))
+      .sort((a, b) => a.match.date.localeCompare(b.match.date))
+      .map(({ match, incident }) => [
+        match.date ? new Date(match.date + 'T00:00:00').toLocaleDateString('es-ES') : '',
+        `${match.team1.name} vs ${match.team2.name}`,
+        getPlayerName(incident.playerId),
+        teams.find(t => t.id === incident.teamId)?.name ?? '',
+        CARD_LABELS[incident.card],
+        [incident.set && `Set ${incident.set}`, incident.minute !== undefined && `min. ${incident.minute}`].filter(Boolean).join(' '),
+        incident.description || '',
+      ]);
+    (doc as any).autoTable({
+      startY: 22,
+      head: [['Fecha', 'Partido', 'Jugador', 'Equipo', 'Tarjeta', 'Momento', 'Descripción']],
+      body: cardRows.length > 0 ? cardRows : [['Sin tarjetas', '', '', '', '', '', '']],
+      headStyles,
+    });
+
+    (doc as any).autoTable({
+      startY: (doc as any).lastAutoTable.finalY + 8,
+      head: [['Jugador', 'Amarillas', 'Rojas']],
+      body: countCards(categoryMatches).map(c => [getPlayerName(c.playerId), c.yellow, c.red]),
+      headStyles,
+    });
+
+    const categorySanctions = sanctions.filter(s => !s.categoryId || s.categoryId === category.id);
+    (doc as any).autoTable({
+      startY: (doc as any).lastAutoTable.finalY + 8,
+      head: [['Jugador', 'Motivo', 'Desde', 'Sanción', 'Estado']],
+      body: categorySanctions.length > 0
+        ? categorySanctions.map(s => [getPlayerName(s.playerId), s.reason, new Date(s.startDate + 'T00:00:00').toLocaleDateString('es-ES'), describeSanction(s), getStatus(s)])
+        : [['Sin sanciones', '', '', '', '']],
+      headStyles,
+    });
+
+    doc.save(`informe_disciplinario_${category.name.replace(/\s+/g, '_').toLowerCase()}.pdf`);
+  };
+
+  return (
+    <>
+    <ConfirmationDialog
+        isOpen={!!sanctionToDelete}
+        onClose={() => setSanctionToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        title="Confirmar Eliminación de Sanción"
+    >
+        <p>¿Estás seguro de que quieres eliminar la sanción de <strong>{sanctionToDelete && getPlayerName(sanctionToDelete.playerId)}</strong>?</p>
+    </ConfirmationDialog>
+
+    <div className="flex flex-col h-full">
+      <form onSubmit={handleSubmit} className="mb-4 border-b border-border pb-4 space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+            <select value={formData.playerId} onChange={e => setFormData(prev => ({ ...prev, playerId: e.target.value }))} className={inputClassName}>
+                <option value="">Jugador...</option>
+                {players.map(p => <option key={p.id} value={p.id}>{p.firstName} {p.lastName}</option>)}
+            </select>
+            <select value={formData.categoryId} onChange={e => setFormData(prev => ({ ...prev, categoryId: e.target.value }))} className={inputClassName}>
+                <option value="">Todas las categorías</option>
+                {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+        </div>
+        <input type="text" value={formData.reason} onChange={e => setFormData(prev => ({ ...prev, reason: e.target.value }))} placeholder="Motivo" className={`${inputClassName} w-full`} />
+        <div className="grid grid-cols-3 gap-2 text-sm">
+            <label className="flex flex-col gap-1 text-text-secondary">
+                Desde
+                <input type="date" value={formData.startDate} onChange={e => setFormData(prev => ({ ...prev, startDate: e.target.value }))} className={inputClassName} />
+            </label>
+            <label className="flex flex-col gap-1 text-text-secondary">
+                Partidos
+                <input type="number" min="0" value={formData.matches} onChange={e => setFormData(prev => ({ ...prev, matches: e.target.value }))} className={inputClassName} />
+            </label>
+            <label className="flex flex-col gap-1 text-text-secondary">
+                Hasta (opcional)
+                <input type="date" value={formData.until} onChange={e => setFormData(prev => ({ ...prev, until: e.target.value }))} className={inputClassName} />
+            </label>
+        </div>
+        <button
+            type="submit"
+            disabled={!isFormValid}
+            className="w-full flex items-center justify-center gap-2 bg-primary text-background font-bold py-2 px-4 rounded-md hover:bg-primary-dark disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+        >
+            Añadir Sanción
+            <PlusIcon className="w-4 h-4" />
+        </button>
+      </form>
+
+      <div className="flex gap-2 mb-4">
+        <select value={reportCategoryId} onChange={e => setReportCategoryId(e.target.value)} className={`${inputClassName} flex-grow`}>
+            <option value="">Categoría del informe...</option>
+            {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+        </select>
+        <button
+            onClick={handleExportReport}
+            disabled={!reportCategoryId}
+            className="flex items-center gap-2 bg-gray-600 text-text-primary font-semibold py-2 px-3 rounded-md hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title="Exportar informe disciplinario a PDF"
+        >
+            <PdfIcon className="w-5 h-5" />
+            Informe
+        </button>
+      </div>
+
+      <div className="flex-grow overflow-y-auto pr-2">
+        {sanctions.length > 0 ? (
+            <ul className="space-y-2">
+                {sanctions.map(sanction => {
+                    const isServed = isSanctionServed(sanction, matches, teams, todayIso());
+                    return (
+                        <li key={sanction.id} className={`flex justify-between items-start bg-background p-3 rounded-md border ${isServed ? 'border-border opacity-70' : 'border-red-700'}`}>
+                            <div>
+                                <p className="font-semibold text-text-primary">{getPlayerName(sanction.playerId)}</p>
+                                <p className="text-xs text-text-secondary mt-1">{sanction.reason} · {describeSanction(sanction)} · {getCategoryName(sanction.categoryId)}</p>
+                                <p className={`text-xs ${isServed ? 'text-text-secondary' : 'text-red-400 font-semibold'}`}>{getStatus(sanction)}</p>
+                            </div>
+                            <button
+                                onClick={() => setSanctionToDelete(sanction)}
+                                className="text-red-500 hover:text-red-400 p-1 rounded-full hover:bg-gray-700 transition-colors flex-shrink-0"
+                                aria-label={`Eliminar sanción de ${getPlayerName(sanction.playerId)}`}
+                            >
+                                <TrashIcon className="w-5 h-5" />
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+        ) : (
+            <p className="text-center text-text-secondary py-4">No hay sanciones registradas.</p>
+        )}
+      </div>
+    </div>
+    </>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Category, Player, Team } from '../types';
+import { PdfIcon } from './icons';
+import { describeEligibilityRules, describeEligibilityViolation, findEligibilityViolations } from '../utils/eligibilityUtils';
+import { todayIso } from '../utils/dateUtils';
+
+// Make sure jspdf is globally available from the script tag
+declare const jspdf: any;
+
+interface EligibilityReportProps {
+  categories: Category[];
+  teams: Team[];
+  players: Player[];
+}
+
+export const EligibilityReport: React.FC<EligibilityReportProps> = ({ categories, teams, players }) => {
+  const violations = findEligibilityViolations(categories, teams, players, todayIso());
+  if (!categories.some(c => c.eligibility)) return null;
+
+  const rows = violations.map(v => {
+    const category = categories.find(c => c.id === v.categoryId)!;
+    return {
+      category,
+      team: teams.find(t => t.id === v.teamId)?.name ?? '',
+      description: describeEligibilityViolation(v, category, players, todayIso()),
+    };
+  });
+
+  const handleExportToPdf = () => {
+    if (typeof jspdf === 'undefined') {
+      alert("La librería de exportación no está disponible.");
+      return;
+    }
+    const { jsPDF } = jspdf;
+    const doc = new jsPDF();
+    doc.text('Informe de elegibilidad', 14, 15);
+    (doc as any).autoTable({
+      startY: 22,
+      head: [['Categoría', 'Requisitos', 'Equipo', 'Incidencia', 'Efecto']],
+      body: rows.length > 0
+        ? rows.map(r => [r.category.name, describeEligibilityRules(r.category.eligibility!), r.team, r.description, r.category.eligibility!.enforcement === 'block' ? 'Bloquea' : 'Aviso'])
+        : [['Sin incidencias', '', '', '', '']],
+      headStyles: { fillColor: [209, 213, 219], textColor: [49, 49, 49], fontStyle: 'bold' },
+    });
+    doc.save(`informe_elegibilidad_${todayIso()}.pdf`);
+  };
+
+  return (
+    <details className="mb-4 bg-background border border-border rounded-md p-3 text-sm">
+      <summary className={`cursor-pointer font-semibold ${rows.length > 0 ? 'text-yellow-400' : 'text-text-secondary'}`}>
+        Elegibilidad: {rows.length > 0 ? `${rows.length} incidencias` : 'todo en regla'}
+      </summary>
+      <div className="mt-2 space-y-2">
+        {rows.length > 0 && (
+          <ul className="space-y-1 text-xs">
+            {rows.map((r, i) => (
+              <li key={i} className={r.category.eligibility!.enforcement === 'block' ? 'text-red-400' : 'text-yellow-400'}>
+                <span className="font-semibold">{r.category.name} · {r.team}:</span> {r.description}
+              </li>
+            ))}
+          </ul>
+        )}
+        <button
+          onClick={handleExportToPdf}
+          className="flex items-center gap-2 bg-gray-600 text-text-primary font-semibold py-1.5 px-3 rounded-md hover:bg-gray-500 transition-colors"
+          title="Exportar informe de elegibilidad a PDF"
+        >
+          <PdfIcon className="w-4 h-4" />
+          Informe
+        </button>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,83 @@
+import React from 'react';
+import { EligibilityRules, Gender } from '../types';
+import { ELIGIBILITY_PRESETS, GENDER_LABELS } from '../utils/eligibilityUtils';
+
+interface EligibilityRulesEditorProps {
+  rules?: EligibilityRules;
+  onChange: (rules: EligibilityRules | undefined) => void;
+}
+
+const inputClassName = "w-20 bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+const selectClassName = "bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+
+const parseOptionalNumber = (value: string): number | undefined => {
+  const number = parseInt(value, 10);
+  return isNaN(number) || number < 0 ? undefined : number;
+};
+
+export const EligibilityRulesEditor: React.FC<EligibilityRulesEditorProps> = ({ rules, onChange }) => {
+  const presetIndex = rules ? ELIGIBILITY_PRESETS.findIndex(p => p.rules.minAge === rules.minAge && p.rules.maxAge === rules.maxAge) : -1;
+
+  const update = (changes: Partial<EligibilityRules>) => onChange({ enforcement: 'warn', ...rules, ...changes });
+
+  return (
+    <div className="space-y-2 text-sm">
+        <label className="flex items-center justify-between gap-2">
+            <span className="text-text-secondary">Edad:</span>
+            <select
+                value={rules ? presetIndex : ''}
+                onChange={e => {
+                    if (e.target.value === '') return onChange(undefined);
+                    const preset = ELIGIBILITY_PRESETS[Number(e.target.value)];
+                    if (preset) update({ minAge: preset.rules.minAge, maxAge: preset.rules.maxAge });
+                }}
+                className={selectClassName}
+            >
+                <option value="">Sin restricciones</option>
+                {ELIGIBILITY_PRESETS.map((preset, index) => <option key={preset.name} value={index}>{preset.name}</option>)}
+                {rules && presetIndex === -1 && <option value={-1}>Personalizada</option>}
+            </select>
+        </label>
+        {rules && (
+            <div className="grid grid-cols-2 gap-2">
+                <label className="flex items-center justify-between gap-2">
+                    <span className="text-text-secondary">Edad mínima:</span>
+                    <input type="number" min={0} placeholder="-" value={rules.minAge ?? ''} onChange={e => update({ minAge: parseOptionalNumber(e.target.value) })} className={inputClassName} />
+                </label>
+                <label className="flex items-center justify-between gap-2">
+                    <span className="text-text-secondary">Edad máxima:</span>
+                    <input type="number" min={0} placeholder="-" value={rules.maxAge ?? ''} onChange={e => update({ maxAge: parseOptionalNumber(e.target.value) })} className={inputClassName} />
+                </label>
+                <label className="flex items-center justify-between gap-2 col-span-2">
+                    <span className="text-text-secondary">Fecha de corte:</span>
+                    <input
+                        type="date"
+                        value={rules.cutoffDate ?? ''}
+                        onChange={e => update({ cutoffDate: e.target.value || undefined })}
+                        className={selectClassName}
+                        title="Sin fecha, la edad se calcula al 31 de diciembre del año en curso"
+                    />
+                </label>
+                <label className="flex items-center justify-between gap-2">
+                    <span className="text-text-secondary">Sexo:</span>
+                    <select value={rules.gender ?? ''} onChange={e => update({ gender: (e.target.value || undefined) as Gender | undefined })} className={selectClassName}>
+                        <option value="">Mixta</option>
+                        {(Object.keys(GENDER_LABELS) as Gender[]).map(g => <option key={g} value={g}>{GENDER_LABELS[g]}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center justify-between gap-2">
+                    <span className="text-text-secondary">Máx. jugadores:</span>
+                    <input type="number" min={1} placeholder="-" value={rules.maxPlayersPerTeam ?? ''} onChange={e => update({ maxPlayersPerTeam: parseOptionalNumber(e.target.value) })} className={inputClassName} />
+                </label>
+                <label className="flex items-center justify-between gap-2 col-span-2">
+                    <span className="text-text-secondary">Si no se cumplen:</span>
+                    <select value={rules.enforcement} onChange={e => update({ enforcement: e.target.value as EligibilityRules['enforcement'] })} className={selectClassName}>
+                        <option value="warn">Avisar</option>
+                        <option value="block">Impedir la inscripción</option>
+                    </select>
+                </label>
+            </div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React, { useState, useEffect } from 'react';
+import { Team, GroupStage, GroupStagePayload } from '../types';
+import { ArrowUpIcon, ArrowDownIcon } from './icons';
+import { formatRating, sortByRating } from '../utils/ratingUtils';
+
+interface GroupStageSetupProps {
+  teams: Team[];
+  teamRatings?: Record<string, number>;
+  onGenerate: (payload: GroupStagePayload) => void;
+  onCancel: () => void;
+}
+
+const selectClassName = "bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+
+export const GroupStageSetup: React.FC<GroupStageSetupProps> = ({ teams, teamRatings, onGenerate, onCancel }) => {
+  const maxGroups = Math.max(Math.floor(teams.length / 2), 1);
+  const [groupCount, setGroupCount] = useState(Math.min(4, maxGroups));
+  const [seeding, setSeeding] = useState<GroupStage['seeding']>('snake');
+  const [twoLegged, setTwoLegged] = useState(false);
+  const [qualifiersPerGroup, setQualifiersPerGroup] = useState(2);
+  const [crossover, setCrossover] = useState<GroupStage['crossover']>('crossed');
+  const [orderedTeamIds, setOrderedTeamIds] = useState<string[]>(teams.map(t => t.id));
+
+  useEffect(() => {
+    setOrderedTeamIds(teams.map(t => t.id));
+  }, [teams]);
+
+  const smallestGroupSize = Math.floor(teams.length / groupCount);
+
+  const moveTeam = (index: number, direction: -1 | 1) => {
+    setOrderedTeamIds(prev => {
+      const next = [...prev];
+      const target = index + direction;
+      if (target < 0 || target >= next.length) return prev;
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleGenerate = () => {
+    onGenerate({
+      groupCount,
+      teamIds: orderedTeamIds,
+      seeding,
+      twoLegged,
+      qualifiersPerGroup: Math.min(qualifiersPerGroup, smallestGroupSize),
+      crossover,
+    });
+  };
+
+  return (
+    <div className="text-left space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+            <label className="flex items-center justify-between gap-2">
+                <span className="text-text-secondary">Número de grupos:</span>
+                <select value={groupCount} onChange={e => setGroupCount(Number(e.target.value))} className={selectClassName}>
+                    {Array.from({ length: maxGroups }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+                <span className="text-text-secondary">Reparto:</span>
+                <select value={seeding} onChange={e => setSeeding(e.target.value as GroupStage['seeding'])} className={selectClassName}>
+                    <option value="snake">Serpiente (por cabezas de serie)</option>
+                    <option value="random">Sorteo aleatorio</option>
+                </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+                <span className="text-text-secondary">Clasificados por grupo:</span>
+                <select value={qualifiersPerGroup} onChange={e => setQualifiersPerGroup(Number(e.target.value))} className={selectClassName}>
+                    {Array.from({ length: Math.max(smallestGroupSize, 1) }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+                <span className="text-text-secondary">Cruces:</span>
+                <select value={crossover} onChange={e => setCrossover(e.target.value as GroupStage['crossover'])} className={selectClassName}>
+                    <option value="crossed">Cruzados (1A vs 2B)</option>
+                    <option value="seeded">Por rendimiento</option>
+                </select>
+            </label>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+            <input
+                type="checkbox"
+                checked={twoLegged}
+                onChange={e => setTwoLegged(e.target.checked)}
+                className="form-checkbox h-4 w-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary"
+            />
+            Ida y vuelta dentro de cada grupo
+        </label>
+        {seeding === 'snake' && (
+            <div>
+                <div className="flex items-center justify-between mb-1">
+                    <p className="text-sm text-text-secondary">Orden de cabezas de serie:</p>
+                    {teamRatings && (
+                        <button onClick={() => setOrderedTeamIds(prev => sortByRating(prev, teamRatings))} className="text-xs text-text-secondary hover:text-primary">
+                            Ordenar por rating
+                        </button>
+                    )}
+                </div>
+                <ol className="space-y-1 max-h-48 overflow-y-auto pr-2">
+                    {orderedTeamIds.map((teamId, index) => {
+                        const team = teams.find(t => t.id === teamId);
+                        if (!team) return null;
+                        return (
+                            <li key={teamId} className="flex items-center justify-between bg-background px-3 py-1 rounded-md text-sm text-text-primary">
+                                <span>
+                                    <span className="font-bold text-primary mr-2">{index + 1}</span>{team.name}
+                                    {teamRatings?.[teamId] !== undefined && <span className="text-xs text-text-secondary ml-2">{formatRating(teamRatings[teamId])}</span>}
+                                </span>
+                                <span className="flex gap-1">
+                                    <button onClick={() => moveTeam(index, -1)} disabled={index === 0} className="p-1 rounded hover:bg-gray-700 disabled:opacity-30" aria-label={`Subir ${team.name}`}>
+                                        <ArrowUpIcon className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={() => moveTeam(index, 1)} disabled={index === orderedTeamIds.length - 1} className="p-1 rounded hover:bg-gray-700 disabled:opacity-30" aria-label={`Bajar ${team.name}`}>
+                                        <ArrowDownIcon className="w-4 h-4" />
+                                    </button>
+                                </span>
+                            </li>
+                        );
+                    })}
+                </ol>
+            </div>
+        )}
+        <div className="flex gap-2">
+            <button
+                onClick={handleGenerate}
+                disabled={teams.length < 2}
+                className="w-full bg-primary text-background font-bold py-2 px-4 rounded-md hover:bg-primary-dark disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+                Generar Fase de Grupos
+            </button>
+            <button onClick={onCancel} className="bg-gray-600 text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-500 transition-colors">
+                Cancelar
+            </button>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,332 @@
+import React, { useState } from 'react';
+import { Category, Charge, ChargeKind, Club, Match, Payment, PaymentMethod, Team } from '../types';
+import { Card } from './Card';
+import { ClubBadge } from './ClubBadge';
+import { BanknotesIcon, ExportIcon, PdfIcon, TrashIcon } from './icons';
+import { CHARGE_KIND_LABELS, LedgerEntry, PAYMENT_METHOD_LABELS, formatAmount, getNextReceiptNumber, getTeamBalance, getTeamLedger, isReceiptNumberTaken } from '../utils/ledgerUtils';
+import { todayIso } from '../utils/dateUtils';
+
+// Make sure jspdf and XLSX are globally available from the script tags
+declare const jspdf: any;
+declare const XLSX: any;
+
+interface LedgerViewProps {
+  teams: Team[];
+  categories: Category[];
+  matches: Match[];
+  clubs: Club[];
+  charges: Charge[];
+  payments: Payment[];
+  onAddCharge: (chargeData: Omit<Charge, 'id'>) => void;
+  onDeleteCharge: (id: string) => void;
+  onAddPayment: (paymentData: Omit<Payment, 'id'>) => void;
+  onDeletePayment: (id: string) => void;
+  isMaximized?: boolean;
+  onToggleMaximize?: () => void;
+}
+
+const formatDate = (date: string) => date ? new Date(date + 'T00:00:00').toLocaleDateString('es-ES') : 'Sin fecha';
+
+// A team of the ledger: a current one or one deleted with movements on record
+interface LedgerTeam {
+  id: string;
+  name: string;
+  clubId?: string;
+  isDeleted?: boolean;
+}
+
+const inputClassName = "bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+
+export const LedgerView: React.FC<LedgerViewProps> = ({ teams, categories, matches, clubs, charges, payments, onAddCharge, onDeleteCharge, onAddPayment, onDeletePayment, isMaximized, onToggleMaximize }) => {
+  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
+  const [payment, setPayment] = useState({ amount: '', method: 'cash' as PaymentMethod, receiptNumber: '', date: todayIso(), note: '' });
+  const [charge, setCharge] = useState({ amount: '', kind: 'fine' as ChargeKind, description: '', matchId: '' });
+
+  const deletedTeams = new Map<string, LedgerTeam>();
+  [...charges, ...payments].forEach(entry => {
+    if (!teams.some(t => t.id === entry.teamId)) {
+      deletedTeams.set(entry.teamId, { id: entry.teamId, name: entry.teamName || 'Equipo eliminado', isDeleted: true });
+    }
+  });
+  const ledgerTeams: LedgerTeam[] = [...teams, ...deletedTeams.values()];
+
+  const balances = ledgerTeams
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(team => ({ team, ...getTeamBalance(team.id, charges, payments) }));
+  const totals = balances.reduce((acc, b) => ({ charged: acc.charged + b.charged, paid: acc.paid + b.paid }), { charged: 0, paid: 0 });
+
+  const selectedTeam = ledgerTeams.find(t => t.id === selectedTeamId);
+  const ledger = selectedTeam ? getTeamLedger(selectedTeam.id, charges, payments) : [];
+  const teamMatches = selectedTeam ? matches.filter(m => m.team1.id === selectedTeam.id || m.team2.id === selectedTeam.id) : [];
+  const receiptNumber = payment.receiptNumber || getNextReceiptNumber(payments);
+
+  const paymentAmount = parseFloat(payment.amount);
+  const chargeAmount = parseFloat(charge.amount);
+  const isReceiptTaken = isReceiptNumberTaken(receiptNumber, payments);
+  const isPaymentValid = paymentAmount > 0 && !!payment.date && !!receiptNumber.trim() && !isReceiptTaken;
+  const isChargeValid = chargeAmount > 0 && charge.description.trim() !== '';
+
+  const getCategoryName = (categoryId?: string) => categories.find(c => c.id === categoryId)?.name ?? '';
+  const getMatchLabel = (match: Match) => `${formatDate(match.date)} · ${match.team1.name} vs ${match.team2.name}`;
+  const describeEntry = (entry: LedgerEntry) => entry.type === 'charge'
+    ? `${CHARGE_KIND_LABELS[entry.charge.kind]}: ${entry.charge.description}`
+    : `Pago ${entry.payment.receiptNumber} (${PAYMENT_METHOD_LABELS[entry.payment.method]})${entry.payment.note ? ` · ${entry.payment.note}` : ''}`;
+
+  const handleAddPayment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedTeam || !isPaymentValid) return;
+    onAddPayment({
+      teamId: selectedTeam.id,
+      amount: paymentAmount,
+      method: payment.method,
+      receiptNumber: receiptNumber.trim(),
+      date: payment.date,
+      ...(payment.note.trim() && { note: payment.note.trim() }),
+    });
+    setPayment({ amount: '', method: payment.method, receiptNumber: '', date: todayIso(), note: '' });
+  };
+
+  const handleAddCharge = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedTeam || !isChargeValid) return;
+    const match = matches.find(m => m.id === charge.matchId);
+    onAddCharge({
+      teamId: selectedTeam.id,
+      kind: charge.kind,
+      amount: chargeAmount,
+      description: charge.description.trim(),
+      date: todayIso(),
+      ...(match && { matchId: match.id, categoryId: match.categoryId }),
+    });
+    setCharge({ amount: '', kind: charge.kind, description: '', matchId: '' });
+  };
+
+  const handlePrintReceipt = (entry: Extract<LedgerEntry, { type: 'payment' }>) => {
+    if (typeof jspdf === 'undefined') {
+      alert("La librería de exportación no está disponible.");
+      return;
+    }
+    const { payment: receipt } = entry;
+    const team = ledgerTeams.find(t => t.id === receipt.teamId);
+    const club = clubs.find(c => c.id === team?.clubId);
+    const { jsPDF } = jspdf;
+    const doc = new jsPDF();
+    doc.setFontSize(18);
+    doc.text(`Recibo ${receipt.receiptNumber}`, 14, 20);
+    doc.setFontSize(11);
+    (doc as any).autoTable({
+      startY: 28,
+      body: [
+        ['Fecha', formatDate(receipt.date)],
+        ['Recibido de', club ? `${team?.name ?? ''} (${club.name})` : team?.name ?? ''],
+        ['Importe', formatAmount(receipt.amount)],
+        ['Forma de pago', PAYMENT_METHOD_LABELS[receipt.method]],
+        ...(receipt.note ? [['Concepto', receipt.note]] : []),
+        ['Saldo pendiente tras este pago', formatAmount(Math.max(0, entry.balance))],
+      ],
+      theme: 'grid',
+      columnStyles: { 0: { fontStyle: 'bold', cellWidth: 70 } },
+    });
+    const finalY = (doc as any).lastAutoTable.finalY;
+    doc.line(120, finalY + 30, 190, finalY + 30);
+    doc.text('Firma y sello', 155, finalY + 36, { align: 'center' });
+    doc.save(`recibo_${receipt.receiptNumber}.pdf`);
+  };
+
+  const handleExportToXlsx = () => {
+    const teamName = (teamId: string) => ledgerTeams.find(t => t.id === teamId)?.name ?? '';
+    const movements = [
+      ...charges.map(c => ({
+        'Fecha': c.date,
+        'Equipo': teamName(c.teamId),
+        'Categoría': getCategoryName(c.categoryId),
+        'Concepto': `${CHARGE_KIND_LABELS[c.kind]}: ${c.description}`,
+        'Cargo': c.amount,
+        'Pago': '',
+        'Forma de pago': '',
+        'Recibo': '',
+      })),
+      ...payments.map(p => ({
+        'Fecha': p.date,
+        'Equipo': teamName(p.teamId),
+        'Categoría': '',
+        'Concepto': p.note || 'Pago',
+        'Cargo': '',
+        'Pago': p.amount,
+        'Forma de pago': PAYMENT_METHOD_LABELS[p.method],
+        'Recibo': p.receiptNumber,
+      })),
+    ].sort((a, b) => a['Fecha'].localeCompare(b['Fecha']));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(movements), "Movimientos");
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(balances.map(b => ({
+      'Equipo': b.team.name,
+      'Cargos': b.charged,
+      'Pagado': b.paid,
+      'Saldo': b.balance,
+    }))), "Saldos");
+    XLSX.writeFile(workbook, `cuentas_${todayIso()}.xlsx`);
+  };
+
+  const headerActions = (
+    <button
+        onClick={handleExportToXlsx}
+        disabled={charges.length === 0 && payments.length === 0}
+        className="text-text-secondary hover:text-primary p-1 rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-label="Exportar libro de cuentas a Excel"
+        title="Exportar a Excel"
+    >
+        <ExportIcon className="w-5 h-5" />
+    </button>
+  );
+
+  return (
+    <Card
+        title="Cuentas"
+        icon={<BanknotesIcon />}
+        headerActions={headerActions}
+        isMaximized={isMaximized}
+        onToggleMaximize={onToggleMaximize}
+    >
+      <div className="space-y-4 text-sm">
+        <div className="grid grid-cols-3 gap-2 text-center">
+          {[
+            { label: 'Cargado', value: totals.charged, className: 'text-text-primary' },
+            { label: 'Cobrado', value: totals.paid, className: 'text-green-400' },
+            { label: 'Pendiente', value: totals.charged - totals.paid, className: totals.charged > totals.paid ? 'text-red-400' : 'text-text-primary' },
+          ].map(tile => (
+            <div key={tile.label} className="bg-background border border-border rounded-md p-2">
+              <p className="text-xs text-text-secondary uppercase">{tile.label}</p>
+              <p className={`text-lg font-bold tabular-nums ${tile.className}`}>{formatAmount(tile.value)}</p>
+            </div>
+          ))}
+        </div>
+
+        {balances.length > 0 ? (
+          <table className="w-full text-left">
+            <thead className="border-b border-border text-text-secondary uppercase">
+              <tr>
+                <th className="py-2 px-3">Equipo</th>
+                <th className="py-2 px-3 text-right">Cargos</th>
+                <th className="py-2 px-3 text-right">Pagado</th>
+                <th className="py-2 px-3 text-right">Saldo</th>
+              </tr>
+            </thead>
+            <tbody>
+              {balances.map(b => (
+                <tr
+                  key={b.team.id}
+                  onClick={() => setSelectedTeamId(b.team.id === selectedTeamId ? null : b.team.id)}
+                  className={`border-b border-border cursor-pointer hover:bg-gray-800 ${b.team.id === selectedTeamId ? 'bg-gray-800' : ''}`}
+                >
+                  <td className="py-2 px-3 font-medium text-text-primary"><div className="flex items-center gap-2"><ClubBadge club={clubs.find(c => c.id === b.team.clubId)} />{b.team.name}{b.team.isDeleted && <span className="text-xs text-text-secondary font-normal">(eliminado)</span>}</div></td>
+                  <td className="py-2 px-3 text-right tabular-nums">{formatAmount(b.charged)}</td>
+                  <td className="py-2 px-3 text-right tabular-nums">{formatAmount(b.paid)}</td>
+                  <td className={`py-2 px-3 text-right font-bold tabular-nums ${b.balance > 0 ? 'text-red-400' : b.balance < 0 ? 'text-green-400' : 'text-text-primary'}`}>{formatAmount(b.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-center text-text-secondary py-8">Añade equipos para llevar sus cuentas.</p>
+        )}
+
+        {selectedTeam && (
+          <div className="bg-background border border-border rounded-md p-3 space-y-3">
+            <h3 className="font-bold text-primary">{selectedTeam.name}</h3>
+            {selectedTeam.isDeleted ? (
+              <p className="text-xs text-text-secondary">Equipo eliminado: se conservan sus movimientos y recibos.</p>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+                <form onSubmit={handleAddPayment} className="space-y-2">
+                  <p className="font-semibold text-text-secondary">Registrar pago</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <input type="number" min={0} step="0.01" value={payment.amount} onChange={e => setPayment(prev => ({ ...prev, amount: e.target.value }))} placeholder="Importe" className={inputClassName} />
+                    <select value={payment.method} onChange={e => setPayment(prev => ({ ...prev, method: e.target.value as PaymentMethod }))} className={inputClassName}>
+                      {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>)}
+                    </select>
+                    <input type="text" value={payment.receiptNumber} onChange={e => setPayment(prev => ({ ...prev, receiptNumber: e.target.value }))} placeholder={receiptNumber} className={inputClassName} title="Nº de recibo" />
+                    <input type="date" value={payment.date} onChange={e => setPayment(prev => ({ ...prev, date: e.target.value }))} className={inputClassName} />
+                    <input type="text" value={payment.note} onChange={e => setPayment(prev => ({ ...prev, note: e.target.value }))} placeholder="Concepto (opcional)" className={`${inputClassName} col-span-2`} />
+                  </div>
+                  {isReceiptTaken && <p className="text-xs text-red-400">El recibo {receiptNumber} ya está registrado.</p>}
+                  <button type="submit" disabled={!isPaymentValid} className="w-full bg-primary text-background font-semibold py-1.5 px-3 rounded-md hover:bg-primary-dark disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors">
+                    Registrar pago
+                  </button>
+                </form>
+                <form onSubmit={handleAddCharge} className="space-y-2">
+                  <p className="font-semibold text-text-secondary">Añadir multa o cargo</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <input type="number" min={0} step="0.01" value={charge.amount} onChange={e => setCharge(prev => ({ ...prev, amount: e.target.value }))} placeholder="Importe" className={inputClassName} />
+                    <select value={charge.kind} onChange={e => setCharge(prev => ({ ...prev, kind: e.target.value as ChargeKind }))} className={inputClassName}>
+                      {(['fine', 'other'] as ChargeKind[]).map(k => <option key={k} value={k}>{CHARGE_KIND_LABELS[k]}</option>)}
+                    </select>
+                    <input type="text" value={charge.description} onChange={e => setCharge(prev => ({ ...prev, description: e.target.value }))} placeholder="Motivo" className={`${inputClassName} col-span-2`} />
+                    <select value={charge.matchId} onChange={e => setCharge(prev => ({ ...prev, matchId: e.target.value }))} className={`${inputClassName} col-span-2`}>
+                      <option value="">Sin partido</option>
+                      {teamMatches.map(m => <option key={m.id} value={m.id}>{getMatchLabel(m)}</option>)}
+                    </select>
+                  </div>
+                  <button type="submit" disabled={!isChargeValid} className="w-full bg-gray-600 text-text-primary font-semibold py-1.5 px-3 rounded-md hover:bg-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+                    Añadir cargo
+                  </button>
+                </form>
+              </div>
+            )}
+
+            {ledger.length > 0 ? (
+              <table className="w-full text-left text-xs">
+                <thead className="border-b border-border text-text-secondary uppercase">
+                  <tr>
+                    <th className="py-1 px-2">Fecha</th>
+                    <th className="py-1 px-2">Concepto</th>
+                    <th className="py-1 px-2 text-right">Cargo</th>
+                    <th className="py-1 px-2 text-right">Pago</th>
+                    <th className="py-1 px-2 text-right">Saldo</th>
+                    <th className="py-1 px-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {ledger.map(entry => {
+                    const match = entry.type === 'charge' && matches.find(m => m.id === entry.charge.matchId);
+                    return (
+                      <tr key={entry.type === 'charge' ? entry.charge.id : entry.payment.id} className="border-b border-border">
+                        <td className="py-1 px-2 whitespace-nowrap">{formatDate(entry.date)}</td>
+                        <td className="py-1 px-2">
+                          {describeEntry(entry)}
+                          {match && <span className="block text-text-secondary">{getMatchLabel(match)}</span>}
+                        </td>
+                        <td className="py-1 px-2 text-right tabular-nums">{entry.type === 'charge' && formatAmount(entry.charge.amount)}</td>
+                        <td className="py-1 px-2 text-right tabular-nums text-green-400">{entry.type === 'payment' && formatAmount(entry.payment.amount)}</td>
+                        <td className="py-1 px-2 text-right tabular-nums">{formatAmount(entry.balance)}</td>
+                        <td className="py-1 px-2">
+                          <div className="flex items-center justify-end gap-1">
+                            {entry.type === 'payment' && (
+                              <button onClick={() => handlePrintReceipt(entry)} className="text-text-secondary hover:text-primary p-1" aria-label={`Imprimir recibo ${entry.payment.receiptNumber}`} title="Recibo en PDF">
+                                <PdfIcon className="w-4 h-4" />
+                              </button>
+                            )}
+                            <button
+                              onClick={() => entry.type === 'charge' ? onDeleteCharge(entry.charge.id) : onDeletePayment(entry.payment.id)}
+                              className="text-red-500 hover:text-red-400 p-1"
+                              aria-label="Eliminar movimiento"
+                              title="Eliminar"
+                            >
+                              <TrashIcon className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-center text-text-secondary py-4">Sin movimientos.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useRef, useState } from 'react';
+import { LicenceDocumentKind, LicenceStatus, PlayerLicence } from '../types';
+import { TrashIcon } from './icons';
+import { DOCUMENT_KIND_LABELS, LICENCE_STATUS_LABELS, MAX_DOCUMENT_SIZE_KB, createEmptyLicence } from '../utils/licenceUtils';
+
+interface LicenceEditorProps {
+  licence?: PlayerLicence;
+  onChange: (licence: PlayerLicence | undefined) => void;
+}
+
+const inputClassName = "bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+
+export const LicenceEditor: React.FC<LicenceEditorProps> = ({ licence, onChange }) => {
+  const [documentKind, setDocumentKind] = useState<LicenceDocumentKind>('medical');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  if (!licence) {
+    return (
+      <button type="button" onClick={() => onChange(createEmptyLicence())} className="text-sm text-primary hover:underline">
+        + Añadir licencia
+      </button>
+    );
+  }
+
+  const update = (changes: Partial<PlayerLicence>) => onChange({ ...licence, ...changes });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (file.size > MAX_DOCUMENT_SIZE_KB * 1024) {
+      alert(`"${file.name}" ocupa ${Math.ceil(file.size / 1024)} KB y el máximo es ${MAX_DOCUMENT_SIZE_KB} KB. Reduce la resolución del escaneo o guarda el documento fuera de la aplicación.`);
+      e.target.value = '';
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      update({
+        documents: [...licence.documents, {
+          id: `doc-${Date.now()}`,
+          kind: documentKind,
+          name: file.name,
+          dataUrl: event.target?.result as string,
+          uploadedAt: new Date().toISOString(),
+        }],
+      });
+    };
+    reader.readAsDataURL(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+        <div className="grid grid-cols-2 gap-2">
+            <input type="text" value={licence.number} onChange={e => update({ number: e.target.value })} placeholder="Nº de licencia" className={inputClassName} />
+            <input type="text" value={licence.season} onChange={e => update({ season: e.target.value })} placeholder="Temporada (p. ej. 2025-2026)" className={inputClassName} />
+            <label className="flex items-center justify-between gap-2">
+                <span className="text-text-secondary">Estado:</span>
+                <select value={licence.status} onChange={e => update({ status: e.target.value as LicenceStatus })} className={inputClassName}>
+                    {(Object.keys(LICENCE_STATUS_LABELS) as LicenceStatus[]).map(s => <option key={s} value={s}>{LICENCE_STATUS_LABELS[s]}</option>)}
+                </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+                <span className="text-text-secondary">Caduca:</span>
+                <input type="date" value={licence.expiresOn ?? ''} onChange={e => update({ expiresOn: e.target.value || undefined })} className={inputClassName} />
+            </label>
+            <label className="flex items-center justify-between gap-2">
+                <span className="text-text-secondary">Cert. médico hasta:</span>
+                <input type="date" value={licence.medicalExpiresOn ?? ''} onChange={e => update({ medicalExpiresOn: e.target.value || undefined })} className={inputClassName} />
+            </label>
+            <label className="flex items-center gap-2 text-text-secondary cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={licence.waiverSigned}
+                    onChange={e => update({ waiverSigned: e.target.checked })}
+                    className="form-checkbox h-4 w-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary"
+                />
+                Descargo firmado
+            </label>
+        </div>
+        <div>
+            {licence.documents.length > 0 && (
+                <ul className="space-y-1 mb-2">
+                    {licence.documents.map(doc => (
+                        <li key={doc.id} className="flex items-center justify-between gap-2 bg-gray-900 rounded-md px-2 py-1">
+                            <a href={doc.dataUrl} download={doc.name} className="truncate text-primary hover:underline">
+                                {DOCUMENT_KIND_LABELS[doc.kind]}: {doc.name}
+                            </a>
+                            <button
+                                type="button"
+                                onClick={() => update({ documents: licence.documents.filter(d => d.id !== doc.id) })}
+                                className="text-red-500 hover:text-red-400 flex-shrink-0"
+                                aria-label={`Quitar ${doc.name}`}
+                            >
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className="flex items-center gap-2">
+                <select value={documentKind} onChange={e => setDocumentKind(e.target.value as LicenceDocumentKind)} className={inputClassName}>
+                    {(Object.keys(DOCUMENT_KIND_LABELS) as LicenceDocumentKind[]).map(k => <option key={k} value={k}>{DOCUMENT_KIND_LABELS[k]}</option>)}
+                </select>
+                <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/*,application/pdf" className="hidden" />
+                <button type="button" onClick={() => fileInputRef.current?.click()} className="text-primary hover:underline" title={`Máximo ${MAX_DOCUMENT_SIZE_KB} KB`}>
+                    Adjuntar documento
+                </button>
+                <button type="button" onClick={() => onChange(undefined)} className="ml-auto text-text-secondary hover:text-red-400">
+                    Quitar licencia
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Player } from '../types';
+import { PdfIcon } from './icons';
+import { EXPIRY_WARNING_DAYS, ExpiringItem, describeLicenceIssues, getRenewalReport } from '../utils/licenceUtils';
+import { todayIso } from '../utils/dateUtils';
+
+// Make sure jspdf is globally available from the script tag
+declare const jspdf: any;
+
+interface LicenceReportProps {
+  players: Player[];
+}
+
+const formatDate = (date?: string) => date ? new Date(date + 'T00:00:00').toLocaleDateString('es-ES') : '-';
+
+const describeExpiring = (item: ExpiringItem) =>
+  `${item.kind === 'licence' ? 'licencia' : 'certificado médico'} caduca el ${formatDate(item.expiresOn)}`;
+
+export const LicenceReport: React.FC<LicenceReportProps> = ({ players }) => {
+  if (!players.some(p => p.licence)) return null;
+  const entries = getRenewalReport(players, todayIso());
+  const describe = (entry: typeof entries[number]) =>
+    [describeLicenceIssues(entry.issues), ...entry.expiring.map(describeExpiring)].filter(Boolean).join('; ');
+
+  const handleExportToPdf = () => {
+    if (typeof jspdf === 'undefined') {
+      alert("La librería de exportación no está disponible.");
+      return;
+    }
+    const { jsPDF } = jspdf;
+    const doc = new jsPDF();
+    doc.text('Informe de renovaciones de licencias', 14, 15);
+    (doc as any).autoTable({
+      startY: 22,
+      head: [['Jugador', 'C.I.', 'Licencia', 'Temporada', 'Caduca', 'Cert. médico', 'Pendiente']],
+      body: entries.length > 0
+        ? entries.map(entry => {
+            const { player } = entry;
+            return [
+              `${player.firstName} ${player.lastName}`,
+              player.idCard,
+              player.licence?.number || '-',
+              player.licence?.season || '-',
+              formatDate(player.licence?.expiresOn),
+              formatDate(player.licence?.medicalExpiresOn),
+              describe(entry),
+            ];
+          })
+        : [['Sin renovaciones pendientes', '', '', '', '', '', '']],
+      headStyles: { fillColor: [209, 213, 219], textColor: [49, 49, 49], fontStyle: 'bold' },
+    });
+    doc.save(`informe_renovaciones_${todayIso()}.pdf`);
+  };
+
+  return (
+    <details className="mb-2 bg-background border border-border rounded-md p-3 text-sm">
+      <summary className={`cursor-pointer font-semibold ${entries.length > 0 ? 'text-yellow-400' : 'text-text-secondary'}`}>
+        Licencias: {entries.length > 0 ? `${entries.length} por renovar o completar` : 'todo en regla'}
+      </summary>
+      <div className="mt-2 space-y-2">
+        <p className="text-xs text-text-secondary">Incluye lo que caduca en los próximos {EXPIRY_WARNING_DAYS} días.</p>
+        {entries.length > 0 && (
+          <ul className="space-y-1 text-xs">
+            {entries.map(entry => (
+              <li key={entry.player.id} className={entry.issues.length > 0 ? 'text-red-400' : 'text-yellow-400'}>
+                <span className="font-semibold">{entry.player.firstName} {entry.player.lastName}:</span> {describe(entry)}
+              </li>
+            ))}
+          </ul>
+        )}
+        <button
+          onClick={handleExportToPdf}
+          className="flex items-center gap-2 bg-gray-600 text-text-primary font-semibold py-1.5 px-3 rounded-md hover:bg-gray-500 transition-colors"
+          title="Exportar informe de renovaciones a PDF"
+        >
+          <PdfIcon className="w-4 h-4" />
+          Informe
+        </button>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,126 @@
+import React from 'react';
+import { Match, MatchUpdate, ScoringRules } from '../types';
+import { addRallyPoint, replayRallies, undoRallyPoint, Side } from '../utils/liveScoringUtils';
+import { getMatchResult, getSetTarget } from '../utils/scoringUtils';
+
+interface LiveScoringConsoleProps {
+  match: Match;
+  rules: ScoringRules;
+  onUpdateMatch: (matchId: string, newMatchData: MatchUpdate) => void;
+  onClose: () => void;
+}
+
+export const LiveScoringConsole: React.FC<LiveScoringConsoleProps> = ({ match, rules, onUpdateMatch, onClose }) => {
+  const rallies = match.rallies || [];
+  const firstServer = match.firstServer;
+  const live = firstServer ? replayRallies(rallies, rules, firstServer) : null;
+
+  // Every point goes through the regular match update, which closes the match once the sets decide it
+  const saveRallies = (newRallies: typeof rallies, first: Side) => {
+    const { sets } = replayRallies(newRallies, rules, first);
+    onUpdateMatch(match.id, { sets, rallies: newRallies });
+  };
+
+  const handlePoint = (side: Side) => {
+    if (!firstServer) return;
+    saveRallies(addRallyPoint(rallies, side, rules, firstServer), firstServer);
+  };
+
+  const handleUndo = () => {
+    if (!firstServer || rallies.length === 0) return;
+    saveRallies(undoRallyPoint(rallies), firstServer);
+  };
+
+  const setsWon = live ? getMatchResult(live.sets, rules) : { team1: 0, team2: 0 };
+  const hasTypedScore = rallies.length === 0 && match.sets.some(set => set.team1 !== null || set.team2 !== null);
+
+  const renderSide = (side: Side) => {
+    const team = match[side];
+    const isServing = live !== null && !live.winner && live.server === side;
+    return (
+      <div className="flex-1 flex flex-col items-center gap-4">
+        <div className="flex items-center gap-3">
+          <span className={`w-4 h-4 rounded-full ${isServing ? 'bg-yellow-400' : 'bg-transparent'}`} title={isServing ? 'Saca' : undefined} />
+          <h3 className="text-2xl md:text-4xl font-bold text-text-primary text-center">{team.name}</h3>
+        </div>
+        <p className="text-text-secondary">Sets: <span className="font-bold text-text-primary">{setsWon[side]}</span></p>
+        <p className="text-8xl md:text-9xl font-extrabold text-primary tabular-nums">{live ? live.sets[live.currentSet][side] : 0}</p>
+        <button
+          onClick={() => handlePoint(side)}
+          disabled={!live || !!live.winner}
+          className="w-full max-w-xs py-8 text-4xl font-bold rounded-xl bg-primary text-background hover:bg-primary-dark disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+        >
+          +1
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-background z-50 flex flex-col p-4 md:p-8" role="dialog" aria-modal="true">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-bold text-text-primary">Marcador en directo</h2>
+        <button onClick={onClose} className="bg-gray-600 text-text-primary font-semibold py-2 px-4 rounded-md hover:bg-gray-500 transition-colors">
+          Cerrar
+        </button>
+      </div>
+
+      {!firstServer ? (
+        <div className="flex-grow flex flex-col items-center justify-center gap-6">
+          <p className="text-xl text-text-secondary">¿Quién saca primero?</p>
+          <div className="flex gap-4">
+            {(['team1', 'team2'] as Side[]).map(side => (
+              <button
+                key={side}
+                onClick={() => onUpdateMatch(match.id, { firstServer: side })}
+                className="py-6 px-8 text-2xl font-bold rounded-xl bg-surface border border-border text-text-primary hover:border-primary transition-colors"
+              >
+                {match[side].name}
+              </button>
+            ))}
+          </div>
+          {hasTypedScore && <p className="text-sm text-yellow-400">El resultado introducido a mano se sustituirá por el del marcador.</p>}
+        </div>
+      ) : live && (
+        <>
+          <p className="text-center text-text-secondary mb-4">
+            {live.winner
+              ? <span className="text-2xl font-bold text-primary">Partido finalizado · Gana {match[live.winner].name}</span>
+              : `Set ${live.currentSet + 1} · a ${getSetTarget(rules, live.currentSet)} puntos`}
+          </p>
+          <div className="flex-grow flex flex-col md:flex-row items-center justify-center gap-8">
+            {renderSide('team1')}
+            <div className="text-4xl font-bold text-text-secondary">-</div>
+            {renderSide('team2')}
+          </div>
+
+          <div className="mt-6 flex flex-wrap items-center justify-between gap-4">
+            <div className="flex gap-2 text-sm text-text-secondary">
+              {live.sets.slice(0, live.currentSet + 1).map((set, i) => (
+                <span key={i} className={`px-2 py-1 rounded bg-surface ${i === live.currentSet && !live.winner ? 'border border-primary' : ''}`}>
+                  Set {i + 1}: {set.team1} - {set.team2}
+                </span>
+              ))}
+            </div>
+            <button
+              onClick={handleUndo}
+              disabled={rallies.length === 0}
+              className="bg-yellow-600 text-white font-semibold py-3 px-6 rounded-md hover:bg-yellow-500 disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors"
+            >
+              Deshacer último punto
+            </button>
+          </div>
+
+          {/* Most recent rallies of the set being played, newest first */}
+          <div className="mt-4 flex gap-1 overflow-x-auto text-xs">
+            {[...live.ralliesBySet[live.currentSet]].reverse().slice(0, 30).map((rally, i) => (
+              <span key={rally.at + i} className={`px-2 py-1 rounded ${rally.winner === 'team1' ? 'bg-blue-700' : 'bg-red-700'} text-white whitespace-nowrap`}>
+                {match[rally.winner].name}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
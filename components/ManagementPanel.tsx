@@ -1,35 +1,52 @@
 import React, { useState } from 'react';
-import { Player, Team, Category, TeamImportPayload, CategoryImportPayload } from '../types';
+import { Player, Team, Category, TeamImportPayload, CategoryImportPayload, CategorySettings, UnavailabilityWindow, Official, Match, Court, Sanction, Club } from '../types';
 import { PlayerManager } from './PlayerManager';
 import { TeamManager } from './TeamManager';
 import { CategoryManager } from './CategoryManager';
+import { OfficialManager } from './OfficialManager';
+import { DisciplineManager } from './DisciplineManager';
+import { ClubManager } from './ClubManager';
 import { Card } from './Card';
-import { UsersIcon, TagIcon, ListIcon } from './icons';
+import { UsersIcon, TagIcon, ListIcon, FlagIcon, ShieldIcon, BuildingIcon } from './icons';
 
 interface ManagementPanelProps {
   players: Player[];
   teams: Team[];
   categories: Category[];
   activeCategoryId: string | null;
+  officials: Official[];
+  matches: Match[];
+  courts: Court[];
+  sanctions: Sanction[];
+  clubs: Club[];
   onAddPlayer: (playerData: Omit<Player, 'id'>) => void;
   onUpdatePlayer: (id: string, playerData: Omit<Player, 'id'>) => void;
   onDeletePlayer: (id: string) => void;
   onImportPlayers: (players: Omit<Player, 'id'>[]) => void;
-  onAddTeam: (name: string, playerIds: string[]) => void;
-  onUpdateTeam: (id: string, name: string, playerIds: string[]) => void;
+  onAddTeam: (name: string, playerIds: string[], unavailability: UnavailabilityWindow[], clubId?: string) => void;
+  onUpdateTeam: (id: string, name: string, playerIds: string[], unavailability: UnavailabilityWindow[], clubId?: string) => void;
   onDeleteTeam: (id: string) => void;
-  onAddCategory: (name: string, teamIds: string[]) => void;
-  onUpdateCategory: (id: string, name: string, teamIds: string[]) => void;
+  onAddCategory: (name: string, teamIds: string[], settings: CategorySettings) => void;
+  onUpdateCategory: (id: string, name: string, teamIds: string[], settings: CategorySettings) => void;
   onDeleteCategory: (id: string) => void;
+  onToggleExpelledTeam: (categoryId: string, teamId: string) => void;
   onSelectCategory: (id: string | null) => void;
   onImportTeams: (payload: TeamImportPayload) => void;
   onImportCategories: (payload: CategoryImportPayload[]) => void;
   onViewPlayerProfile: (id: string) => void;
+  onAddOfficial: (officialData: Omit<Official, 'id'>) => void;
+  onUpdateOfficial: (id: string, officialData: Omit<Official, 'id'>) => void;
+  onDeleteOfficial: (id: string) => void;
+  onAddSanction: (sanctionData: Omit<Sanction, 'id'>) => void;
+  onDeleteSanction: (id: string) => void;
+  onAddClub: (clubData: Omit<Club, 'id'>) => void;
+  onUpdateClub: (id: string, clubData: Omit<Club, 'id'>) => void;
+  onDeleteClub: (id: string) => void;
   isMaximized?: boolean;
   onToggleMaximize?: () => void;
 }
 
-type Tab = 'players' | 'teams' | 'categories';
+type Tab = 'players' | 'teams' | 'categories' | 'clubs' | 'officials' | 'discipline';
 
 export const ManagementPanel: React.FC<ManagementPanelProps> = (props) => {
   const [activeTab, setActiveTab] = useState<Tab>('categories');
@@ -38,6 +55,9 @@ export const ManagementPanel: React.FC<ManagementPanelProps> = (props) => {
     { id: 'categories', label: 'Categorías', icon: <TagIcon className="w-5 h-5" /> },
     { id: 'teams', label: 'Equipos', icon: <ListIcon className="w-5 h-5" /> },
     { id: 'players', label: 'Jugadores', icon: <UsersIcon className="w-5 h-5" /> },
+    { id: 'clubs', label: 'Clubes', icon: <BuildingIcon className="w-5 h-5" /> },
+    { id: 'officials', label: 'Árbitros', icon: <FlagIcon className="w-5 h-5" /> },
+    { id: 'discipline', label: 'Disciplina', icon: <ShieldIcon className="w-5 h-5" /> },
   ];
 
   const renderContent = () => {
@@ -45,6 +65,7 @@ export const ManagementPanel: React.FC<ManagementPanelProps> = (props) => {
       case 'players':
         return <PlayerManager 
             players={props.players} 
+            clubs={props.clubs}
             onAddPlayer={props.onAddPlayer}
             onUpdatePlayer={props.onUpdatePlayer}
             onDeletePlayer={props.onDeletePlayer}
@@ -55,6 +76,8 @@ export const ManagementPanel: React.FC<ManagementPanelProps> = (props) => {
         return <TeamManager 
             players={props.players}
             teams={props.teams}
+            categories={props.categories}
+            clubs={props.clubs}
             onAddTeam={props.onAddTeam}
             onUpdateTeam={props.onUpdateTeam}
             onDeleteTeam={props.onDeleteTeam}
@@ -63,14 +86,47 @@ export const ManagementPanel: React.FC<ManagementPanelProps> = (props) => {
       case 'categories':
         return <CategoryManager
             teams={props.teams}
+            players={props.players}
             categories={props.categories}
             activeCategoryId={props.activeCategoryId}
             onAddCategory={props.onAddCategory}
             onUpdateCategory={props.onUpdateCategory}
             onDeleteCategory={props.onDeleteCategory}
+            onToggleExpelledTeam={props.onToggleExpelledTeam}
             onSelectCategory={props.onSelectCategory}
             onImportCategories={props.onImportCategories}
         />
+      case 'clubs':
+        return <ClubManager
+            clubs={props.clubs}
+            teams={props.teams}
+            players={props.players}
+            onAddClub={props.onAddClub}
+            onUpdateClub={props.onUpdateClub}
+            onDeleteClub={props.onDeleteClub}
+        />;
+      case 'officials':
+        return <OfficialManager
+            officials={props.officials}
+            teams={props.teams}
+            matches={props.matches}
+            categories={props.categories}
+            courts={props.courts}
+            onAddOfficial={props.onAddOfficial}
+            onUpdateOfficial={props.onUpdateOfficial}
+            onDeleteOfficial={props.onDeleteOfficial}
+        />;
+      case 'discipline':
+        return <DisciplineManager
+            sanctions={props.sanctions}
+            players={props.players}
+            teams={props.teams}
+            matches={props.matches}
+            categories={props.categories}
+            activeCategoryId={props.activeCategoryId}
+            onAddSanction={props.onAddSanction}
+            onDeleteSanction={props.onDeleteSanction}
+        />;
       default:
         return null;
     }
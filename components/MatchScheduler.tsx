@@ -1,7 +1,23 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Match, Team, MatchStatus, Player, MatchSet } from '../types';
+import { Match, Team, MatchStatus, Player, MatchSet, KnockoutStage, GroupStage, GroupStagePayload, SwissStage, ScoringRules, MatchUpdate, Court, ScheduleConflict, FillDatesOptions, Official, OfficialConflict, OfficialRole, RescheduleRequest, Sanction, Club, Category } from '../types';
 import { Card } from './Card';
+import { GroupStageSetup } from './GroupStageSetup';
+import { LiveScoringConsole } from './LiveScoringConsole';
+import { MatchSheetDialog } from './MatchSheetDialog';
+import { DisciplinaryPanel } from './DisciplinaryPanel';
+import { ProtestPanel } from './ProtestPanel';
+import { ClubBadge } from './ClubBadge';
+import { groupMatchesByRound, getRoundByes, getCurrentRound } from '../utils/tournamentUtils';
+import { groupMatchesByBracketRound } from '../utils/bracketUtils';
+import { DEFAULT_SCHEDULE_SETTINGS, getAvailabilityViolations, describeAvailabilityViolation } from '../utils/scheduleUtils';
+import { OFFICIAL_ROLE_LABELS, getOfficialName, isOwnTeamMatch, describeOfficialConflict } from '../utils/officialUtils';
+import { SuspendedPlayer, describeSanction } from '../utils/disciplineUtils';
+import { UnlicensedPlayer, describeLicenceIssues } from '../utils/licenceUtils';
+import { isResultProvisional, isProtestOpen } from '../utils/protestUtils';
+import { isPostponed, getOriginalDate, isDeadlineOverdue } from '../utils/rescheduleUtils';
+import { DEFAULT_SCORING_RULES, getSetMaxScore, isSetPlayable, normalizeSets, isMatchClosed, isMatchDecided } from '../utils/scoringUtils';
 import { ListIcon, ImportIcon, ExportIcon, PencilIcon, PdfIcon } from './icons';
+import { todayIso } from '../utils/dateUtils';
 
 // Make sure XLSX and jspdf are globally available from the script tag
 declare const XLSX: any;
@@ -12,8 +28,30 @@ interface MatchSchedulerProps {
   teams: Team[];
   players: Player[];
   categoryName?: string;
+  playoff?: KnockoutStage;
+  groupStage?: GroupStage;
+  swiss?: SwissStage;
+  scoring?: ScoringRules;
   onGenerateMatches: (twoLegged: boolean) => void;
-  onUpdateMatch: (matchId: string, newMatchData: Partial<Pick<Match, 'sets' | 'date'>>) => void;
+  onGenerateGroupStage: (payload: GroupStagePayload) => void;
+  teamRatings?: Record<string, number>; // to seed the groups by rating
+  teamClubs?: Record<string, Club>;
+  unlicensed?: Map<string, UnlicensedPlayer[]>; // by pending match id, when the category checks licences
+  licenceCheck?: Category['licenceCheck'];
+  onStartSwiss: (totalRounds: number) => void;
+  onGenerateNextSwissRound: () => void;
+  onUpdateMatch: (matchId: string, newMatchData: MatchUpdate) => void;
+  onRescheduleMatch: (matchId: string, request: RescheduleRequest) => void;
+  courts?: Court[];
+  scheduleConflicts?: ScheduleConflict[];
+  slotMinutes?: number;
+  onFillDates?: (options: FillDatesOptions) => void;
+  officials?: Official[];
+  officialConflicts?: OfficialConflict[];
+  sanctions?: Sanction[];
+  suspensions?: Map<string, SuspendedPlayer[]>; // by match id
+  onAddSanction?: (sanctionData: Omit<Sanction, 'id'>) => void;
+  matchFocus?: { matchId: string; at: number } | null; // scrolls to and highlights this match
   isMaximized?: boolean;
   onToggleMaximize?: () => void;
 }
@@ -33,35 +71,76 @@ const TeamPlayersTooltip: React.FC<{ team: Team, players: Player[] }> = ({ team,
 }
 
 
-const MatchCard: React.FC<{ match: Match; players: Player[], onUpdateMatch: (matchId: string, newMatchData: Partial<Pick<Match, 'sets' | 'date'>>) => void; }> = ({ match, players, onUpdateMatch }) => {
-    const [sets, setSets] = useState<MatchSet[]>(match.sets);
+const STATUS_BADGES: Record<MatchStatus, { label: string; className: string; pdfColor: string }> = {
+    [MatchStatus.Pending]: { label: 'Pendiente', className: 'bg-yellow-500 text-background', pdfColor: '#f59e0b' },
+    [MatchStatus.Finished]: { label: 'Finalizado', className: 'bg-green-500 text-white', pdfColor: '#00F5A0' },
+    [MatchStatus.Walkover]: { label: 'W.O.', className: 'bg-orange-500 text-white', pdfColor: '#f97316' },
+    [MatchStatus.Retired]: { label: 'Retirada', className: 'bg-orange-700 text-white', pdfColor: '#c2410c' },
+    [MatchStatus.Suspended]: { label: 'Suspendido', className: 'bg-gray-500 text-white', pdfColor: '#a0aec0' },
+    [MatchStatus.Annulled]: { label: 'Anulado', className: 'bg-red-600 text-white', pdfColor: '#dc2626' },
+};
+
+// Statuses set by hand from the incident panel; Pending there means "no incident"
+const INCIDENT_OPTIONS: { status: MatchStatus; label: string }[] = [
+    { status: MatchStatus.Pending, label: 'Sin incidencia' },
+    { status: MatchStatus.Walkover, label: 'W.O. (no presentado)' },
+    { status: MatchStatus.Retired, label: 'Retirada durante el partido' },
+    { status: MatchStatus.Suspended, label: 'Suspendido / aplazado' },
+    { status: MatchStatus.Annulled, label: 'Anulado' },
+];
+
+const getIncident = (match: Match) => INCIDENT_OPTIONS.some(o => o.status === match.status && o.status !== MatchStatus.Pending) ? match.status : MatchStatus.Pending;
+
+const formatShortDate = (date: string) => (date ? new Date(date + 'T00:00:00').toLocaleDateString('es-ES') : 'sin fecha');
+
+// For walkovers and retirements, the team that did not show up or retired is the loser
+const getIncidentTeamId = (match: Match) => match.winner && match.winner.id === match.team1.id ? match.team2.id : match.team1.id;
+
+const MatchCard: React.FC<{ match: Match; teams: Team[], players: Player[], rules: ScoringRules, slotMinutes: number, groupName?: string, categoryName?: string, courtName?: string, hasScheduleConflict?: boolean, isFocused?: boolean, officials: Official[], officialWarnings: string[], teamClubs?: Record<string, Club>, sanctions: Sanction[], suspendedPlayers: SuspendedPlayer[], unlicensedPlayers: UnlicensedPlayer[], licenceCheck?: Category['licenceCheck'], onAddSanction?: (sanctionData: Omit<Sanction, 'id'>) => void, onUpdateMatch: (matchId: string, newMatchData: MatchUpdate) => void; onRescheduleMatch: (matchId: string, request: RescheduleRequest) => void; }> = ({ match, teams, players, rules, slotMinutes, groupName, categoryName, courtName, hasScheduleConflict, isFocused, officials, officialWarnings, teamClubs = {}, sanctions, suspendedPlayers, unlicensedPlayers, licenceCheck, onAddSanction, onUpdateMatch, onRescheduleMatch }) => {
+    const [sets, setSets] = useState<MatchSet[]>(normalizeSets(match.sets, rules));
     const [date, setDate] = useState<string>(match.date || '');
     const [isEditing, setIsEditing] = useState(false);
+    const [incident, setIncident] = useState<MatchStatus>(getIncident(match));
+    const [incidentTeamId, setIncidentTeamId] = useState(getIncidentTeamId(match));
+    const [reason, setReason] = useState(match.statusReason || '');
+    const [isIncidentOpen, setIsIncidentOpen] = useState(false);
+    const [reschedule, setReschedule] = useState<RescheduleRequest | null>(null);
+    const [isLiveOpen, setIsLiveOpen] = useState(false);
+    const [isSheetOpen, setIsSheetOpen] = useState(false);
 
-    const isFinished = match.status === MatchStatus.Finished;
+    const isFinished = isMatchClosed(match);
     const isDisabled = isFinished && !isEditing;
-
-    const firstTwoSets = sets.slice(0, 2);
-    const team1FirstTwoSetWins = firstTwoSets.filter(s => s.team1 !== null && s.team2 !== null && s.team1 > s.team2).length;
-    const team2FirstTwoSetWins = firstTwoSets.filter(s => s.team1 !== null && s.team2 !== null && s.team2 > s.team1).length;
-    const areFirstTwoSetsPlayed = firstTwoSets.every(s => s.team1 !== null && s.team2 !== null);
-    const isThirdSetRelevant = areFirstTwoSetsPlayed && team1FirstTwoSetWins === 1 && team2FirstTwoSetWins === 1;
+    // Live scoring starts on a pending match and stays open for undoing the last point once it ends
+    const canScoreLive = match.status === MatchStatus.Pending || (match.status === MatchStatus.Finished && !!match.rallies?.length);
+    const hasIncidentTeam = incident === MatchStatus.Walkover || incident === MatchStatus.Retired;
+    // Only a retirement keeps the scores of the sets that were played
+    const areSetsDisabled = isDisabled || (incident !== MatchStatus.Pending && incident !== MatchStatus.Retired);
+    const badge = STATUS_BADGES[match.status];
+    // Only worth warning about while the match is still to be played
+    const availabilityWarnings = isFinished ? [] : getAvailabilityViolations(match, date, match.time, slotMinutes, teams, players).map(describeAvailabilityViolation);
+    // Players without a valid licence cannot play, but a walkover or a suspension can still be recorded
+    const isLineUpBlocked = licenceCheck === 'block' && unlicensedPlayers.length > 0;
+    const isResultBlocked = isLineUpBlocked && (incident === MatchStatus.Pending || incident === MatchStatus.Retired);
 
     useEffect(() => {
         // Sync local state with parent state if match data changes
-        setSets(match.sets);
+        setSets(normalizeSets(match.sets, rules));
         setDate(match.date || '');
+        setIncident(getIncident(match));
+        setIncidentTeamId(getIncidentTeamId(match));
+        setReason(match.statusReason || '');
         // If the parent component re-renders (e.g., after a global state update),
         // we should exit editing mode to prevent stale data.
         if (isFinished) {
             setIsEditing(false);
+            setIsIncidentOpen(false);
         }
-    }, [match, isFinished]);
+    }, [match, isFinished, rules]);
 
 
     const handleSetScoreChange = (setIndex: number, team: 'team1' | 'team2', value: string) => {
         const newSets = JSON.parse(JSON.stringify(sets));
-        const maxScore = setIndex < 2 ? 18 : 16;
+        const maxScore = getSetMaxScore(rules, setIndex);
         let score = parseInt(value, 10);
         if (isNaN(score)) {
             newSets[setIndex][team] = null;
@@ -78,10 +157,37 @@ const MatchCard: React.FC<{ match: Match; players: Player[], onUpdateMatch: (mat
             team1: s.team1 === null || isNaN(s.team1) ? null : s.team1,
             team2: s.team2 === null || isNaN(s.team2) ? null : s.team2,
         }));
-        onUpdateMatch(match.id, { sets: validSets, date });
+        const update: MatchUpdate = {
+            sets: validSets,
+            date,
+            status: incident,
+            statusReason: incident === MatchStatus.Pending ? undefined : reason.trim() || undefined,
+        };
+        if (hasIncidentTeam) {
+            update.winner = incidentTeamId === match.team1.id ? match.team2 : match.team1;
+        }
+        // A hand-corrected score no longer matches the point-by-point log
+        if (match.rallies && JSON.stringify(validSets) !== JSON.stringify(normalizeSets(match.sets, rules))) {
+            update.rallies = undefined;
+            update.firstServer = undefined;
+        }
+        onUpdateMatch(match.id, update);
         setIsEditing(false);
     };
 
+    const handleOfficialChange = (role: OfficialRole, officialId: string) => {
+        const value = officialId || undefined;
+        onUpdateMatch(match.id, role === 'referee' ? { refereeId: value } : { scorekeeperId: value });
+    };
+
+    const openReschedule = () => setReschedule({ date: '', time: '', reason: '', requestedBy: '', deadline: match.deadline || '' });
+
+    const handleConfirmReschedule = () => {
+        if (!reschedule) return;
+        onRescheduleMatch(match.id, reschedule);
+        setReschedule(null);
+    };
+
     const handleDateBlur = () => {
         if (date !== match.date) {
             onUpdateMatch(match.id, { date });
@@ -89,14 +195,32 @@ const MatchCard: React.FC<{ match: Match; players: Player[], onUpdateMatch: (mat
     };
 
     const handleCancelEdit = () => {
-        setSets(match.sets);
+        setSets(normalizeSets(match.sets, rules));
         setDate(match.date || '');
+        setIncident(getIncident(match));
+        setIncidentTeamId(getIncidentTeamId(match));
+        setReason(match.statusReason || '');
+        setIsIncidentOpen(false);
         setIsEditing(false);
     };
 
 
     return (
-        <div className="bg-background p-4 rounded-lg border border-border transition-shadow hover:shadow-lg hover:border-primary">
+        <div id={`match-card-${match.id}`} className={`bg-background p-4 rounded-lg border border-border transition-shadow hover:shadow-lg hover:border-primary ${match.status === MatchStatus.Annulled ? 'opacity-60' : ''} ${isFocused ? 'ring-2 ring-primary' : ''}`}>
+            {isLiveOpen && <LiveScoringConsole match={match} rules={rules} onUpdateMatch={onUpdateMatch} onClose={() => setIsLiveOpen(false)} />}
+            {isSheetOpen && (
+                <MatchSheetDialog
+                    match={match}
+                    teams={teams}
+                    players={players}
+                    officials={officials}
+                    categoryName={categoryName}
+                    courtName={courtName}
+                    statusLabel={badge.label}
+                    onSave={sheet => onUpdateMatch(match.id, { sheet })}
+                    onClose={() => setIsSheetOpen(false)}
+                />
+            )}
             <div className="flex justify-between items-center mb-3">
                 <input
                     type="date"
@@ -106,33 +230,103 @@ const MatchCard: React.FC<{ match: Match; players: Player[], onUpdateMatch: (mat
                     disabled={isDisabled}
                     className="bg-gray-900 border border-border rounded-md px-2 py-1 text-sm text-text-secondary focus:outline-none focus:ring-1 focus:ring-primary disabled:opacity-50"
                 />
-                 <span className={`text-xs font-bold px-2 py-1 rounded-full ${isFinished ? 'bg-green-500 text-white' : 'bg-yellow-500 text-background'}`}>
-                    {isFinished ? 'Finalizado' : 'Pendiente'}
-                </span>
+                <div className="flex items-center gap-2">
+                    {groupName && <span className="text-xs font-bold px-2 py-1 rounded-full bg-blue-600 text-white">Grupo {groupName}</span>}
+                    {match.reschedules && match.reschedules.length > 0 && (
+                        <span className="text-xs font-bold px-2 py-1 rounded-full bg-purple-600 text-white" title={`Fecha original: ${formatShortDate(getOriginalDate(match))}`}>
+                            Reprogramado
+                        </span>
+                    )}
+                    {isResultProvisional(match) && (
+                        <span className="text-xs font-bold px-2 py-1 rounded-full bg-orange-500 text-white">
+                            {match.protests?.some(isProtestOpen) ? 'En reclamación' : 'Provisional'}
+                        </span>
+                    )}
+                    <span className={`text-xs font-bold px-2 py-1 rounded-full ${badge.className}`}>
+                        {badge.label}
+                    </span>
+                </div>
             </div>
-            {match.winner && <span className="text-sm text-text-secondary mb-2 block">Ganador: <span className="font-bold text-primary">{match.winner.name}</span></span>}
+            {suspendedPlayers.length > 0 && (
+                <ul className="text-xs text-red-400 bg-red-900 bg-opacity-30 border border-red-700 rounded-md p-2 mb-2 space-y-0.5">
+                    {suspendedPlayers.map(({ player, team, sanctions: blocking }) => (
+                        <li key={player.id}>
+                            ⛔ {player.firstName} {player.lastName} ({team.name}) está sancionado: {blocking.map(describeSanction).join('; ')}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {unlicensedPlayers.length > 0 && (
+                <ul className={`text-xs rounded-md p-2 mb-2 space-y-0.5 border ${isLineUpBlocked ? 'text-red-400 bg-red-900 bg-opacity-30 border-red-700' : 'text-yellow-400 border-yellow-700'}`}>
+                    {unlicensedPlayers.map(({ player, team, issues }) => (
+                        <li key={player.id}>
+                            {isLineUpBlocked ? '⛔' : '⚠'} {player.firstName} {player.lastName} ({team.name}): {describeLicenceIssues(issues)}
+                        </li>
+                    ))}
+                    {isLineUpBlocked && <li className="font-semibold">No se puede anotar el resultado hasta regularizar las licencias de toda la plantilla (o dar de baja a quien no juegue).</li>}
+                </ul>
+            )}
+            {availabilityWarnings.length > 0 && (
+                <ul className="text-xs text-yellow-400 mb-2 space-y-0.5">
+                    {availabilityWarnings.map(warning => <li key={warning}>⚠ {warning}</li>)}
+                </ul>
+            )}
+            {(match.time || hasScheduleConflict) && (
+                <p className="text-xs text-text-secondary mb-2">
+                    {match.time && <span>{match.time}{courtName && ` · ${courtName}`}</span>}
+                    {hasScheduleConflict && <span className="ml-2 font-bold text-red-500">⚠ Conflicto de horario</span>}
+                </p>
+            )}
+            {match.winner && (
+                <span className="text-sm text-text-secondary mb-2 block">
+                    Ganador: <span className="font-bold text-primary">{match.winner.name}</span>
+                    {match.status !== MatchStatus.Finished && ` (${badge.label})`}
+                </span>
+            )}
+            {match.statusReason && <p className="text-xs italic text-text-secondary mb-2">Motivo: {match.statusReason}</p>}
+            {match.deadline && !isFinished && (
+                <p className={`text-xs mb-2 ${isDeadlineOverdue(match, todayIso()) ? 'font-bold text-red-500' : 'text-text-secondary'}`}>
+                    Jugar antes del {formatShortDate(match.deadline)}{isDeadlineOverdue(match, todayIso()) && ' (plazo vencido)'}
+                </p>
+            )}
+            {match.reschedules && match.reschedules.length > 0 && (
+                <details className="text-xs text-text-secondary mb-2">
+                    <summary className="cursor-pointer">Historial de fechas ({match.reschedules.length} {match.reschedules.length === 1 ? 'cambio' : 'cambios'})</summary>
+                    <ul className="mt-1 space-y-1 pl-2">
+                        {match.reschedules.map(entry => (
+                            <li key={entry.changedAt}>
+                                {formatShortDate(entry.previousDate)}{entry.previousTime && ` ${entry.previousTime}`} → {formatShortDate(entry.newDate)}{entry.newTime && ` ${entry.newTime}`}
+                                {entry.requestedBy && ` · Solicita: ${entry.requestedBy}`}
+                                {entry.reason && ` · ${entry.reason}`}
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
             <div className="flex items-center justify-between gap-2 mb-4">
                 <div className="group relative flex-1 text-center">
-                    <p className="font-bold text-lg text-text-primary truncate">{match.team1.name}</p>
+                    <p className="font-bold text-lg text-text-primary truncate flex items-center justify-center gap-2"><ClubBadge club={teamClubs[match.team1.id]} />{match.team1.name}</p>
                     <TeamPlayersTooltip team={match.team1} players={players} />
                 </div>
                 <div className="text-xl font-bold text-text-secondary">VS</div>
                 <div className="group relative flex-1 text-center">
-                    <p className="font-bold text-lg text-text-primary truncate">{match.team2.name}</p>
+                    <p className="font-bold text-lg text-text-primary truncate flex items-center justify-center gap-2"><ClubBadge club={teamClubs[match.team2.id]} />{match.team2.name}</p>
                     <TeamPlayersTooltip team={match.team2} players={players} />
                 </div>
             </div>
             
             <div className="space-y-2">
                 {sets.map((set, index) => {
-                    const isSetDisabled = isDisabled || (index === 2 && !isThirdSetRelevant);
+                    const isSetRelevant = isSetPlayable(sets, rules, index);
+                    const isSetDisabled = areSetsDisabled || !isSetRelevant;
+                    const maxScore = getSetMaxScore(rules, index);
                     return (
-                        <div key={index} className={`flex items-center gap-2 transition-opacity ${isSetDisabled && index === 2 ? 'opacity-50' : 'opacity-100'}`}>
+                        <div key={index} className={`flex items-center gap-2 transition-opacity ${!isSetRelevant ? 'opacity-50' : 'opacity-100'}`}>
                             <label className="text-sm font-semibold text-text-secondary w-12">Set {index + 1}:</label>
                             <input 
                                 type="number"
                                 min="0"
-                                max={index < 2 ? 18 : 16}
+                                max={isFinite(maxScore) ? maxScore : undefined}
                                 value={set.team1?.toString() || ''}
                                 onChange={e => handleSetScoreChange(index, 'team1', e.target.value)}
                                 disabled={isSetDisabled}
@@ -142,7 +336,7 @@ const MatchCard: React.FC<{ match: Match; players: Player[], onUpdateMatch: (mat
                             <input 
                                 type="number"
                                  min="0"
-                                 max={index < 2 ? 18 : 16}
+                                 max={isFinite(maxScore) ? maxScore : undefined}
                                 value={set.team2?.toString() || ''}
                                 onChange={e => handleSetScoreChange(index, 'team2', e.target.value)}
                                 disabled={isSetDisabled}
@@ -153,6 +347,140 @@ const MatchCard: React.FC<{ match: Match; players: Player[], onUpdateMatch: (mat
                 })}
             </div>
 
+            {officials.length > 0 && (
+                <div className="mt-3 grid grid-cols-2 gap-2 text-xs">
+                    {(['referee', 'scorekeeper'] as OfficialRole[]).map(role => {
+                        const assignedId = role === 'referee' ? match.refereeId : match.scorekeeperId;
+                        return (
+                            <label key={role} className="flex flex-col gap-1">
+                                <span className="text-text-secondary">{OFFICIAL_ROLE_LABELS[role]}:</span>
+                                <select
+                                    value={assignedId || ''}
+                                    onChange={e => handleOfficialChange(role, e.target.value)}
+                                    className="bg-gray-900 border border-border rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary"
+                                >
+                                    <option value="">Sin asignar</option>
+                                    {officials.filter(o => o.roles.includes(role) || o.id === assignedId).map(official => (
+                                        <option key={official.id} value={official.id} disabled={isOwnTeamMatch(official, match) && official.id !== assignedId}>
+                                            {getOfficialName(official)}{isOwnTeamMatch(official, match) ? ' (su equipo)' : ''}
+                                        </option>
+                                    ))}
+                                </select>
+                            </label>
+                        );
+                    })}
+                </div>
+            )}
+            {officialWarnings.length > 0 && (
+                <ul className="mt-2 text-xs text-red-400 space-y-0.5">
+                    {officialWarnings.map(warning => <li key={warning}>⚠ {warning}</li>)}
+                </ul>
+            )}
+
+            {isMatchDecided(match) && !match.protests?.some(isProtestOpen) && (
+                <label className="mt-3 flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={!!match.provisional}
+                        onChange={() => onUpdateMatch(match.id, { provisional: !match.provisional })}
+                        className="form-checkbox h-4 w-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary"
+                    />
+                    Resultado provisional (pendiente de confirmar)
+                </label>
+            )}
+            {(isMatchDecided(match) || !!match.protests?.length) && <ProtestPanel match={match} rules={rules} onUpdateMatch={onUpdateMatch} />}
+            {onAddSanction && (
+                <DisciplinaryPanel match={match} teams={teams} players={players} sanctions={sanctions} onUpdateMatch={onUpdateMatch} onAddSanction={onAddSanction} />
+            )}
+            <button onClick={() => setIsSheetOpen(true)} className="mt-3 mr-4 text-xs text-text-secondary hover:text-primary transition-colors">
+                {match.sheet ? `Acta (${Object.keys(match.sheet.signatures).length}/3 firmas)` : 'Acta del partido'}
+            </button>
+            {!isFinished && (reschedule ? (
+                <div className="mt-3 space-y-2 text-sm border-t border-border pt-3">
+                    <div className="grid grid-cols-2 gap-2">
+                        <label className="flex flex-col gap-1 text-xs text-text-secondary">
+                            Nueva fecha
+                            <input type="date" value={reschedule.date} onChange={e => setReschedule({ ...reschedule, date: e.target.value })} className="bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary" />
+                        </label>
+                        <label className="flex flex-col gap-1 text-xs text-text-secondary">
+                            Hora (opcional)
+                            <input type="time" value={reschedule.time} onChange={e => setReschedule({ ...reschedule, time: e.target.value })} className="bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary" />
+                        </label>
+                        <label className="flex flex-col gap-1 text-xs text-text-secondary">
+                            Solicitado por
+                            <select value={reschedule.requestedBy} onChange={e => setReschedule({ ...reschedule, requestedBy: e.target.value })} className="bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary">
+                                <option value="">—</option>
+                                <option value={match.team1.name}>{match.team1.name}</option>
+                                <option value={match.team2.name}>{match.team2.name}</option>
+                                <option value="Organización">Organización</option>
+                            </select>
+                        </label>
+                        <label className="flex flex-col gap-1 text-xs text-text-secondary">
+                            Plazo para jugarlo
+                            <input type="date" value={reschedule.deadline} onChange={e => setReschedule({ ...reschedule, deadline: e.target.value })} className="bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary" />
+                        </label>
+                    </div>
+                    <input
+                        type="text"
+                        value={reschedule.reason}
+                        onChange={e => setReschedule({ ...reschedule, reason: e.target.value })}
+                        placeholder="Motivo del aplazamiento"
+                        className="w-full bg-gray-900 border border-border rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary"
+                    />
+                    {!reschedule.date && <p className="text-xs text-text-secondary">Sin nueva fecha, el partido queda aplazado hasta que se fije una.</p>}
+                    <div className="flex gap-2">
+                        <button onClick={handleConfirmReschedule} className="w-full bg-purple-600 text-white font-semibold py-1.5 px-3 rounded-md hover:bg-purple-500 transition-colors">
+                            Reprogramar
+                        </button>
+                        <button onClick={() => setReschedule(null)} className="bg-gray-600 text-text-primary font-semibold py-1.5 px-3 rounded-md hover:bg-gray-500 transition-colors">
+                            Cancelar
+                        </button>
+                    </div>
+                </div>
+            ) : match.date && (
+                <button onClick={openReschedule} className="mt-3 mr-4 text-xs text-text-secondary hover:text-primary transition-colors">
+                    Aplazar / reprogramar
+                </button>
+            ))}
+
+            {!isDisabled && (isIncidentOpen || incident !== MatchStatus.Pending ? (
+                <div className="mt-3 space-y-2 text-sm border-t border-border pt-3">
+                    <select
+                        value={incident}
+                        onChange={e => setIncident(e.target.value as MatchStatus)}
+                        className="w-full bg-gray-900 border border-border rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary"
+                    >
+                        {INCIDENT_OPTIONS.map(option => <option key={option.status} value={option.status}>{option.label}</option>)}
+                    </select>
+                    {hasIncidentTeam && (
+                        <label className="flex items-center justify-between gap-2">
+                            <span className="text-text-secondary">{incident === MatchStatus.Walkover ? 'No se presenta:' : 'Se retira:'}</span>
+                            <select
+                                value={incidentTeamId}
+                                onChange={e => setIncidentTeamId(e.target.value)}
+                                className="bg-gray-900 border border-border rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary"
+                            >
+                                <option value={match.team1.id}>{match.team1.name}</option>
+                                <option value={match.team2.id}>{match.team2.name}</option>
+                            </select>
+                        </label>
+                    )}
+                    {incident !== MatchStatus.Pending && (
+                        <input
+                            type="text"
+                            value={reason}
+                            onChange={e => setReason(e.target.value)}
+                            placeholder="Motivo (opcional)"
+                            className="w-full bg-gray-900 border border-border rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary"
+                        />
+                    )}
+                </div>
+            ) : (
+                <button onClick={() => setIsIncidentOpen(true)} className="mt-3 text-xs text-text-secondary hover:text-primary transition-colors">
+                    Registrar incidencia (W.O., retirada, suspensión...)
+                </button>
+            ))}
+
             <div className="mt-4 flex gap-2">
                 {isFinished ? (
                     isEditing ? (
@@ -171,20 +499,69 @@ const MatchCard: React.FC<{ match: Match; players: Player[], onUpdateMatch: (mat
                         </button>
                     )
                 ) : (
-                    <button onClick={handleSave} className="w-full bg-primary text-background font-semibold py-2 px-3 rounded-md hover:bg-primary-dark transition-colors text-sm">
+                    <button onClick={handleSave} disabled={isResultBlocked} className="w-full bg-primary text-background font-semibold py-2 px-3 rounded-md hover:bg-primary-dark disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors text-sm">
                         Guardar Resultados
                     </button>
                 )}
+                {canScoreLive && !isEditing && !(isLineUpBlocked && match.status === MatchStatus.Pending) && (
+                    <button onClick={() => setIsLiveOpen(true)} className="w-full bg-red-600 text-white font-semibold py-2 px-3 rounded-md hover:bg-red-500 transition-colors text-sm">
+                        {match.rallies?.length ? 'Marcador en directo' : 'Puntuar en directo'}
+                    </button>
+                )}
             </div>
         </div>
     );
 };
 
 
-export const MatchScheduler: React.FC<MatchSchedulerProps> = ({ matches, teams, players, categoryName, onGenerateMatches, onUpdateMatch, isMaximized, onToggleMaximize }) => {
+export const MatchScheduler: React.FC<MatchSchedulerProps> = ({ matches, teams, players, categoryName, playoff, groupStage, swiss, scoring = DEFAULT_SCORING_RULES, onGenerateMatches, onGenerateGroupStage, onStartSwiss, onGenerateNextSwissRound, onUpdateMatch, onRescheduleMatch, courts = [], scheduleConflicts = [], slotMinutes = DEFAULT_SCHEDULE_SETTINGS.slotMinutes, onFillDates, officials = [], officialConflicts = [], sanctions = [], suspensions = new Map(), onAddSanction, matchFocus, teamRatings, teamClubs, unlicensed = new Map(), licenceCheck, isMaximized, onToggleMaximize }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [filterStatus, setFilterStatus] = useState<'all' | MatchStatus>('all');
+  const [filterStatus, setFilterStatus] = useState<'all' | MatchStatus | 'postponed'>('all');
   const [filterTeamId, setFilterTeamId] = useState<'all' | string>('all');
+  const [filterRound, setFilterRound] = useState<'all' | number>('all');
+  const [isGroupSetupOpen, setIsGroupSetupOpen] = useState(false);
+  const [isSwissSetupOpen, setIsSwissSetupOpen] = useState(false);
+  const [isFillDatesOpen, setIsFillDatesOpen] = useState(false);
+  const [fillDatesOptions, setFillDatesOptions] = useState<FillDatesOptions>(() => ({
+    startDate: todayIso(),
+    intervalDays: 7,
+    maxMatchesPerTeamPerDay: 1,
+  }));
+  const maxSwissRounds = Math.max(teams.length - 1, 1);
+
+  useEffect(() => {
+    if (!matchFocus) return;
+    // Clear the filters so the card is rendered before scrolling to it
+    setFilterStatus('all');
+    setFilterTeamId('all');
+    setFilterRound('all');
+    const timer = setTimeout(() => {
+      document.getElementById(`match-card-${matchFocus.matchId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 50);
+    return () => clearTimeout(timer);
+  }, [matchFocus]);
+  const [swissRounds, setSwissRounds] = useState(Math.min(Math.ceil(Math.log2(Math.max(teams.length, 2))), maxSwissRounds));
+
+  const getGroupName = (match: Match) => groupStage?.groups.find(g => g.id === match.groupId)?.name;
+  // Groups number their jornadas on their own, so each rests its own teams; groups without that jornada are left out
+  const describeRoundByes = (round: number): string => {
+    if (!groupStage) return getRoundByes(teams, matches, round).map(t => t.name).join(', ');
+    return groupStage.groups.flatMap(group => {
+      const groupMatches = matches.filter(m => m.groupId === group.id);
+      if (!groupMatches.some(m => m.round === round)) return [];
+      const byes = getRoundByes(teams.filter(t => group.teamIds.includes(t.id)), groupMatches, round);
+      return byes.length > 0 ? [`${byes.map(t => t.name).join(', ')} (Grupo ${group.name})`] : [];
+    }).join(' · ');
+  };
+  const getCourtName = (match: Match) => courts.find(c => c.id === match.courtId)?.name;
+  const conflictingMatchIds = new Set(scheduleConflicts.flatMap(c => c.matchIds));
+  const getOfficialWarnings = (match: Match) => officialConflicts
+    .filter(c => c.matchIds.includes(match.id))
+    .map(c => describeOfficialConflict(c, officials, matches));
+  const getOfficialNameById = (id?: string) => {
+    const official = id && officials.find(o => o.id === id);
+    return official ? getOfficialName(official) : '';
+  };
 
 
   const handleExport = () => {
@@ -192,16 +569,23 @@ export const MatchScheduler: React.FC<MatchSchedulerProps> = ({ matches, teams,
       alert("No se puede exportar sin una categoría activa.");
       return;
     }
+    const setCount = Math.max(...matches.map(m => m.sets.length), 0);
     const dataToExport = matches.map(match => ({
         'Categoría': categoryName,
+        [swiss ? 'Ronda' : 'Jornada']: match.round ?? '',
+        'Grupo': getGroupName(match) || '',
         'Fecha': match.date,
         'Equipo 1': match.team1.name,
         'Equipo 2': match.team2.name,
-        'Set 1': match.sets[0]?.team1 !== null && match.sets[0]?.team2 !== null ? `${match.sets[0].team1}-${match.sets[0].team2}` : '',
-        'Set 2': match.sets[1]?.team1 !== null && match.sets[1]?.team2 !== null ? `${match.sets[1].team1}-${match.sets[1].team2}` : '',
-        'Set 3': match.sets[2]?.team1 !== null && match.sets[2]?.team2 !== null ? `${match.sets[2].team1}-${match.sets[2].team2}` : '',
+        ...Object.fromEntries(Array.from({ length: setCount }, (_, i) => {
+            const set = match.sets[i];
+            return [`Set ${i + 1}`, set && set.team1 !== null && set.team2 !== null ? `${set.team1}-${set.team2}` : ''];
+        })),
         'Ganador': match.winner?.name || '',
         'Estado': match.status,
+        'Motivo': match.statusReason || '',
+        'Árbitro': getOfficialNameById(match.refereeId),
+        'Anotador': getOfficialNameById(match.scorekeeperId),
     }));
     const worksheet = XLSX.utils.json_to_sheet(dataToExport);
     const workbook = XLSX.utils.book_new();
@@ -249,29 +633,55 @@ export const MatchScheduler: React.FC<MatchSchedulerProps> = ({ matches, teams,
     addHeader();
     let pageCount = 1;
 
-    const sortedMatches = [...matches].sort((a, b) => (a.date || '').localeCompare(b.date || ''));
-    let lastDate: string | null = null;
+    const formatLongDate = (date: string) => new Date(date + 'T00:00:00').toLocaleDateString('es-ES', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
 
-    sortedMatches.forEach((match, index) => {
-        const matchCardHeight = 25;
-        const dateHeaderHeight = (match.date && match.date !== lastDate) ? 12 : 0;
+    // League matches are grouped by jornada (older fixtures by date), knockout matches by bracket round
+    const leagueMatches = matches.filter(m => !m.bracketNodeId);
+    const knockoutGroups = playoff ? groupMatchesByBracketRound(playoff, matches) : [];
+    const sortedMatches = [
+        ...groupMatchesByRound(leagueMatches).flatMap(group => group.matches),
+        ...knockoutGroups.flatMap(group => group.matches),
+    ];
+    const getGroupLabel = (match: Match) => {
+        const knockoutGroup = knockoutGroups.find(group => group.matches.includes(match));
+        if (knockoutGroup) return knockoutGroup.name;
+        if (match.round !== undefined) return `${swiss ? 'Ronda' : 'Jornada'} ${match.round}`;
+        return match.date ? formatLongDate(match.date) : null;
+    };
+    let lastGroupLabel: string | null = null;
+
+    sortedMatches.forEach((match) => {
+        // Room for the postponement/cancellation reason under the team boxes
+        const reasonHeight = match.statusReason ? 6 : 0;
+        const matchCardHeight = 25 + reasonHeight;
+        const groupLabel = getGroupLabel(match);
+        const groupHeaderHeight = (groupLabel && groupLabel !== lastGroupLabel) ? 12 : 0;
         
-        if (currentY + matchCardHeight + dateHeaderHeight > pageH - margin) {
+        if (currentY + matchCardHeight + groupHeaderHeight > pageH - margin) {
             addFooter(pageCount);
             doc.addPage();
             pageCount++;
             addHeader();
-            lastDate = null; // Reset date for new page header
+            lastGroupLabel = null; // Reset group for new page header
         }
         
-        // Draw date header if it's a new date
-        if (match.date && match.date !== lastDate) {
+        // Draw jornada (or date) header if it's a new group
+        if (groupLabel && groupLabel !== lastGroupLabel) {
             doc.setFontSize(12);
             doc.setFont('helvetica', 'bold');
             doc.setTextColor('#00F5A0'); // primary color
-            doc.text(new Date(match.date + 'T00:00:00').toLocaleDateString('es-ES', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }), margin, currentY);
+            doc.text(groupLabel, margin, currentY);
+            if (match.round !== undefined) {
+                const byes = describeRoundByes(match.round);
+                if (byes) {
+                    doc.setFontSize(9);
+                    doc.setFont('helvetica', 'normal');
+                    doc.setTextColor('#a0aec0');
+                    doc.text(`Descansa: ${byes}`, pageW - margin, currentY, { align: 'right' });
+                }
+            }
             currentY += 10;
-            lastDate = match.date;
+            lastGroupLabel = groupLabel;
         }
 
         // Draw match card
@@ -305,12 +715,39 @@ export const MatchScheduler: React.FC<MatchSchedulerProps> = ({ matches, teams,
         doc.text(match.team2.name, startX + teamBoxWidth + vsWidth + teamBoxWidth / 2, cardY + teamBoxHeight / 2 + 2, { align: 'center' });
         
         // Status
-        const statusText = match.status === 'Finished' ? 'Finalizado' : 'Pendiente';
-        const statusColor = match.status === 'Finished' ? '#00F5A0' : '#f59e0b'; // primary-green or amber-500
+        const { label: statusText, pdfColor: statusColor } = STATUS_BADGES[match.status];
         doc.setFontSize(9);
         doc.setFont('helvetica', 'bold');
         doc.setTextColor(statusColor);
         doc.text(statusText, pageW - margin, cardY + teamBoxHeight / 2 + 2, { align: 'right' });
+        if (match.winner && match.status !== MatchStatus.Finished) {
+            doc.setFontSize(7);
+            doc.setFont('helvetica', 'normal');
+            doc.text(`Gana ${match.winner.name}`, pageW - margin, cardY + teamBoxHeight / 2 + 6, { align: 'right' });
+        }
+
+        // Group and date, unless the date is already the group header
+        const showDate = (match.round !== undefined || match.bracketNodeId) && match.date;
+        const groupName = getGroupName(match);
+        const details = [
+            groupName ? `Grupo ${groupName}` : '',
+            showDate ? new Date(match.date + 'T00:00:00').toLocaleDateString('es-ES') : '',
+            match.time ? [match.time, getCourtName(match)].filter(Boolean).join(' ') : '',
+            match.refereeId ? `Árb.: ${getOfficialNameById(match.refereeId)}` : '',
+            match.reschedules?.length ? `Reprogramado (orig. ${formatShortDate(getOriginalDate(match))})` : '',
+        ].filter(Boolean).join(' · ');
+        if (details) {
+            doc.setFontSize(8);
+            doc.setFont('helvetica', 'normal');
+            doc.setTextColor('#a0aec0');
+            doc.text(details, margin, cardY + teamBoxHeight / 2 + 2);
+        }
+        if (match.statusReason) {
+            doc.setFontSize(8);
+            doc.setFont('helvetica', 'italic');
+            doc.setTextColor('#a0aec0');
+            doc.text(`Motivo: ${match.statusReason}`, pageW / 2, cardY + teamBoxHeight + 5, { align: 'center' });
+        }
         
         currentY += matchCardHeight;
     });
@@ -348,8 +785,8 @@ export const MatchScheduler: React.FC<MatchSchedulerProps> = ({ matches, teams,
                     return;
                 }
 
-                const newSets: MatchSet[] = JSON.parse(JSON.stringify(match.sets));
-                for (let i = 1; i <= 3; i++) {
+                const newSets: MatchSet[] = normalizeSets(JSON.parse(JSON.stringify(match.sets)), scoring);
+                for (let i = 1; i <= newSets.length; i++) {
                     const setStr = row[`Set ${i}`];
                     if (typeof setStr === 'string' && setStr.includes('-')) {
                         const [s1, s2] = setStr.split('-').map(s => parseInt(s.trim(), 10));
@@ -416,12 +853,42 @@ export const MatchScheduler: React.FC<MatchSchedulerProps> = ({ matches, teams,
     </>
   );
 
+  const roundLabel = swiss ? 'Ronda' : 'Jornada';
+  const leagueMatches = matches.filter(m => !m.bracketNodeId);
+  const currentSwissRound = getCurrentRound(leagueMatches);
+  const canGenerateNextSwissRound = !!swiss
+    && currentSwissRound < swiss.totalRounds
+    && leagueMatches.filter(m => m.round === currentSwissRound).every(isMatchClosed);
+
+  const undatedPendingCount = matches.filter(m => m.status === MatchStatus.Pending && !m.date).length;
+
+  const handleFillDatesNumberChange = (field: 'intervalDays' | 'maxMatchesPerTeamPerDay', value: string) => {
+    const number = parseInt(value, 10);
+    if (!isNaN(number) && number > 0) setFillDatesOptions(prev => ({ ...prev, [field]: number }));
+  };
+
+  const roundNumbers = Array.from(new Set<number>(matches.flatMap(m => m.round !== undefined ? [m.round] : []))).sort((a, b) => a - b);
+
   const filteredMatches = matches.filter(match => {
-    const statusMatch = filterStatus === 'all' || match.status === filterStatus;
+    // Walkovers, retirements and annulled matches count as finished; suspended ones as pending
+    const statusMatch = filterStatus === 'all'
+      || (filterStatus === 'postponed' ? isPostponed(match) : (filterStatus === MatchStatus.Finished) === isMatchClosed(match));
     const teamMatch = filterTeamId === 'all' || match.team1.id === filterTeamId || match.team2.id === filterTeamId;
-    return statusMatch && teamMatch;
+    const roundMatch = filterRound === 'all' || match.round === filterRound;
+    return statusMatch && teamMatch && roundMatch;
+  });
+
+  const postponedMatches = matches.filter(isPostponed);
+  // Outstanding deadlines first, soonest first
+  const postponedSummary = [...postponedMatches].sort((a, b) => {
+    const keyA = a.deadline && !isMatchClosed(a) ? a.deadline : '9999';
+    const keyB = b.deadline && !isMatchClosed(b) ? b.deadline : '9999';
+    return keyA.localeCompare(keyB);
   });
 
+  const roundGroups = groupMatchesByRound(filteredMatches.filter(m => !m.bracketNodeId));
+  const knockoutGroups = playoff ? groupMatchesByBracketRound(playoff, filteredMatches) : [];
+
   return (
     <Card 
         title="Partidos" 
@@ -430,7 +897,36 @@ export const MatchScheduler: React.FC<MatchSchedulerProps> = ({ matches, teams,
         isMaximized={isMaximized}
         onToggleMaximize={onToggleMaximize}
     >
-      {matches.length === 0 ? (
+      {matches.length === 0 && isGroupSetupOpen ? (
+        <GroupStageSetup
+          teams={teams}
+          teamRatings={teamRatings}
+          onGenerate={(payload) => { onGenerateGroupStage(payload); setIsGroupSetupOpen(false); }}
+          onCancel={() => setIsGroupSetupOpen(false)}
+        />
+      ) : matches.length === 0 && isSwissSetupOpen ? (
+        <div className="text-left space-y-4">
+            <p className="text-sm text-text-secondary">Cada ronda empareja a los equipos con puntuación similar sin repetir enfrentamientos. La siguiente ronda se genera cuando terminan todos los partidos de la actual.</p>
+            <label className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-text-secondary">Número de rondas:</span>
+                <select value={swissRounds} onChange={e => setSwissRounds(Number(e.target.value))} className="bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary">
+                    {Array.from({ length: maxSwissRounds }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+            </label>
+            <div className="flex gap-2">
+                <button
+                    onClick={() => { onStartSwiss(swissRounds); setIsSwissSetupOpen(false); }}
+                    disabled={teams.length < 2}
+                    className="w-full bg-primary text-background font-bold py-2 px-4 rounded-md hover:bg-primary-dark disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+                >
+                    Generar Ronda 1
+                </button>
+                <button onClick={() => setIsSwissSetupOpen(false)} className="bg-gray-600 text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-500 transition-colors">
+                    Cancelar
+                </button>
+            </div>
+        </div>
+      ) : matches.length === 0 ? (
         <div className="text-center py-10">
           <p className="text-text-secondary mb-4">Elige el formato del calendario de partidos.</p>
           <div className="flex flex-col sm:flex-row gap-4 justify-center">
@@ -448,11 +944,84 @@ export const MatchScheduler: React.FC<MatchSchedulerProps> = ({ matches, teams,
             >
               Generar Partidos (Ida y Vuelta)
             </button>
+            <button
+              onClick={() => setIsGroupSetupOpen(true)}
+              disabled={teams.length < 4}
+              className="bg-yellow-600 text-white font-bold py-2 px-4 rounded-md hover:bg-yellow-500 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+              Fase de Grupos
+            </button>
+            <button
+              onClick={() => setIsSwissSetupOpen(true)}
+              disabled={teams.length < 3}
+              className="bg-purple-600 text-white font-bold py-2 px-4 rounded-md hover:bg-purple-500 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+              Sistema Suizo
+            </button>
           </div>
           {teams.length < 2 && <p className="text-xs text-text-secondary mt-4">Necesitas al menos 2 equipos en la categoría para generar el calendario.</p>}
         </div>
       ) : (
         <div className="flex flex-col h-full">
+            {swiss && (
+                <div className="flex items-center justify-between gap-4 mb-4 bg-background border border-border rounded-md px-4 py-2">
+                    <span className="text-sm text-text-secondary">
+                        Sistema suizo · Ronda <span className="font-bold text-text-primary">{currentSwissRound}</span> de {swiss.totalRounds}
+                    </span>
+                    {currentSwissRound < swiss.totalRounds ? (
+                        <button
+                            onClick={onGenerateNextSwissRound}
+                            disabled={!canGenerateNextSwissRound}
+                            title={canGenerateNextSwissRound ? undefined : 'Termina todos los partidos de la ronda actual'}
+                            className="bg-primary text-background font-semibold py-1.5 px-3 rounded-md hover:bg-primary-dark disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors text-sm"
+                        >
+                            Generar Ronda {currentSwissRound + 1}
+                        </button>
+                    ) : (
+                        <span className="text-xs font-bold text-primary">Todas las rondas generadas</span>
+                    )}
+                </div>
+            )}
+            {onFillDates && undatedPendingCount > 0 && (
+                <div className="mb-4 bg-background border border-border rounded-md px-4 py-2 text-sm">
+                    <div className="flex items-center justify-between gap-4">
+                        <span className="text-text-secondary">{undatedPendingCount} partidos pendientes sin fecha</span>
+                        <button onClick={() => setIsFillDatesOpen(o => !o)} className="text-primary font-semibold hover:underline">
+                            {isFillDatesOpen ? 'Cerrar' : 'Rellenar fechas'}
+                        </button>
+                    </div>
+                    {isFillDatesOpen && (
+                        <div className="mt-3 space-y-2">
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                                <label className="flex items-center justify-between gap-2">
+                                    <span className="text-text-secondary">Desde:</span>
+                                    <input
+                                        type="date"
+                                        value={fillDatesOptions.startDate}
+                                        onChange={e => e.target.value && setFillDatesOptions(prev => ({ ...prev, startDate: e.target.value }))}
+                                        className="bg-gray-900 border border-border rounded-md px-2 py-1 text-sm text-text-secondary focus:outline-none focus:ring-1 focus:ring-primary"
+                                    />
+                                </label>
+                                <label className="flex items-center justify-between gap-2">
+                                    <span className="text-text-secondary">Cada (días):</span>
+                                    <input type="number" min={1} value={fillDatesOptions.intervalDays} onChange={e => handleFillDatesNumberChange('intervalDays', e.target.value)} className="w-16 bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary" />
+                                </label>
+                                <label className="flex items-center justify-between gap-2">
+                                    <span className="text-text-secondary">Máx. por equipo y día:</span>
+                                    <input type="number" min={1} value={fillDatesOptions.maxMatchesPerTeamPerDay} onChange={e => handleFillDatesNumberChange('maxMatchesPerTeamPerDay', e.target.value)} className="w-16 bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary" />
+                                </label>
+                            </div>
+                            <p className="text-xs text-text-secondary">Las jornadas se asignan en orden, saltando los días en que algún equipo o jugador no está disponible.</p>
+                            <button
+                                onClick={() => { onFillDates(fillDatesOptions); setIsFillDatesOpen(false); }}
+                                className="w-full bg-primary text-background font-semibold py-1.5 px-3 rounded-md hover:bg-primary-dark transition-colors"
+                            >
+                                Asignar fechas
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
             <div className="flex flex-col sm:flex-row justify-center items-center gap-4 mb-4 border-b border-border pb-4">
                 <div className="flex gap-2" role="group" aria-label="Filtrar por estado">
                     <button
@@ -485,6 +1054,18 @@ export const MatchScheduler: React.FC<MatchSchedulerProps> = ({ matches, teams,
                     >
                         Finalizados
                     </button>
+                    {postponedMatches.length > 0 && (
+                        <button
+                            onClick={() => setFilterStatus('postponed')}
+                            className={`px-4 py-1.5 text-sm font-semibold rounded-md transition-colors ${
+                                filterStatus === 'postponed'
+                                    ? 'bg-purple-600 text-white'
+                                    : 'bg-surface hover:bg-gray-600 text-text-secondary'
+                            }`}
+                        >
+                            Aplazados ({postponedMatches.length})
+                        </button>
+                    )}
                 </div>
                  <div className="w-full sm:w-48">
                     <label htmlFor="team-filter" className="sr-only">Filtrar por equipo</label>
@@ -500,11 +1081,78 @@ export const MatchScheduler: React.FC<MatchSchedulerProps> = ({ matches, teams,
                         ))}
                     </select>
                 </div>
+                {roundNumbers.length > 0 && (
+                    <div className="w-full sm:w-40">
+                        <label htmlFor="round-filter" className="sr-only">Filtrar por jornada</label>
+                        <select
+                            id="round-filter"
+                            value={filterRound}
+                            onChange={(e) => setFilterRound(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+                            className="w-full bg-surface border border-border rounded-md px-3 py-1.5 text-sm focus:outline-none focus:ring-1 focus:ring-primary text-text-primary"
+                        >
+                            <option value="all">{swiss ? 'Todas las rondas' : 'Todas las jornadas'}</option>
+                            {roundNumbers.map(round => (
+                                <option key={round} value={round}>{roundLabel} {round}</option>
+                            ))}
+                        </select>
+                    </div>
+                )}
             </div>
+            {filterStatus === 'postponed' && postponedSummary.length > 0 && (
+                <div className="mb-4 overflow-x-auto">
+                    <table className="w-full text-xs text-left">
+                        <thead className="text-text-secondary">
+                            <tr>
+                                <th className="p-1">Partido</th>
+                                <th className="p-1">Fecha original</th>
+                                <th className="p-1">Fecha actual</th>
+                                <th className="p-1 text-center">Cambios</th>
+                                <th className="p-1">Plazo</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {postponedSummary.map(match => (
+                                <tr key={match.id} className="border-t border-border">
+                                    <td className="p-1 text-text-primary">{match.team1.name} vs {match.team2.name}</td>
+                                    <td className="p-1">{formatShortDate(getOriginalDate(match))}</td>
+                                    <td className="p-1">{match.status === MatchStatus.Suspended && !match.date ? 'Suspendido' : formatShortDate(match.date)}</td>
+                                    <td className="p-1 text-center">{match.reschedules?.length ?? 0}</td>
+                                    <td className={`p-1 ${isDeadlineOverdue(match, todayIso()) ? 'font-bold text-red-500' : ''}`}>
+                                        {isMatchClosed(match) ? 'Jugado' : match.deadline ? formatShortDate(match.deadline) : '—'}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
             {filteredMatches.length > 0 ? (
-              <div className="flex-grow space-y-3 overflow-y-auto pr-2">
-                {filteredMatches.map((match) => (
-                  <MatchCard key={match.id} match={match} players={players} onUpdateMatch={onUpdateMatch} />
+              <div className="flex-grow space-y-4 overflow-y-auto pr-2">
+                {roundGroups.map(({ round, matches: roundMatches }) => {
+                  const byes = round !== null ? describeRoundByes(round) : '';
+                  return (
+                    <div key={round ?? 'sin-jornada'} className="space-y-3">
+                      {round !== null && (
+                        <div className="flex items-baseline justify-between border-b border-border pb-1">
+                          <h3 className="text-sm font-bold uppercase tracking-wide text-primary">{roundLabel} {round}</h3>
+                          {byes && (
+                            <span className="text-xs text-text-secondary">Descansa: {byes}</span>
+                          )}
+                        </div>
+                      )}
+                      {roundMatches.map((match) => (
+                        <MatchCard key={match.id} match={match} teams={teams} players={players} rules={scoring} slotMinutes={slotMinutes} groupName={getGroupName(match)} categoryName={categoryName} courtName={getCourtName(match)} hasScheduleConflict={conflictingMatchIds.has(match.id)} isFocused={matchFocus?.matchId === match.id} officials={officials} officialWarnings={getOfficialWarnings(match)} teamClubs={teamClubs} sanctions={sanctions} suspendedPlayers={suspensions.get(match.id) ?? []} unlicensedPlayers={unlicensed.get(match.id) ?? []} licenceCheck={licenceCheck} onAddSanction={onAddSanction} onUpdateMatch={onUpdateMatch} onRescheduleMatch={onRescheduleMatch} />
+                      ))}
+                    </div>
+                  );
+                })}
+                {knockoutGroups.map(({ name, matches: roundMatches }) => (
+                  <div key={name} className="space-y-3">
+                    <h3 className="text-sm font-bold uppercase tracking-wide text-primary border-b border-border pb-1">{name}</h3>
+                    {roundMatches.map((match) => (
+                      <MatchCard key={match.id} match={match} teams={teams} players={players} rules={scoring} slotMinutes={slotMinutes} categoryName={categoryName} courtName={getCourtName(match)} hasScheduleConflict={conflictingMatchIds.has(match.id)} isFocused={matchFocus?.matchId === match.id} officials={officials} officialWarnings={getOfficialWarnings(match)} teamClubs={teamClubs} sanctions={sanctions} suspendedPlayers={suspensions.get(match.id) ?? []} unlicensedPlayers={unlicensed.get(match.id) ?? []} licenceCheck={licenceCheck} onAddSanction={onAddSanction} onUpdateMatch={onUpdateMatch} onRescheduleMatch={onRescheduleMatch} />
+                    ))}
+                  </div>
                 ))}
               </div>
             ) : (
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { Match, MatchStatus, MatchSheet, MatchSheetSigner, Official, Player, Team } from '../types';
+import { getOfficialName } from '../utils/officialUtils';
+import { SignaturePad } from './SignaturePad';
+import { PdfIcon } from './icons';
+
+// Make sure jspdf is globally available from the script tag
+declare const jspdf: any;
+
+interface MatchSheetDialogProps {
+  match: Match;
+  teams: Team[];
+  players: Player[];
+  officials: Official[];
+  categoryName?: string;
+  courtName?: string;
+  statusLabel: string;
+  onSave: (sheet: MatchSheet) => void;
+  onClose: () => void;
+}
+
+const SIGNER_LABELS: Record<MatchSheetSigner, string> = {
+  captain1: 'Capitán local',
+  captain2: 'Capitán visitante',
+  referee: 'Árbitro',
+};
+
+const SIGNERS: MatchSheetSigner[] = ['captain1', 'captain2', 'referee'];
+
+const inputClassName = "bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+
+export const MatchSheetDialog: React.FC<MatchSheetDialogProps> = ({ match, teams, players, officials, categoryName, courtName, statusLabel, onSave, onClose }) => {
+  const [sheet, setSheet] = useState<MatchSheet>(match.sheet ?? { startTime: match.time, signatures: {} });
+  const referee = officials.find(o => o.id === match.refereeId);
+  const scorekeeper = officials.find(o => o.id === match.scorekeeperId);
+  const [signerNames, setSignerNames] = useState<Record<MatchSheetSigner, string>>({
+    captain1: '',
+    captain2: '',
+    referee: referee ? getOfficialName(referee) : '',
+  });
+
+  // The registered roster, falling back to the team as it was when the match was created
+  const getRoster = (team: Team) => {
+    const playerIds = teams.find(t => t.id === team.id)?.playerIds ?? team.playerIds;
+    return players.filter(p => playerIds.includes(p.id));
+  };
+  const rosters = { team1: getRoster(match.team1), team2: getRoster(match.team2) };
+  const playedSets = match.sets.filter(set => set.team1 !== null || set.team2 !== null);
+  const dateLabel = match.date ? new Date(match.date + 'T00:00:00').toLocaleDateString('es-ES') : 'Sin fecha';
+  const incidents = [
+    match.status !== MatchStatus.Pending && match.status !== MatchStatus.Finished ? `${statusLabel}${match.statusReason ? `: ${match.statusReason}` : ''}` : '',
+    match.reschedules?.length ? `Partido reprogramado ${match.reschedules.length} ${match.reschedules.length === 1 ? 'vez' : 'veces'}` : '',
+  ].filter(Boolean);
+  const isFullySigned = SIGNERS.every(signer => sheet.signatures[signer]);
+
+  const handleSign = (signer: MatchSheetSigner, image: string) => {
+    setSheet(prev => ({
+      ...prev,
+      signatures: { ...prev.signatures, [signer]: { name: signerNames[signer].trim(), image, signedAt: new Date().toISOString() } },
+    }));
+  };
+
+  const handleRemoveSignature = (signer: MatchSheetSigner) => {
+    setSheet(prev => {
+      const { [signer]: _, ...signatures } = prev.signatures;
+      return { ...prev, signatures };
+    });
+  };
+
+  const handleExportToPdf = () => {
+    if (typeof jspdf === 'undefined') {
+      alert("La librería de exportación no está disponible.");
+      return;
+    }
+    const { jsPDF } = jspdf;
+    const doc = new jsPDF();
+    const pageW = doc.internal.pageSize.getWidth();
+    const headStyles = { fillColor: [209, 213, 219], textColor: [49, 49, 49], fontStyle: 'bold' };
+
+    doc.setFontSize(16);
+    doc.text('ACTA DE PARTIDO', pageW / 2, 15, { align: 'center' });
+    doc.setFontSize(10);
+    doc.text([
+      `Categoría: ${categoryName || '-'}${match.round ? `   Jornada: ${match.round}` : ''}`,
+      `Fecha: ${dateLabel}   Pista: ${courtName || '-'}   Inicio: ${sheet.startTime || '-'}   Fin: ${sheet.endTime || '-'}`,
+      `Árbitro: ${referee ? getOfficialName(referee) : '-'}   Anotador: ${scorekeeper ? getOfficialName(scorekeeper) : '-'}`,
+    ], 14, 25);
+
+    let startY = 40;
+    (['team1', 'team2'] as const).forEach(side => {
+      (doc as any).autoTable({
+        startY,
+        head: [[match[side].name, 'DNI']],
+        body: rosters[side].length > 0 ? rosters[side].map(p => [`${p.firstName} ${p.lastName}`, p.idCard]) : [['Sin jugadores inscritos', '']],
+        headStyles,
+      });
+      startY = (doc as any).lastAutoTable.finalY + 6;
+    });
+
+    (doc as any).autoTable({
+      startY,
+      head: [['Set', match.team1.name, match.team2.name]],
+      body: playedSets.map((set, i) => [i + 1, set.team1 ?? '-', set.team2 ?? '-']),
+      headStyles,
+      styles: { halign: 'center' },
+    });
+    startY = (doc as any).lastAutoTable.finalY + 8;
+
+    doc.text(`Ganador: ${match.winner?.name || '-'}`, 14, startY);
+    startY += 6;
+    doc.text(`Incidencias: ${incidents.length > 0 ? incidents.join('. ') : 'Ninguna'}`, 14, startY);
+    startY += 6;
+    const observations = doc.splitTextToSize(`Observaciones: ${sheet.observations || 'Ninguna'}`, pageW - 28);
+    doc.text(observations, 14, startY);
+    startY += observations.length * 5 + 6;
+
+    if (startY > doc.internal.pageSize.getHeight() - 50) {
+      doc.addPage();
+      startY = 20;
+    }
+    const columnW = (pageW - 28) / SIGNERS.length;
+    SIGNERS.forEach((signer, i) => {
+      const x = 14 + i * columnW;
+      const signature = sheet.signatures[signer];
+      if (signature) doc.addImage(signature.image, signature.image.startsWith('data:image/jpeg') ? 'JPEG' : 'PNG', x, startY, columnW - 6, (columnW - 6) * 120 / 320);
+      doc.line(x, startY + 24, x + columnW - 6, startY + 24);
+      doc.text(SIGNER_LABELS[signer], x, startY + 29);
+      if (signature?.name) doc.text(signature.name, x, startY + 34);
+    });
+
+    doc.save(`acta_${match.team1.name}_${match.team2.name}`.replace(/\s+/g, '_').toLowerCase() + '.pdf');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-70 z-50 flex justify-center items-start p-4 overflow-y-auto" aria-modal="true" role="dialog" onClick={onClose}>
+      <div className="bg-surface rounded-lg shadow-xl p-6 w-full max-w-3xl space-y-4" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-xl font-bold text-text-primary">Acta del partido</h2>
+            <p className="text-sm text-text-secondary">
+              {categoryName}{match.round ? ` · Jornada ${match.round}` : ''} · {dateLabel}{courtName ? ` · ${courtName}` : ''}
+            </p>
+          </div>
+          {isFullySigned && <span className="text-xs font-bold px-2 py-1 rounded-full bg-green-500 text-white">Firmada</span>}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          {(['team1', 'team2'] as const).map(side => (
+            <div key={side}>
+              <h3 className="font-bold text-text-primary mb-1">{match[side].name}</h3>
+              <ul className="text-sm text-text-secondary space-y-0.5">
+                {rosters[side].map(p => <li key={p.id}>{p.firstName} {p.lastName} · {p.idCard}</li>)}
+                {rosters[side].length === 0 && <li>Sin jugadores inscritos</li>}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <div className="text-sm text-text-secondary space-y-1">
+          <p>
+            Resultado: {playedSets.length > 0 ? playedSets.map(set => `${set.team1 ?? '-'}-${set.team2 ?? '-'}`).join(', ') : 'sin resultado'}
+            {match.winner && <> · Ganador: <span className="font-bold text-primary">{match.winner.name}</span></>}
+          </p>
+          <p>Árbitro: {referee ? getOfficialName(referee) : '-'} · Anotador: {scorekeeper ? getOfficialName(scorekeeper) : '-'}</p>
+          {incidents.length > 0 && <p className="text-yellow-400">Incidencias: {incidents.join('. ')}</p>}
+        </div>
+
+        <div className="flex gap-4 text-sm">
+          <label className="flex items-center gap-2 text-text-secondary">
+            Inicio
+            <input type="time" value={sheet.startTime || ''} onChange={e => setSheet(prev => ({ ...prev, startTime: e.target.value || undefined }))} className={inputClassName} />
+          </label>
+          <label className="flex items-center gap-2 text-text-secondary">
+            Fin
+            <input type="time" value={sheet.endTime || ''} onChange={e => setSheet(prev => ({ ...prev, endTime: e.target.value || undefined }))} className={inputClassName} />
+          </label>
+        </div>
+        <textarea
+          value={sheet.observations || ''}
+          onChange={e => setSheet(prev => ({ ...prev, observations: e.target.value || undefined }))}
+          placeholder="Observaciones del árbitro"
+          rows={3}
+          className={`${inputClassName} w-full`}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {SIGNERS.map(signer => {
+            const signature = sheet.signatures[signer];
+            const roster = signer === 'captain1' ? rosters.team1 : signer === 'captain2' ? rosters.team2 : null;
+            return (
+              <div key={signer} className="space-y-2">
+                <p className="text-sm font-semibold text-text-primary">{SIGNER_LABELS[signer]}</p>
+                {signature ? (
+                  <>
+                    <img src={signature.image} alt={`Firma de ${signature.name || SIGNER_LABELS[signer]}`} className="w-full max-w-xs bg-white rounded-md" />
+                    <p className="text-xs text-text-secondary">{signature.name} · {new Date(signature.signedAt).toLocaleString('es-ES')}</p>
+                    <button type="button" onClick={() => handleRemoveSignature(signer)} className="text-xs text-red-400 hover:text-red-300">
+                      Quitar firma
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    {roster ? (
+                      <select value={signerNames[signer]} onChange={e => setSignerNames(prev => ({ ...prev, [signer]: e.target.value }))} className={`${inputClassName} w-full`}>
+                        <option value="">Nombre del capitán</option>
+                        {roster.map(p => <option key={p.id} value={`${p.firstName} ${p.lastName}`}>{p.firstName} {p.lastName}</option>)}
+                      </select>
+                    ) : (
+                      <input type="text" value={signerNames[signer]} onChange={e => setSignerNames(prev => ({ ...prev, [signer]: e.target.value }))} placeholder="Nombre del árbitro" className={`${inputClassName} w-full`} />
+                    )}
+                    <SignaturePad onSign={image => handleSign(signer, image)} />
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-border pt-4">
+          <button onClick={handleExportToPdf} className="flex items-center gap-2 bg-gray-600 text-text-primary font-semibold py-2 px-4 rounded-md hover:bg-gray-500 transition-colors">
+            <PdfIcon className="w-5 h-5" />
+            PDF
+          </button>
+          <button onClick={onClose} className="bg-gray-600 text-text-primary font-semibold py-2 px-4 rounded-md hover:bg-gray-500 transition-colors">
+            Cancelar
+          </button>
+          <button onClick={() => { onSave(sheet); onClose(); }} className="bg-primary text-background font-semibold py-2 px-4 rounded-md hover:bg-primary-dark transition-colors">
+            Guardar acta
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
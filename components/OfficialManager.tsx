@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { Official, OfficialRole, Team, Match, Category, Court } from '../types';
+import { TrashIcon, PlusIcon, PencilIcon, PdfIcon } from './icons';
+import { ConfirmationDialog } from './ConfirmationDialog';
+import { OFFICIAL_ROLE_LABELS, getOfficialAssignments, getOfficialName } from '../utils/officialUtils';
+
+// Make sure jspdf is globally available from the script tag
+declare const jspdf: any;
+
+interface OfficialManagerProps {
+  officials: Official[];
+  teams: Team[];
+  matches: Match[];
+  categories: Category[];
+  courts: Court[];
+  onAddOfficial: (officialData: Omit<Official, 'id'>) => void;
+  onUpdateOfficial: (id: string, officialData: Omit<Official, 'id'>) => void;
+  onDeleteOfficial: (id: string) => void;
+}
+
+const initialFormState: Omit<Official, 'id'> = {
+  firstName: '',
+  lastName: '',
+  roles: ['referee', 'scorekeeper'],
+  teamIds: [],
+};
+
+export const OfficialManager: React.FC<OfficialManagerProps> = ({ officials, teams, matches, categories, courts, onAddOfficial, onUpdateOfficial, onDeleteOfficial }) => {
+  const [formData, setFormData] = useState(initialFormState);
+  const [editingOfficialId, setEditingOfficialId] = useState<string | null>(null);
+  const [officialToDelete, setOfficialToDelete] = useState<Official | null>(null);
+
+  const isEditing = editingOfficialId !== null;
+  const isFormValid = formData.firstName.trim() !== '' && formData.lastName.trim() !== '' && formData.roles.length > 0;
+
+  const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter(i => i !== item) : [...list, item]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isFormValid) return;
+    const officialData = { ...formData, firstName: formData.firstName.trim(), lastName: formData.lastName.trim() };
+    if (isEditing) {
+      onUpdateOfficial(editingOfficialId, officialData);
+    } else {
+      onAddOfficial(officialData);
+    }
+    resetForm();
+  };
+
+  const handleEdit = (official: Official) => {
+    setEditingOfficialId(official.id);
+    setFormData({ firstName: official.firstName, lastName: official.lastName, roles: official.roles, teamIds: official.teamIds });
+  };
+
+  const resetForm = () => {
+    setFormData(initialFormState);
+    setEditingOfficialId(null);
+  };
+
+  const handleConfirmDelete = () => {
+    if (officialToDelete) {
+      onDeleteOfficial(officialToDelete.id);
+    }
+    setOfficialToDelete(null);
+  };
+
+  const handleExportToPdf = (official: Official) => {
+    if (typeof jspdf === 'undefined') {
+      alert("La librería de exportación no está disponible.");
+      return;
+    }
+    const { jsPDF } = jspdf;
+    const doc = new jsPDF();
+    doc.text(`Designaciones - ${getOfficialName(official)}`, 14, 15);
+
+    const body = getOfficialAssignments(official, matches).map(({ match, role }) => [
+      match.date ? new Date(match.date + 'T00:00:00').toLocaleDateString('es-ES') : 'Sin fecha',
+      match.time || '',
+      courts.find(c => c.id === match.courtId)?.name || '',
+      categories.find(c => c.id === match.categoryId)?.name || '',
+      `${match.team1.name} vs ${match.team2.name}`,
+      OFFICIAL_ROLE_LABELS[role],
+    ]);
+
+    (doc as any).autoTable({
+      startY: 20,
+      head: [['Fecha', 'Hora', 'Pista', 'Categoría', 'Partido', 'Función']],
+      body,
+      headStyles: { fillColor: [209, 213, 219], textColor: [49, 49, 49], fontStyle: 'bold' },
+    });
+    doc.save(`designaciones_${getOfficialName(official).replace(/\s+/g, '_').toLowerCase()}.pdf`);
+  };
+
+  return (
+    <>
+    <ConfirmationDialog
+        isOpen={!!officialToDelete}
+        onClose={() => setOfficialToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        title="Confirmar Eliminación de Oficial"
+    >
+        <p>¿Estás seguro de que quieres eliminar a <strong>{officialToDelete && getOfficialName(officialToDelete)}</strong>?</p>
+        <p className="text-sm text-yellow-400 mt-2">Se quitará de todos los partidos a los que está asignado.</p>
+    </ConfirmationDialog>
+
+    <div className="flex flex-col h-full">
+      <form onSubmit={handleSubmit} className="mb-4 border-b border-border pb-4 space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+            <input type="text" value={formData.firstName} onChange={e => setFormData(prev => ({ ...prev, firstName: e.target.value }))} placeholder="Nombre" className="bg-gray-900 border border-border rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary" />
+            <input type="text" value={formData.lastName} onChange={e => setFormData(prev => ({ ...prev, lastName: e.target.value }))} placeholder="Apellido" className="bg-gray-900 border border-border rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary" />
+        </div>
+        <div className="flex gap-4 text-sm">
+            {(Object.keys(OFFICIAL_ROLE_LABELS) as OfficialRole[]).map(role => (
+                <label key={role} className="flex items-center gap-2 text-text-secondary cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={formData.roles.includes(role)}
+                        onChange={() => setFormData(prev => ({ ...prev, roles: toggle(prev.roles, role) }))}
+                        className="form-checkbox h-4 w-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary"
+                    />
+                    {OFFICIAL_ROLE_LABELS[role]}
+                </label>
+            ))}
+        </div>
+        {teams.length > 0 && (
+            <div>
+                <p className="text-sm text-text-secondary mb-1">Equipos a los que pertenece (no podrá oficiar sus partidos):</p>
+                <div className="grid grid-cols-2 gap-2 max-h-24 overflow-y-auto">
+                    {teams.map(team => (
+                        <label key={team.id} className={`flex items-center gap-2 p-2 rounded-md cursor-pointer transition-colors ${formData.teamIds.includes(team.id) ? 'bg-primary text-background' : 'bg-gray-900 hover:bg-gray-800'}`}>
+                            <input
+                                type="checkbox"
+                                checked={formData.teamIds.includes(team.id)}
+                                onChange={() => setFormData(prev => ({ ...prev, teamIds: toggle(prev.teamIds, team.id) }))}
+                                className="form-checkbox h-4 w-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary"
+                            />
+                            <span className="text-sm font-medium truncate">{team.name}</span>
+                        </label>
+                    ))}
+                </div>
+            </div>
+        )}
+        <div className="flex gap-2">
+            <button
+                type="submit"
+                disabled={!isFormValid}
+                className="flex-grow flex items-center justify-center gap-2 bg-primary text-background font-bold py-2 px-4 rounded-md hover:bg-primary-dark disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+                {isEditing ? 'Actualizar Oficial' : 'Añadir Oficial'}
+                {!isEditing && <PlusIcon className="w-4 h-4" />}
+            </button>
+            {isEditing && (
+                <button type="button" onClick={resetForm} className="bg-gray-600 text-text-primary font-bold py-2 px-4 rounded-md hover:bg-gray-500 transition-colors">
+                    Cancelar
+                </button>
+            )}
+        </div>
+      </form>
+      <div className="flex-grow overflow-y-auto pr-2">
+        {officials.length > 0 ? (
+            <ul className="space-y-2">
+                {officials.map(official => {
+                    const assignmentCount = getOfficialAssignments(official, matches).length;
+                    return (
+                        <li key={official.id} className="flex justify-between items-start bg-background p-3 rounded-md border border-border">
+                            <div>
+                                <p className="font-semibold text-text-primary">{getOfficialName(official)}</p>
+                                <p className="text-xs text-text-secondary mt-1">
+                                    {official.roles.map(role => OFFICIAL_ROLE_LABELS[role]).join(', ')} · {assignmentCount} {assignmentCount === 1 ? 'partido' : 'partidos'}
+                                </p>
+                                {official.teamIds.length > 0 && (
+                                    <p className="text-xs text-text-secondary">
+                                        Equipos: {official.teamIds.map(id => teams.find(t => t.id === id)?.name).filter(Boolean).join(', ')}
+                                    </p>
+                                )}
+                            </div>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                                <button
+                                    onClick={() => handleExportToPdf(official)}
+                                    disabled={assignmentCount === 0}
+                                    className="text-text-secondary hover:text-primary p-1 rounded-full hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                    aria-label={`Exportar partidos de ${getOfficialName(official)} a PDF`}
+                                    title="Exportar designaciones a PDF"
+                                >
+                                    <PdfIcon className="w-5 h-5" />
+                                </button>
+                                <button
+                                    onClick={() => handleEdit(official)}
+                                    className="text-blue-400 hover:text-blue-300 p-1 rounded-full hover:bg-gray-700 transition-colors"
+                                    aria-label={`Editar ${getOfficialName(official)}`}
+                                >
+                                    <PencilIcon className="w-5 h-5" />
+                                </button>
+                                <button
+                                    onClick={() => setOfficialToDelete(official)}
+                                    className="text-red-500 hover:text-red-400 p-1 rounded-full hover:bg-gray-700 transition-colors"
+                                    aria-label={`Eliminar ${getOfficialName(official)}`}
+                                >
+                                    <TrashIcon className="w-5 h-5" />
+                                </button>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        ) : (
+            <p className="text-center text-text-secondary py-4">Añade árbitros y anotadores para asignarlos a los partidos.</p>
+        )}
+      </div>
+    </div>
+    </>
+  );
+};
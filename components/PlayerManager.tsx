@@ -1,13 +1,20 @@
 import React, { useState, useRef, useMemo } from 'react';
-import { Player } from '../types';
+import { Player, Gender, Club, PlayerLicence, UnavailabilityWindow } from '../types';
 import { TrashIcon, PlusIcon, PencilIcon, ExportIcon, ImportIcon, RefreshIcon } from './icons';
 import { ConfirmationDialog } from './ConfirmationDialog';
+import { AvailabilityEditor } from './AvailabilityEditor';
+import { LicenceEditor } from './LicenceEditor';
+import { LicenceReport } from './LicenceReport';
+import { GENDER_LABELS } from '../utils/eligibilityUtils';
+import { describeLicenceIssues, getExpiringSoon, getLicenceIssues } from '../utils/licenceUtils';
+import { todayIso } from '../utils/dateUtils';
 
 // Make sure XLSX is globally available from the script tag
 declare const XLSX: any;
 
 interface PlayerManagerProps {
   players: Player[];
+  clubs: Club[];
   onAddPlayer: (playerData: Omit<Player, 'id'>) => void;
   onUpdatePlayer: (id: string, playerData: Omit<Player, 'id'>) => void;
   onDeletePlayer: (id: string) => void;
@@ -20,7 +27,11 @@ const initialFormState = {
   lastName: '',
   idCard: '',
   birthDate: '',
+  gender: '' as Gender | '',
+  clubId: '',
   photoUrl: '',
+  licence: undefined as PlayerLicence | undefined,
+  unavailability: [] as UnavailabilityWindow[],
 };
 
 const calculateAge = (birthDateString: string): string => {
@@ -42,7 +53,7 @@ const calculateAge = (birthDateString: string): string => {
 };
 
 
-export const PlayerManager: React.FC<PlayerManagerProps> = ({ players, onAddPlayer, onUpdatePlayer, onDeletePlayer, onImportPlayers, onViewPlayerProfile }) => {
+export const PlayerManager: React.FC<PlayerManagerProps> = ({ players, clubs, onAddPlayer, onUpdatePlayer, onDeletePlayer, onImportPlayers, onViewPlayerProfile }) => {
   const [newPlayerData, setNewPlayerData] = useState(initialFormState);
   const [editingPlayerId, setEditingPlayerId] = useState<string | null>(null);
   const [playerToDelete, setPlayerToDelete] = useState<Player | null>(null);
@@ -53,7 +64,7 @@ export const PlayerManager: React.FC<PlayerManagerProps> = ({ players, onAddPlay
 
   const isEditing = editingPlayerId !== null;
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setNewPlayerData(prev => ({ ...prev, [name]: value }));
   };
@@ -71,12 +82,13 @@ export const PlayerManager: React.FC<PlayerManagerProps> = ({ players, onAddPlay
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (Object.values(newPlayerData).some(value => typeof value === 'string' && value.trim() === '' && value !== newPlayerData.photoUrl)) return;
+    if (!isFormValid) return;
 
+    const { gender, clubId, licence, ...playerData } = newPlayerData;
     if (isEditing) {
-      onUpdatePlayer(editingPlayerId, newPlayerData);
+      onUpdatePlayer(editingPlayerId, { ...playerData, gender: gender || undefined, clubId: clubId || undefined, licence });
     } else {
-      onAddPlayer(newPlayerData);
+      onAddPlayer({ ...playerData, ...(gender && { gender }), ...(clubId && { clubId }), ...(licence && { licence }) });
     }
     
     setNewPlayerData(initialFormState);
@@ -90,7 +102,11 @@ export const PlayerManager: React.FC<PlayerManagerProps> = ({ players, onAddPlay
       lastName: player.lastName,
       idCard: player.idCard,
       birthDate: player.birthDate,
+      gender: player.gender || '',
+      clubId: player.clubId || '',
       photoUrl: player.photoUrl || '',
+      licence: player.licence,
+      unavailability: player.unavailability || [],
     });
   };
 
@@ -106,11 +122,24 @@ export const PlayerManager: React.FC<PlayerManagerProps> = ({ players, onAddPlay
     setPlayerToDelete(null);
   };
 
+  const renderLicenceWarning = (player: Player) => {
+    const issues = getLicenceIssues(player, todayIso());
+    if (issues.length > 0) return <p className="text-xs text-red-400">⚠ {describeLicenceIssues(issues)}</p>;
+    const expiring = getExpiringSoon(player, todayIso());
+    if (expiring.length === 0) return null;
+    return (
+      <p className="text-xs text-yellow-400">
+        ⚠ {expiring.map(item => `${item.kind === 'licence' ? 'Licencia' : 'Certificado médico'} caduca el ${new Date(item.expiresOn + 'T00:00:00').toLocaleDateString('es-ES')}`).join('; ')}
+      </p>
+    );
+  };
+
   const handleExport = () => {
     const worksheet = XLSX.utils.json_to_sheet(players.map(p => ({
       'Nombre Completo': `${p.firstName} ${p.lastName}`,
       'Carnet de Identidad': p.idCard,
       'Fecha de Nacimiento': p.birthDate,
+      'Sexo': p.gender ? GENDER_LABELS[p.gender] : '',
     })));
     const workbook = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(workbook, worksheet, "Jugadores");
@@ -152,6 +181,9 @@ export const PlayerManager: React.FC<PlayerManagerProps> = ({ players, onAddPlay
                     idCard: row['Carnet de Identidad'] || row['carnet de identidad'] || '',
                 };
 
+                const gender = (Object.keys(GENDER_LABELS) as Gender[]).find(g => GENDER_LABELS[g].toLowerCase() === String(row['Sexo'] || row['sexo'] || '').trim().toLowerCase());
+                if (gender) playerRecord.gender = gender;
+
                 if (birthDateRaw instanceof Date) {
                     const date = birthDateRaw;
                     date.setMinutes(date.getMinutes() + date.getTimezoneOffset());
@@ -306,6 +338,16 @@ export const PlayerManager: React.FC<PlayerManagerProps> = ({ players, onAddPlay
                       <input type="text" name="lastName" value={newPlayerData.lastName} onChange={handleInputChange} placeholder="Apellido" className="bg-gray-900 border border-border rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary" required />
                       <input type="text" name="idCard" value={newPlayerData.idCard} onChange={handleInputChange} placeholder="Carnet de Identidad" className="bg-gray-900 border border-border rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary" required />
                       <input type="date" name="birthDate" value={newPlayerData.birthDate} onChange={handleInputChange} placeholder="Fecha de Nacimiento" className="bg-gray-900 border border-border rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary text-text-secondary" required />
+                      <select name="gender" value={newPlayerData.gender} onChange={handleInputChange} className="bg-gray-900 border border-border rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary text-text-secondary">
+                          <option value="">Sexo (opcional)</option>
+                          {(Object.keys(GENDER_LABELS) as Gender[]).map(g => <option key={g} value={g}>{GENDER_LABELS[g]}</option>)}
+                      </select>
+                      {clubs.length > 0 && (
+                          <select name="clubId" value={newPlayerData.clubId} onChange={handleInputChange} className="bg-gray-900 border border-border rounded-md px-3 py-2 focus:outline-none focus:ring-1 focus:ring-primary text-text-secondary">
+                              <option value="">Sin club</option>
+                              {clubs.map(club => <option key={club.id} value={club.id}>{club.name}</option>)}
+                          </select>
+                      )}
                   </div>
               </div>
               <div className="flex-shrink-0 w-full sm:w-28 flex flex-col items-center gap-2">
@@ -322,6 +364,11 @@ export const PlayerManager: React.FC<PlayerManagerProps> = ({ players, onAddPlay
                   </button>
               </div>
           </div>
+          <AvailabilityEditor windows={newPlayerData.unavailability} onChange={unavailability => setNewPlayerData(prev => ({ ...prev, unavailability }))} />
+          <details className="text-sm">
+              <summary className="text-sm text-text-secondary cursor-pointer mb-1">Licencia y documentación</summary>
+              <LicenceEditor licence={newPlayerData.licence} onChange={licence => setNewPlayerData(prev => ({ ...prev, licence }))} />
+          </details>
           <div className="flex gap-2">
             <button
               type="submit"
@@ -343,6 +390,8 @@ export const PlayerManager: React.FC<PlayerManagerProps> = ({ players, onAddPlay
           </div>
         </form>
 
+        <LicenceReport players={players} />
+
         <div className="mb-2">
             <input
                 type="text"
@@ -375,7 +424,8 @@ export const PlayerManager: React.FC<PlayerManagerProps> = ({ players, onAddPlay
                       )}
                       <div>
                           <p className="font-semibold text-text-primary">{player.firstName} {player.lastName}</p>
-                          <p className="text-sm text-text-secondary">C.I: {player.idCard} &bull; {calculateAge(player.birthDate)}</p>
+                          <p className="text-sm text-text-secondary">C.I: {player.idCard} &bull; {calculateAge(player.birthDate)}{player.clubId && clubs.some(c => c.id === player.clubId) && <> &bull; {clubs.find(c => c.id === player.clubId)!.name}</>}</p>
+                          {renderLicenceWarning(player)}
                       </div>
                   </div>
                   <div className="flex items-center gap-2 pr-3">
@@ -1,11 +1,14 @@
 import React from 'react';
-import { Player, Team, Match, MatchStatus, MatchSet } from '../types';
+import { Player, Team, Match, MatchSet } from '../types';
 import { ChevronDoubleLeftIcon, UsersIcon, ListIcon } from './icons';
+import { isMatchDecided } from '../utils/scoringUtils';
+import { PlayerStats, formatWinRate } from '../utils/playerStatsUtils';
 
 interface PlayerProfileProps {
   player: Player;
   teams: Team[];
   matches: Match[];
+  stats: PlayerStats; // across all their teams and categories
   onBack: () => void;
 }
 
@@ -22,8 +25,8 @@ const calculateAge = (birthDateString: string): string => {
     return age >= 0 ? `${age} años` : 'Fecha inválida';
 };
 
-export const PlayerProfile: React.FC<PlayerProfileProps> = ({ player, teams, matches, onBack }) => {
-  const finishedMatches = matches.filter(m => m.status === MatchStatus.Finished);
+export const PlayerProfile: React.FC<PlayerProfileProps> = ({ player, teams, matches, stats, onBack }) => {
+  const finishedMatches = matches.filter(isMatchDecided);
 
   return (
     <div className="bg-surface rounded-xl shadow-lg w-full h-full flex flex-col p-6 animate-fade-in">
@@ -58,6 +61,22 @@ export const PlayerProfile: React.FC<PlayerProfileProps> = ({ player, teams, mat
         </div>
       </div>
 
+      <div className="grid grid-cols-3 md:grid-cols-6 gap-3 mb-6">
+        {[
+          { label: 'Partidos', value: stats.played },
+          { label: 'Victorias', value: `${stats.wins} (${formatWinRate(stats.winRate)})` },
+          { label: 'Derrotas', value: stats.losses },
+          { label: 'Sets', value: `${stats.setsWon}-${stats.setsLost}` },
+          { label: 'Puntos', value: `${stats.pointsFor}-${stats.pointsAgainst}` },
+          { label: 'Mejor racha', value: stats.longestWinStreak },
+        ].map(item => (
+          <div key={item.label} className="bg-background rounded-lg p-3 border border-border text-center">
+            <p className="text-xs uppercase tracking-wide text-text-secondary">{item.label}</p>
+            <p className="text-xl font-bold text-primary">{item.value}</p>
+          </div>
+        ))}
+      </div>
+
       <div className="flex-grow grid grid-cols-1 md:grid-cols-2 gap-6 overflow-hidden">
         {/* Teams Section */}
         <div className="bg-background rounded-lg p-4 flex flex-col border border-border">
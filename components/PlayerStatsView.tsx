@@ -0,0 +1,136 @@
+import React, { useState, useMemo } from 'react';
+import { Category, Match, Player, Team } from '../types';
+import { Card } from './Card';
+import { ChartBarIcon } from './icons';
+import { LeaderboardKind, MIN_MATCHES_FOR_WIN_RATE, PlayerStats, calculateAllPlayerStats, formatWinRate, getLeaderboard } from '../utils/playerStatsUtils';
+
+interface PlayerStatsViewProps {
+  players: Player[];
+  teams: Team[];
+  matches: Match[];
+  categories: Category[];
+  activeCategoryId: string | null;
+  onViewPlayerProfile: (id: string) => void;
+  isMaximized?: boolean;
+  onToggleMaximize?: () => void;
+}
+
+const LEADERBOARDS: { kind: LeaderboardKind; title: string; value: (s: PlayerStats) => string }[] = [
+  { kind: 'wins', title: 'Más victorias', value: s => `${s.wins}` },
+  { kind: 'winRate', title: `Mejor % de victorias (mín. ${MIN_MATCHES_FOR_WIN_RATE} partidos)`, value: s => formatWinRate(s.winRate) },
+];
+
+const inputClassName = "bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+
+export const PlayerStatsView: React.FC<PlayerStatsViewProps> = ({ players, teams, matches, categories, activeCategoryId, onViewPlayerProfile, isMaximized, onToggleMaximize }) => {
+  const [categoryId, setCategoryId] = useState(activeCategoryId || '');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const stats = useMemo(
+    () => calculateAllPlayerStats(players, teams, matches, categories, { categoryId: categoryId || undefined, from: from || undefined, to: to || undefined })
+      .filter(s => s.played > 0)
+      .sort((a, b) => b.wins - a.wins || b.winRate - a.winRate || a.player.lastName.localeCompare(b.player.lastName)),
+    [players, teams, matches, categories, categoryId, from, to]
+  );
+
+  const playerName = (player: Player) => (
+    <button onClick={() => onViewPlayerProfile(player.id)} className="font-medium text-text-primary hover:text-primary text-left">
+      {player.firstName} {player.lastName}
+    </button>
+  );
+
+  return (
+    <Card
+        title="Estadísticas de jugadores"
+        icon={<ChartBarIcon />}
+        isMaximized={isMaximized}
+        onToggleMaximize={onToggleMaximize}
+    >
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-end gap-3 text-sm">
+          <label className="flex flex-col gap-1 text-text-secondary">
+            Categoría
+            <select value={categoryId} onChange={e => setCategoryId(e.target.value)} className={inputClassName}>
+              <option value="">Todas</option>
+              {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-text-secondary">
+            Desde
+            <input type="date" value={from} onChange={e => setFrom(e.target.value)} className={inputClassName} />
+          </label>
+          <label className="flex flex-col gap-1 text-text-secondary">
+            Hasta
+            <input type="date" value={to} onChange={e => setTo(e.target.value)} className={inputClassName} />
+          </label>
+        </div>
+
+        {stats.length > 0 ? (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {LEADERBOARDS.map(board => {
+                const leaders = getLeaderboard(stats, board.kind, 5);
+                return (
+                  <div key={board.kind} className="bg-background rounded-lg p-4 border border-border">
+                    <h3 className="text-sm font-bold uppercase tracking-wide text-primary mb-2">{board.title}</h3>
+                    {leaders.length > 0 ? (
+                      <ol className="space-y-1 text-sm">
+                        {leaders.map((s, i) => (
+                          <li key={s.player.id} className="flex items-center justify-between gap-2">
+                            <span className="flex items-center gap-2">
+                              <span className="w-5 text-text-secondary text-right">{i + 1}.</span>
+                              {playerName(s.player)}
+                            </span>
+                            <span className="font-bold text-primary">{board.value(s)}</span>
+                          </li>
+                        ))}
+                      </ol>
+                    ) : (
+                      <p className="text-sm text-text-secondary">Nadie cumple todavía el mínimo.</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="border-b border-border text-text-secondary uppercase">
+                  <tr>
+                    <th className="py-2 px-3">Jugador</th>
+                    <th className="py-2 px-3 text-center">PJ</th>
+                    <th className="py-2 px-3 text-center">G</th>
+                    <th className="py-2 px-3 text-center">P</th>
+                    <th className="py-2 px-3 text-center">%</th>
+                    <th className="py-2 px-3 text-center" title="Sets ganados - perdidos">Sets</th>
+                    <th className="py-2 px-3 text-center" title="Puntos a Favor">PF</th>
+                    <th className="py-2 px-3 text-center" title="Puntos en Contra">PC</th>
+                    <th className="py-2 px-3 text-center" title="Mejor racha de victorias">Racha</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.map(s => (
+                    <tr key={s.player.id} className="border-b border-border last:border-b-0">
+                      <td className="py-2 px-3">{playerName(s.player)}</td>
+                      <td className="py-2 px-3 text-center text-text-primary">{s.played}</td>
+                      <td className="py-2 px-3 text-center text-green-400">{s.wins}</td>
+                      <td className="py-2 px-3 text-center text-red-400">{s.losses}</td>
+                      <td className="py-2 px-3 text-center font-bold text-primary">{formatWinRate(s.winRate)}</td>
+                      <td className="py-2 px-3 text-center text-text-primary">{s.setsWon}-{s.setsLost}</td>
+                      <td className="py-2 px-3 text-center text-text-primary">{s.pointsFor}</td>
+                      <td className="py-2 px-3 text-center text-text-primary">{s.pointsAgainst}</td>
+                      <td className="py-2 px-3 text-center text-text-secondary">{s.longestWinStreak}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ) : (
+          <p className="text-center text-text-secondary py-8">No hay partidos finalizados con estos filtros.</p>
+        )}
+      </div>
+    </Card>
+  );
+};
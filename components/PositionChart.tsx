@@ -0,0 +1,56 @@
+import React from 'react';
+import { Team } from '../types';
+import { StandingsSnapshot } from '../utils/categoryStandingsUtils';
+
+interface PositionChartProps {
+  history: StandingsSnapshot[];
+  teams: Team[]; // teams of one table, in their current order
+}
+
+const LINE_COLORS = ['#facc15', '#38bdf8', '#f87171', '#4ade80', '#c084fc', '#fb923c', '#f472b6', '#2dd4bf', '#a3e635', '#94a3b8'];
+
+const WIDTH = 560;
+const ROW_HEIGHT = 28;
+const MARGIN = { top: 12, right: 16, bottom: 28, left: 32 };
+
+// Position of each team after every step, with the leader on top
+export const PositionChart: React.FC<PositionChartProps> = ({ history, teams }) => {
+  const height = MARGIN.top + MARGIN.bottom + Math.max(teams.length - 1, 1) * ROW_HEIGHT;
+  const stepWidth = (WIDTH - MARGIN.left - MARGIN.right) / Math.max(history.length - 1, 1);
+  const x = (step: number) => MARGIN.left + step * stepWidth;
+  const y = (rank: number) => MARGIN.top + (rank - 1) * ROW_HEIGHT;
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full" role="img" aria-label="Evolución de la clasificación">
+        {teams.map((_, i) => (
+          <g key={i}>
+            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(i + 1)} y2={y(i + 1)} className="stroke-gray-700" strokeDasharray="2 4" />
+            <text x={MARGIN.left - 10} y={y(i + 1) + 4} textAnchor="end" className="fill-gray-400 text-xs">{i + 1}</text>
+          </g>
+        ))}
+        {history.map((snapshot, step) => (
+          <text key={step} x={x(step)} y={height - 8} textAnchor="middle" className="fill-gray-400 text-xs">{snapshot.label}</text>
+        ))}
+        {teams.map((team, i) => {
+          const color = LINE_COLORS[i % LINE_COLORS.length];
+          const points = history.flatMap((snapshot, step) => (snapshot.ranks[team.id] ? [[x(step), y(snapshot.ranks[team.id])]] : []));
+          return (
+            <g key={team.id}>
+              <polyline points={points.map(p => p.join(',')).join(' ')} fill="none" stroke={color} strokeWidth={2} />
+              {points.map(([cx, cy], p) => <circle key={p} cx={cx} cy={cy} r={3} fill={color}><title>{team.name}</title></circle>)}
+            </g>
+          );
+        })}
+      </svg>
+      <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+        {teams.map((team, i) => (
+          <li key={team.id} className="flex items-center gap-1 text-text-secondary">
+            <span className="w-3 h-1 rounded" style={{ backgroundColor: LINE_COLORS[i % LINE_COLORS.length] }} />
+            {team.name}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Match, MatchSet, MatchUpdate, Protest, ProtestStatus, ScoringRules } from '../types';
+import { PROTEST_STATUS_LABELS, advanceProtest, fileProtest, getNextProtestStatuses } from '../utils/protestUtils';
+import { normalizeSets } from '../utils/scoringUtils';
+
+interface ProtestPanelProps {
+  match: Match;
+  rules: ScoringRules;
+  onUpdateMatch: (matchId: string, newMatchData: MatchUpdate) => void;
+}
+
+const STATUS_COLORS: Record<ProtestStatus, string> = {
+  filed: 'bg-orange-500 text-white',
+  underReview: 'bg-blue-600 text-white',
+  upheld: 'bg-green-500 text-white',
+  rejected: 'bg-gray-500 text-white',
+};
+
+const ACTION_LABELS: Record<ProtestStatus, string> = {
+  filed: 'Presentar',
+  underReview: 'Iniciar revisión',
+  upheld: 'Estimar',
+  rejected: 'Desestimar',
+};
+
+const formatSets = (sets: MatchSet[]) =>
+  sets.filter(s => s.team1 !== null || s.team2 !== null).map(s => `${s.team1 ?? '-'}-${s.team2 ?? '-'}`).join(', ') || 'sin resultado';
+
+const inputClassName = "bg-gray-900 border border-border rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary";
+
+export const ProtestPanel: React.FC<ProtestPanelProps> = ({ match, rules, onUpdateMatch }) => {
+  const [teamId, setTeamId] = useState(match.team1.id);
+  const [reason, setReason] = useState('');
+  // Drafts per protest id, so several open protests don't share them
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [correctedSets, setCorrectedSets] = useState<Record<string, MatchSet[]>>({});
+
+  const protests = match.protests || [];
+  const getTeamName = (id: string) => (id === match.team1.id ? match.team1.name : match.team2.name);
+
+  const handleFile = () => {
+    if (!reason.trim()) return;
+    onUpdateMatch(match.id, fileProtest(match, teamId, reason.trim()));
+    setReason('');
+  };
+
+  const handleAdvance = (protest: Protest, status: ProtestStatus) => {
+    const changes = advanceProtest(match, protest.id, status, notes[protest.id]?.trim() || undefined, status === 'upheld' ? correctedSets[protest.id] : undefined);
+    if (!changes) return;
+    onUpdateMatch(match.id, changes);
+    setNotes(({ [protest.id]: _, ...rest }) => rest);
+    setCorrectedSets(({ [protest.id]: _, ...rest }) => rest);
+  };
+
+  const handleCorrectedScoreChange = (protestId: string, setIndex: number, team: 'team1' | 'team2', value: string) => {
+    const sets = correctedSets[protestId];
+    if (!sets) return;
+    const score = parseInt(value, 10);
+    setCorrectedSets(prev => ({ ...prev, [protestId]: sets.map((set, i) => (i === setIndex ? { ...set, [team]: isNaN(score) ? null : Math.max(0, score) } : set)) }));
+  };
+
+  return (
+    <details className="mt-3 text-sm">
+      <summary className="cursor-pointer text-xs text-text-secondary">Reclamaciones ({protests.length})</summary>
+      <div className="mt-2 space-y-3">
+        {protests.map(protest => {
+          const nextStatuses = getNextProtestStatuses(protest);
+          const protestSets = correctedSets[protest.id];
+          return (
+            <div key={protest.id} className="bg-gray-900 rounded-md p-2 space-y-2">
+              <div className="flex justify-between items-start gap-2">
+                <p><span className="font-semibold">{getTeamName(protest.teamId)}</span>: {protest.reason}</p>
+                <span className={`text-xs font-bold px-2 py-0.5 rounded-full flex-shrink-0 ${STATUS_COLORS[protest.status]}`}>{PROTEST_STATUS_LABELS[protest.status]}</span>
+              </div>
+              <ul className="text-xs text-text-secondary space-y-0.5">
+                {protest.history.map(entry => (
+                  <li key={entry.at + entry.status}>
+                    {new Date(entry.at).toLocaleString('es-ES')} · {PROTEST_STATUS_LABELS[entry.status]}
+                    {entry.note && ` · ${entry.note}`}
+                    {entry.correctedSets && ` · Resultado corregido: ${formatSets(entry.previousSets || [])} → ${formatSets(entry.correctedSets)}`}
+                  </li>
+                ))}
+              </ul>
+              {nextStatuses.length > 0 && (
+                <div className="space-y-2">
+                  <input type="text" value={notes[protest.id] ?? ''} onChange={e => setNotes(prev => ({ ...prev, [protest.id]: e.target.value }))} placeholder={protest.status === 'underReview' ? 'Resolución' : 'Nota (opcional)'} className={`${inputClassName} w-full`} />
+                  {nextStatuses.includes('upheld') && (
+                    protestSets ? (
+                      <div className="space-y-1">
+                        {protestSets.map((set, i) => (
+                          <div key={i} className="flex items-center gap-2">
+                            <span className="text-xs text-text-secondary w-12">Set {i + 1}</span>
+                            <input type="number" min="0" value={set.team1 ?? ''} onChange={e => handleCorrectedScoreChange(protest.id, i, 'team1', e.target.value)} className={`${inputClassName} w-full text-center`} />
+                            <span className="text-text-secondary">-</span>
+                            <input type="number" min="0" value={set.team2 ?? ''} onChange={e => handleCorrectedScoreChange(protest.id, i, 'team2', e.target.value)} className={`${inputClassName} w-full text-center`} />
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <button onClick={() => setCorrectedSets(prev => ({ ...prev, [protest.id]: normalizeSets(match.sets, rules) }))} className="text-xs text-text-secondary hover:text-primary">
+                        Corregir el resultado al estimar
+                      </button>
+                    )
+                  )}
+                  <div className="flex gap-2">
+                    {nextStatuses.map(status => (
+                      <button key={status} onClick={() => handleAdvance(protest, status)} className="flex-1 bg-gray-600 text-text-primary font-semibold py-1 px-2 rounded-md hover:bg-gray-500 transition-colors">
+                        {ACTION_LABELS[status]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        <div className="flex gap-2">
+          <select value={teamId} onChange={e => setTeamId(e.target.value)} className={inputClassName}>
+            <option value={match.team1.id}>{match.team1.name}</option>
+            <option value={match.team2.id}>{match.team2.name}</option>
+          </select>
+          <input type="text" value={reason} onChange={e => setReason(e.target.value)} placeholder="Motivo de la reclamación" className={`${inputClassName} flex-1 min-w-0`} />
+        </div>
+        <button onClick={handleFile} disabled={!reason.trim()} className="w-full bg-orange-600 text-white font-semibold py-1.5 px-3 rounded-md hover:bg-orange-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+          Presentar reclamación
+        </button>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { DisplaySnapshot, Match } from '../types';
+import { StandingsTable } from './StandingsTable';
+import { readStoredSnapshot, subscribeToDisplaySnapshots, getMatchesInProgress, getUpcomingMatches, getDisplayScore } from '../utils/displayUtils';
+import { getCategoryStandings } from '../utils/categoryStandingsUtils';
+import { todayIso } from '../utils/dateUtils';
+
+const ROTATION_SECONDS = 15;
+const UPCOMING_LIMIT = 8;
+
+export const PublicDisplay: React.FC = () => {
+  const [snapshot, setSnapshot] = useState<DisplaySnapshot>(readStoredSnapshot);
+  const [rotation, setRotation] = useState(0);
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => subscribeToDisplaySnapshots(setSnapshot), []);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setRotation(r => r + 1);
+      setNow(new Date());
+    }, ROTATION_SECONDS * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { categories, teams, matches, schedule } = snapshot;
+  const rankedCategories = categories.filter(c => c.teamIds.length > 0);
+  const shownCategory = rankedCategories.length > 0 ? rankedCategories[rotation % rankedCategories.length] : null;
+  const shownStandings = shownCategory ? getCategoryStandings(shownCategory, teams, matches) : null;
+
+  // In court order, with matches not on a court at the end
+  const courtOrder = (match: Match) => {
+    const index = schedule.courts.findIndex(c => c.id === match.courtId);
+    return index === -1 ? schedule.courts.length : index;
+  };
+  const today = todayIso();
+  const inProgress = getMatchesInProgress(matches, today).sort((a, b) => courtOrder(a) - courtOrder(b));
+  const upcoming = getUpcomingMatches(matches, today, UPCOMING_LIMIT);
+
+  const getCourtName = (match: Match) => schedule.courts.find(c => c.id === match.courtId)?.name;
+  const getCategoryName = (match: Match) => categories.find(c => c.id === match.categoryId)?.name;
+
+  return (
+    <div className="min-h-screen bg-black text-white p-6 flex flex-col gap-6">
+      <header className="flex justify-between items-center">
+        <h1 className="text-4xl font-extrabold text-primary">En directo</h1>
+        <p className="text-4xl font-bold tabular-nums">{now.toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' })}</p>
+      </header>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6 flex-grow">
+        <section className="xl:col-span-2 space-y-4">
+          <h2 className="text-2xl font-bold uppercase tracking-wide text-gray-300">Partidos en juego</h2>
+          {inProgress.length > 0 ? (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              {inProgress.map(match => {
+                const score = getDisplayScore(match, categories.find(c => c.id === match.categoryId));
+                return (
+                  <div key={match.id} className="bg-gray-900 border-2 border-primary rounded-xl p-5">
+                    <p className="text-xl text-gray-300 mb-3">
+                      {getCourtName(match) || 'Sin pista'} · {getCategoryName(match)} · Set {score.setNumber}
+                    </p>
+                    {(['team1', 'team2'] as const).map(side => (
+                      <div key={side} className="flex items-center justify-between gap-4 py-1">
+                        <span className="flex items-center gap-3 text-3xl font-bold truncate">
+                          <span className={`w-4 h-4 rounded-full flex-shrink-0 ${score.server === side ? 'bg-yellow-400' : 'bg-transparent'}`} />
+                          {match[side].name}
+                        </span>
+                        <span className="flex items-center gap-4">
+                          <span className="text-2xl text-gray-400 tabular-nums">{score.setsWon[side]}</span>
+                          <span className="text-6xl font-extrabold text-primary tabular-nums w-24 text-right">{score.current[side] ?? 0}</span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-2xl text-gray-400">No hay partidos en juego.</p>
+          )}
+
+          <h2 className="text-2xl font-bold uppercase tracking-wide text-gray-300 pt-4">Próximos partidos</h2>
+          {upcoming.length > 0 ? (
+            <table className="w-full text-2xl">
+              <tbody>
+                {upcoming.map(match => (
+                  <tr key={match.id} className="border-b border-gray-700">
+                    <td className="py-2 pr-4 tabular-nums text-gray-300 whitespace-nowrap">
+                      {match.date !== todayIso() && new Date(match.date + 'T00:00:00').toLocaleDateString('es-ES', { day: '2-digit', month: '2-digit' })} {match.time}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-300">{getCourtName(match)}</td>
+                    <td className="py-2 font-bold">{match.team1.name} <span className="text-gray-500">vs</span> {match.team2.name}</td>
+                    <td className="py-2 pl-4 text-right text-lg text-gray-400">{getCategoryName(match)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-2xl text-gray-400">No hay partidos programados.</p>
+          )}
+        </section>
+
+        <section>
+          {shownCategory && shownStandings && (
+            <StandingsTable
+              key={shownCategory.id}
+              standings={shownStandings.standings}
+              groupStandings={shownStandings.groupStandings}
+              qualifiersPerGroup={shownCategory.groupStage?.qualifiersPerGroup}
+              categoryName={shownCategory.name}
+              isPresentation
+            />
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
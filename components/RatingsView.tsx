@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Card } from './Card';
+import { ConfirmationDialog } from './ConfirmationDialog';
+import { TrophyIcon, TrashIcon } from './icons';
+import { INITIAL_RATING, Rating, Ratings, formatRating } from '../utils/ratingUtils';
+
+interface RatingsViewProps {
+  ratings: Ratings;
+  archivedResults: number;
+  onClearArchive: () => void;
+  isMaximized?: boolean;
+  onToggleMaximize?: () => void;
+}
+
+type View = 'teams' | 'players';
+
+const HISTORY_LIMIT = 10;
+
+const formatDelta = (delta: number) => {
+  const rounded = Math.round(delta);
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+};
+
+export const RatingsView: React.FC<RatingsViewProps> = ({ ratings, archivedResults, onClearArchive, isMaximized, onToggleMaximize }) => {
+  const [view, setView] = useState<View>('teams');
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [isClearConfirmOpen, setIsClearConfirmOpen] = useState(false);
+
+  const rows = ratings[view];
+
+  const headerActions = archivedResults > 0 && (
+    <button
+        onClick={() => setIsClearConfirmOpen(true)}
+        className="text-text-secondary hover:text-red-400 p-1 rounded-full transition-colors"
+        aria-label="Borrar historial de campeonatos anteriores"
+        title="Borrar historial de campeonatos anteriores"
+    >
+        <TrashIcon className="w-5 h-5" />
+    </button>
+  );
+
+  const renderHistory = (rating: Rating) => (
+    <ul className="text-xs text-text-secondary space-y-0.5 py-2">
+      {rating.history.slice(-HISTORY_LIMIT).reverse().map(change => (
+        <li key={change.matchId} className="flex justify-between gap-2">
+          <span>
+            {change.date ? new Date(change.date + 'T00:00:00').toLocaleDateString('es-ES') : 'Sin fecha'} · {change.won ? 'Victoria' : 'Derrota'} vs {change.opponent}
+          </span>
+          <span className="tabular-nums">
+            <span className={change.delta >= 0 ? 'text-green-400' : 'text-red-400'}>{formatDelta(change.delta)}</span> → {formatRating(change.rating)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <>
+    <ConfirmationDialog
+        isOpen={isClearConfirmOpen}
+        onClose={() => setIsClearConfirmOpen(false)}
+        onConfirm={() => { onClearArchive(); setIsClearConfirmOpen(false); }}
+        title="Borrar historial de rating"
+    >
+        <p>Se olvidarán los {archivedResults} resultados de campeonatos anteriores y el rating se calculará solo con el campeonato actual.</p>
+    </ConfirmationDialog>
+    <Card
+        title="Ranking"
+        icon={<TrophyIcon />}
+        headerActions={headerActions}
+        isMaximized={isMaximized}
+        onToggleMaximize={onToggleMaximize}
+    >
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="text-text-secondary">
+            Rating Elo desde {INITIAL_RATING} puntos{archivedResults > 0 && `, con ${archivedResults} resultados de campeonatos anteriores`}.
+          </span>
+          <div className="flex gap-1 bg-background p-1 rounded-md">
+            {[{ label: 'Equipos', value: 'teams' as View }, { label: 'Jugadores', value: 'players' as View }].map(option => (
+              <button
+                key={option.value}
+                onClick={() => setView(option.value)}
+                className={`px-3 py-1 rounded-md font-semibold transition-colors ${view === option.value ? 'bg-primary text-background' : 'text-text-secondary hover:bg-gray-600'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {rows.length > 0 ? (
+          <table className="w-full text-left text-sm">
+            <thead className="border-b border-border text-text-secondary uppercase">
+              <tr>
+                <th className="py-2 px-3 text-center">#</th>
+                <th className="py-2 px-3">{view === 'teams' ? 'Equipo' : 'Jugador'}</th>
+                <th className="py-2 px-3 text-center">Rating</th>
+                <th className="py-2 px-3 text-center">PJ</th>
+                <th className="py-2 px-3 text-center" title="Cambio en el último partido">Último</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((rating, index) => {
+                const last = rating.history[rating.history.length - 1];
+                const isExpanded = expandedKey === rating.key;
+                return (
+                  <React.Fragment key={rating.key}>
+                    <tr onClick={() => setExpandedKey(isExpanded ? null : rating.key)} className="border-b border-border cursor-pointer hover:bg-gray-800">
+                      <td className="py-2 px-3 text-center font-bold text-text-secondary">{index + 1}</td>
+                      <td className="py-2 px-3 font-medium text-text-primary">{rating.name}</td>
+                      <td className="py-2 px-3 text-center font-bold text-primary tabular-nums">{formatRating(rating.rating)}</td>
+                      <td className="py-2 px-3 text-center text-text-primary">{rating.played}</td>
+                      <td className={`py-2 px-3 text-center tabular-nums ${last && last.delta >= 0 ? 'text-green-400' : 'text-red-400'}`}>{last && formatDelta(last.delta)}</td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="border-b border-border">
+                        <td />
+                        <td colSpan={4} className="px-3">{renderHistory(rating)}</td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-center text-text-secondary py-8">El rating se calcula a partir de los partidos finalizados.</p>
+        )}
+      </div>
+    </Card>
+    </>
+  );
+};
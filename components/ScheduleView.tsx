@@ -0,0 +1,302 @@
+import React, { useState, useMemo } from 'react';
+import { Match, Team, Player, Category, Court, MatchSlot, ScheduleSettings, ScheduleConflict, Official, OfficialConflict } from '../types';
+import { Card } from './Card';
+import { CalendarIcon, PlusIcon, TrashIcon } from './icons';
+import { getDaySlots, getMatchSlot, getUnscheduledMatches, occupiesSlot, getAvailabilityViolations, describeAvailabilityViolation } from '../utils/scheduleUtils';
+import { isMatchClosed } from '../utils/scoringUtils';
+import { describeOfficialConflict } from '../utils/officialUtils';
+import { todayIso } from '../utils/dateUtils';
+
+interface ScheduleViewProps {
+  matches: Match[];
+  teams: Team[];
+  players: Player[];
+  categories: Category[];
+  activeCategoryId: string | null;
+  schedule: ScheduleSettings;
+  conflicts: ScheduleConflict[];
+  officials: Official[];
+  officialConflicts: OfficialConflict[];
+  onUpdateSchedule: (settings: ScheduleSettings) => void;
+  onAutoSchedule: (date: string, categoryId: string | null) => void;
+  onMoveMatch: (matchId: string, slot: MatchSlot | null) => void;
+  onAutoAssignOfficials: (date: string, categoryId: string | null) => void;
+  isMaximized?: boolean;
+  onToggleMaximize?: () => void;
+}
+
+const inputClassName = "bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+
+const matchLabel = (match: Match) => `${match.team1.name} vs ${match.team2.name}`;
+
+/**
+ * Spanish description of a conflict, naming the players involved (or the team,
+ * when it is the same team without registered players).
+ */
+const describeConflict = (conflict: ScheduleConflict, matchesById: Map<string, Match>, courts: Court[], players: Player[], minRest: number): string => {
+    const [a, b] = conflict.matchIds.map(id => matchesById.get(id)!);
+    if (conflict.type === 'court') {
+        const court = courts.find(c => c.id === a.courtId);
+        return `${court?.name ?? 'Pista'}: ${matchLabel(a)} (${a.time}) y ${matchLabel(b)} (${b.time}) coinciden en la pista.`;
+    }
+    const playerNames = conflict.playerIds
+        .map(id => players.find(p => p.id === id))
+        .filter((p): p is Player => !!p)
+        .map(p => `${p.firstName} ${p.lastName}`);
+    const sharedTeam = [a.team1, a.team2].find(t => t.id === b.team1.id || t.id === b.team2.id);
+    const who = playerNames.length > 0 ? playerNames.join(', ') : sharedTeam?.name ?? 'Un jugador';
+    return conflict.type === 'player'
+        ? `${who} juega a la vez ${matchLabel(a)} (${a.time}) y ${matchLabel(b)} (${b.time}).`
+        : `${who} no descansa ${minRest} min entre ${matchLabel(a)} (${a.time}) y ${matchLabel(b)} (${b.time}).`;
+};
+
+const MatchChip: React.FC<{ match: Match; categoryName?: string; conflictDescriptions: string[] }> = ({ match, categoryName, conflictDescriptions }) => {
+    const hasConflict = conflictDescriptions.length > 0;
+    return (
+        <div
+            draggable
+            onDragStart={e => e.dataTransfer.setData('text/plain', match.id)}
+            title={hasConflict ? conflictDescriptions.join('\n') : undefined}
+            className={`cursor-move rounded-md px-2 py-1 text-xs bg-background border ${hasConflict ? 'border-red-500' : isMatchClosed(match) ? 'border-green-600 opacity-70' : 'border-border hover:border-primary'}`}
+        >
+            <div className="flex items-center justify-between gap-1 text-text-secondary">
+                <span className="truncate">{categoryName}</span>
+                {hasConflict && <span className="font-bold text-red-500">⚠</span>}
+            </div>
+            <p className="font-semibold text-text-primary truncate">{match.team1.name}</p>
+            <p className="font-semibold text-text-primary truncate">{match.team2.name}</p>
+        </div>
+    );
+};
+
+export const ScheduleView: React.FC<ScheduleViewProps> = ({ matches, teams, players, categories, activeCategoryId, schedule, conflicts, officials, officialConflicts, onUpdateSchedule, onAutoSchedule, onMoveMatch, onAutoAssignOfficials, isMaximized, onToggleMaximize }) => {
+  const [date, setDate] = useState(() => todayIso());
+  const [scope, setScope] = useState<'active' | 'all'>(activeCategoryId ? 'active' : 'all');
+  const [newCourtName, setNewCourtName] = useState('');
+  const [newCourtVenue, setNewCourtVenue] = useState('');
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const slots = useMemo(() => getDaySlots(schedule), [schedule]);
+  const matchesById = useMemo(() => new Map(matches.map(m => [m.id, m])), [matches]);
+  const categoryNames = useMemo(() => new Map(categories.map(c => [c.id, c.name])), [categories]);
+  const scopeCategoryId = scope === 'active' ? activeCategoryId : null;
+
+  // The grid shows every category: a court is booked whoever plays on it
+  const dayMatches = useMemo(() => matches.filter(m => occupiesSlot(m) && getMatchSlot(m)?.date === date), [matches, date]);
+  const offGridMatches = dayMatches.filter(m => !slots.includes(m.time!));
+  const unscheduledMatches = useMemo(
+    () => getUnscheduledMatches(matches, date).filter(m => !scopeCategoryId || m.categoryId === scopeCategoryId),
+    [matches, date, scopeCategoryId]
+  );
+
+  const dayConflicts = conflicts.filter(c => matchesById.get(c.matchIds[0])?.date === date);
+  // Slots handed out by dragging may fall in a time a team or player said they cannot play
+  const availabilityWarnings = dayMatches.flatMap(match =>
+    getAvailabilityViolations(match, date, match.time, schedule.slotMinutes, teams, players)
+      .map(violation => ({ matchId: match.id, description: `${matchLabel(match)} (${match.time}): ${describeAvailabilityViolation(violation)}.` }))
+  );
+  const dayOfficialConflicts = officialConflicts.filter(c => matchesById.get(c.matchIds[0])?.date === date);
+  const conflictCount = dayConflicts.length + availabilityWarnings.length + dayOfficialConflicts.length;
+  const conflictDescriptions = (matchId: string) => [
+    ...dayConflicts
+      .filter(c => c.matchIds.includes(matchId))
+      .map(c => describeConflict(c, matchesById, schedule.courts, players, schedule.minRestMinutes)),
+    ...availabilityWarnings.filter(w => w.matchId === matchId).map(w => w.description),
+    ...dayOfficialConflicts.filter(c => c.matchIds.includes(matchId)).map(c => describeOfficialConflict(c, officials, matches)),
+  ];
+
+  const updateSettings = (changes: Partial<ScheduleSettings>) => onUpdateSchedule({ ...schedule, ...changes });
+
+  const handleNumberChange = (field: 'slotMinutes' | 'minRestMinutes', value: string) => {
+    const minutes = parseInt(value, 10);
+    if (!isNaN(minutes) && minutes >= (field === 'slotMinutes' ? 1 : 0)) updateSettings({ [field]: minutes });
+  };
+
+  const handleAddCourt = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCourtName.trim()) return;
+    const court: Court = { id: `court-${Date.now()}`, name: newCourtName.trim(), venue: newCourtVenue.trim() };
+    updateSettings({ courts: [...schedule.courts, court] });
+    setNewCourtName('');
+  };
+
+  const handleDrop = (e: React.DragEvent, slot: MatchSlot | null) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const matchId = e.dataTransfer.getData('text/plain');
+    if (matchId) onMoveMatch(matchId, slot);
+  };
+
+  const dropZoneProps = (key: string, slot: MatchSlot | null) => ({
+    onDragOver: (e: React.DragEvent) => { e.preventDefault(); setDropTarget(key); },
+    onDragLeave: () => setDropTarget(prev => (prev === key ? null : prev)),
+    onDrop: (e: React.DragEvent) => handleDrop(e, slot),
+  });
+
+  const renderChip = (match: Match) => (
+    <MatchChip key={match.id} match={match} categoryName={categoryNames.get(match.categoryId)} conflictDescriptions={conflictDescriptions(match.id)} />
+  );
+
+  return (
+    <Card title="Horarios y Pistas" icon={<CalendarIcon className="w-6 h-6" />} isMaximized={isMaximized} onToggleMaximize={onToggleMaximize}>
+      <div className="space-y-4">
+        <details className="bg-background border border-border rounded-md p-3">
+            <summary className="cursor-pointer font-semibold text-text-primary">Pistas y horario</summary>
+            <div className="mt-3 grid grid-cols-1 lg:grid-cols-2 gap-4 text-sm">
+                <div className="space-y-2">
+                    <ul className="space-y-1">
+                        {schedule.courts.map(court => (
+                            <li key={court.id} className="flex items-center justify-between bg-gray-900 px-3 py-1 rounded-md">
+                                <span className="text-text-primary">{court.name}{court.venue && <span className="text-text-secondary"> · {court.venue}</span>}</span>
+                                <button
+                                    onClick={() => updateSettings({ courts: schedule.courts.filter(c => c.id !== court.id) })}
+                                    className="p-1 rounded text-red-500 hover:bg-gray-700"
+                                    aria-label={`Eliminar ${court.name}`}
+                                >
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                    <form onSubmit={handleAddCourt} className="flex gap-2">
+                        <input type="text" value={newCourtName} onChange={e => setNewCourtName(e.target.value)} placeholder="Pista" className={`${inputClassName} flex-1 min-w-0`} />
+                        <input type="text" value={newCourtVenue} onChange={e => setNewCourtVenue(e.target.value)} placeholder="Instalación" className={`${inputClassName} flex-1 min-w-0`} />
+                        <button type="submit" className="flex items-center gap-1 bg-primary text-background font-semibold py-1 px-3 rounded-md hover:bg-primary-dark transition-colors" aria-label="Añadir pista">
+                            <PlusIcon className="w-4 h-4" />
+                        </button>
+                    </form>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <label className="flex items-center justify-between gap-2">
+                        <span className="text-text-secondary">Desde:</span>
+                        <input type="time" value={schedule.dayStart} onChange={e => e.target.value && updateSettings({ dayStart: e.target.value })} className={inputClassName} />
+                    </label>
+                    <label className="flex items-center justify-between gap-2">
+                        <span className="text-text-secondary">Hasta:</span>
+                        <input type="time" value={schedule.dayEnd} onChange={e => e.target.value && updateSettings({ dayEnd: e.target.value })} className={inputClassName} />
+                    </label>
+                    <label className="flex items-center justify-between gap-2">
+                        <span className="text-text-secondary">Duración (min):</span>
+                        <input type="number" min={1} value={schedule.slotMinutes} onChange={e => handleNumberChange('slotMinutes', e.target.value)} className={`${inputClassName} w-20`} />
+                    </label>
+                    <label className="flex items-center justify-between gap-2">
+                        <span className="text-text-secondary">Descanso mín. (min):</span>
+                        <input type="number" min={0} value={schedule.minRestMinutes} onChange={e => handleNumberChange('minRestMinutes', e.target.value)} className={`${inputClassName} w-20`} />
+                    </label>
+                </div>
+            </div>
+        </details>
+
+        <div className="flex flex-wrap items-center gap-2">
+            <input type="date" value={date} onChange={e => e.target.value && setDate(e.target.value)} className={inputClassName} />
+            <select value={scope} onChange={e => setScope(e.target.value as 'active' | 'all')} className={inputClassName}>
+                <option value="active" disabled={!activeCategoryId}>Categoría activa</option>
+                <option value="all">Todas las categorías</option>
+            </select>
+            <button
+                onClick={() => onAutoSchedule(date, scopeCategoryId)}
+                disabled={schedule.courts.length === 0 || unscheduledMatches.length === 0}
+                className="bg-primary text-background font-bold py-1 px-4 rounded-md hover:bg-primary-dark disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors text-sm"
+            >
+                Programar automáticamente
+            </button>
+            <button
+                onClick={() => onAutoAssignOfficials(date, scopeCategoryId)}
+                disabled={officials.length === 0}
+                title="Asigna árbitro y anotador a los partidos pendientes del día, repartiendo la carga"
+                className="bg-blue-600 text-white font-bold py-1 px-4 rounded-md hover:bg-blue-500 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors text-sm"
+            >
+                Asignar árbitros
+            </button>
+        </div>
+
+        {schedule.courts.length === 0 ? (
+            <p className="text-center text-text-secondary py-8">Añade al menos una pista en «Pistas y horario» para empezar a programar partidos.</p>
+        ) : (
+            <div className="flex flex-col lg:flex-row gap-4">
+                <div className="flex-1 overflow-x-auto">
+                    <table className="w-full text-left border-collapse">
+                        <thead>
+                            <tr>
+                                <th className="p-2 w-16 text-xs text-text-secondary">Hora</th>
+                                {schedule.courts.map(court => (
+                                    <th key={court.id} className="p-2 text-sm text-text-primary min-w-[9rem]">
+                                        {court.name}
+                                        {court.venue && <span className="block text-xs font-normal text-text-secondary">{court.venue}</span>}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {slots.map(time => (
+                                <tr key={time} className="border-t border-border">
+                                    <td className="p-2 text-xs font-mono text-text-secondary align-top">{time}</td>
+                                    {schedule.courts.map(court => {
+                                        const key = `${time}-${court.id}`;
+                                        const cellMatches = dayMatches.filter(m => m.time === time && m.courtId === court.id);
+                                        return (
+                                            <td
+                                                key={court.id}
+                                                {...dropZoneProps(key, { date, time, courtId: court.id })}
+                                                className={`p-1 align-top h-16 ${dropTarget === key ? 'bg-primary/20' : ''}`}
+                                            >
+                                                <div className="space-y-1">{cellMatches.map(renderChip)}</div>
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {offGridMatches.length > 0 && (
+                        <div className="mt-3">
+                            <p className="text-xs text-yellow-400 mb-1">Partidos de este día fuera del horario configurado:</p>
+                            <div className="flex flex-wrap gap-2">
+                                {offGridMatches.map(match => (
+                                    <div key={match.id} className="w-40">
+                                        <span className="text-xs font-mono text-text-secondary">{match.time}</span>
+                                        {renderChip(match)}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <aside
+                    {...dropZoneProps('unscheduled', null)}
+                    className={`lg:w-64 flex-shrink-0 rounded-md border border-dashed p-2 ${dropTarget === 'unscheduled' ? 'border-primary bg-primary/10' : 'border-border'}`}
+                >
+                    <h3 className="text-sm font-semibold text-text-primary mb-2">Sin programar ({unscheduledMatches.length})</h3>
+                    {unscheduledMatches.length > 0 ? (
+                        <div className="space-y-1 max-h-[60vh] overflow-y-auto">{unscheduledMatches.map(renderChip)}</div>
+                    ) : (
+                        <p className="text-xs text-text-secondary">No quedan partidos pendientes sin pista para este día.</p>
+                    )}
+                    <p className="text-xs text-text-secondary mt-2">Arrastra un partido a una celda para programarlo, o aquí para quitarle la pista.</p>
+                </aside>
+            </div>
+        )}
+
+        {conflictCount > 0 && (
+            <div className="bg-red-900/30 border border-red-600 rounded-md p-3">
+                <h3 className="text-sm font-bold text-red-400 mb-1">Conflictos ({conflictCount})</h3>
+                <ul className="list-disc list-inside text-xs text-text-primary space-y-1">
+                    {dayConflicts.map(conflict => (
+                        <li key={`${conflict.type}-${conflict.matchIds.join('-')}`}>
+                            {describeConflict(conflict, matchesById, schedule.courts, players, schedule.minRestMinutes)}
+                        </li>
+                    ))}
+                    {availabilityWarnings.map(warning => <li key={warning.description}>{warning.description}</li>)}
+                    {dayOfficialConflicts.map(conflict => (
+                        <li key={`${conflict.type}-${conflict.officialId}-${conflict.matchIds.join('-')}`}>
+                            {describeOfficialConflict(conflict, officials, matches)}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
+      </div>
+    </Card>
+  );
+};
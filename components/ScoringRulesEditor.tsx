@@ -0,0 +1,79 @@
+import React from 'react';
+import { ScoringRules } from '../types';
+import { SCORING_PRESETS, getTotalSets } from '../utils/scoringUtils';
+
+interface ScoringRulesEditorProps {
+  rules: ScoringRules;
+  onChange: (rules: ScoringRules) => void;
+}
+
+const inputClassName = "w-20 bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+
+export const ScoringRulesEditor: React.FC<ScoringRulesEditorProps> = ({ rules, onChange }) => {
+  const presetIndex = SCORING_PRESETS.findIndex(p => JSON.stringify(p.rules) === JSON.stringify(rules));
+
+  const update = (changes: Partial<ScoringRules>) => onChange({ ...rules, ...changes });
+
+  const handleNumberChange = (field: 'pointsPerSet' | 'tiebreakSetPoints', value: string) => {
+    const points = parseInt(value, 10);
+    if (!isNaN(points) && points > 0) update({ [field]: points });
+  };
+
+  const handleMaxPointsChange = (value: string) => {
+    const points = parseInt(value, 10);
+    update({ maxPoints: isNaN(points) ? null : points });
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+        <label className="flex items-center justify-between gap-2">
+            <span className="text-text-secondary">Formato:</span>
+            <select
+                value={presetIndex}
+                onChange={e => { const preset = SCORING_PRESETS[Number(e.target.value)]; if (preset) onChange(preset.rules); }}
+                className="bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary"
+            >
+                {SCORING_PRESETS.map((preset, index) => <option key={preset.name} value={index}>{preset.name}</option>)}
+                {presetIndex === -1 && <option value={-1}>Personalizado</option>}
+            </select>
+        </label>
+        <div className="grid grid-cols-2 gap-2">
+            <label className="flex items-center justify-between gap-2">
+                <span className="text-text-secondary">Sets:</span>
+                <select value={rules.setsToWin} onChange={e => update({ setsToWin: Number(e.target.value) })} className={inputClassName}>
+                    {[1, 2, 3].map(setsToWin => (
+                        <option key={setsToWin} value={setsToWin}>
+                            {setsToWin === 1 ? 'Único' : `Al mejor de ${getTotalSets({ ...rules, setsToWin })}`}
+                        </option>
+                    ))}
+                </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+                <span className="text-text-secondary">Puntos por set:</span>
+                <input type="number" min={1} value={rules.pointsPerSet} onChange={e => handleNumberChange('pointsPerSet', e.target.value)} className={inputClassName} />
+            </label>
+            {rules.setsToWin > 1 && (
+                <label className="flex items-center justify-between gap-2">
+                    <span className="text-text-secondary">Set decisivo:</span>
+                    <input type="number" min={1} value={rules.tiebreakSetPoints} onChange={e => handleNumberChange('tiebreakSetPoints', e.target.value)} className={inputClassName} />
+                </label>
+            )}
+            <label className="flex items-center gap-2 text-text-secondary cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={rules.winByTwo}
+                    onChange={e => update({ winByTwo: e.target.checked, maxPoints: e.target.checked ? rules.maxPoints : null })}
+                    className="form-checkbox h-4 w-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary"
+                />
+                Ganar por 2
+            </label>
+            {rules.winByTwo && (
+                <label className="flex items-center justify-between gap-2">
+                    <span className="text-text-secondary">Tope:</span>
+                    <input type="number" min={1} placeholder="Sin tope" value={rules.maxPoints ?? ''} onChange={e => handleMaxPointsChange(e.target.value)} className={inputClassName} />
+                </label>
+            )}
+        </div>
+    </div>
+  );
+};
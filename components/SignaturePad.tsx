@@ -0,0 +1,90 @@
+import React, { useRef, useState } from 'react';
+
+interface SignaturePadProps {
+  onSign: (image: string) => void;
+}
+
+const WIDTH = 320;
+const HEIGHT = 120;
+// Signatures are stored with the match, so they are saved downscaled as JPEG on white
+const EXPORT_SCALE = 0.5;
+const EXPORT_QUALITY = 0.6;
+
+const exportSignature = (canvas: HTMLCanvasElement): string => {
+  const output = document.createElement('canvas');
+  output.width = WIDTH * EXPORT_SCALE;
+  output.height = HEIGHT * EXPORT_SCALE;
+  const ctx = output.getContext('2d');
+  if (!ctx) return canvas.toDataURL('image/png');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, output.width, output.height);
+  ctx.drawImage(canvas, 0, 0, output.width, output.height);
+  return output.toDataURL('image/jpeg', EXPORT_QUALITY);
+};
+
+export const SignaturePad: React.FC<SignaturePadProps> = ({ onSign }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawing = useRef(false);
+  const [hasStrokes, setHasStrokes] = useState(false);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    // The canvas may be scaled down by CSS on narrow screens
+    return { x: (e.clientX - rect.left) * (WIDTH / rect.width), y: (e.clientY - rect.top) * (HEIGHT / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y } = getPoint(e);
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    ctx.strokeStyle = '#111827';
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    isDrawing.current = true;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!isDrawing.current || !ctx) return;
+    const { x, y } = getPoint(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    setHasStrokes(true);
+  };
+
+  const handleClear = () => {
+    canvasRef.current?.getContext('2d')?.clearRect(0, 0, WIDTH, HEIGHT);
+    setHasStrokes(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={WIDTH}
+        height={HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { isDrawing.current = false; }}
+        onPointerLeave={() => { isDrawing.current = false; }}
+        className="w-full max-w-xs bg-white rounded-md touch-none cursor-crosshair"
+      />
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => canvasRef.current && onSign(exportSignature(canvasRef.current))}
+          disabled={!hasStrokes}
+          className="bg-primary text-background font-semibold py-1 px-3 rounded-md text-sm hover:bg-primary-dark disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors"
+        >
+          Firmar
+        </button>
+        <button type="button" onClick={handleClear} className="bg-gray-600 text-text-primary font-semibold py-1 px-3 rounded-md text-sm hover:bg-gray-500 transition-colors">
+          Borrar
+        </button>
+      </div>
+    </div>
+  );
+};
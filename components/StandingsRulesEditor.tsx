@@ -0,0 +1,82 @@
+import React from 'react';
+import { StandingsRules, PointsTable, Tiebreaker } from '../types';
+import { LEAGUE_TIEBREAKERS, TIEBREAKER_LABELS } from '../utils/standingsUtils';
+import { ArrowUpIcon, ArrowDownIcon, TrashIcon } from './icons';
+
+interface StandingsRulesEditorProps {
+  rules: StandingsRules;
+  onChange: (rules: StandingsRules) => void;
+}
+
+const POINTS_FIELDS: { field: keyof PointsTable; label: string }[] = [
+  { field: 'winClean', label: 'Victoria sin ceder sets' },
+  { field: 'winDecider', label: 'Victoria cediendo sets' },
+  { field: 'lossDecider', label: 'Derrota ganando sets' },
+  { field: 'lossClean', label: 'Derrota sin ganar sets' },
+  { field: 'walkover', label: 'No presentado' },
+];
+
+const inputClassName = "w-16 bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary";
+
+export const StandingsRulesEditor: React.FC<StandingsRulesEditorProps> = ({ rules, onChange }) => {
+  const unusedTiebreakers = LEAGUE_TIEBREAKERS.filter(t => !rules.tiebreakers.includes(t));
+
+  const handlePointsChange = (field: keyof PointsTable, value: string) => {
+    const points = parseInt(value, 10);
+    if (!isNaN(points)) onChange({ ...rules, points: { ...rules.points, [field]: points } });
+  };
+
+  const setTiebreakers = (tiebreakers: Tiebreaker[]) => onChange({ ...rules, tiebreakers });
+
+  const moveTiebreaker = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= rules.tiebreakers.length) return;
+    const next = [...rules.tiebreakers];
+    [next[index], next[target]] = [next[target], next[index]];
+    setTiebreakers(next);
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+        <div className="grid grid-cols-2 gap-2">
+            {POINTS_FIELDS.map(({ field, label }) => (
+                <label key={field} className="flex items-center justify-between gap-2">
+                    <span className="text-text-secondary">{label}:</span>
+                    <input type="number" value={rules.points[field]} onChange={e => handlePointsChange(field, e.target.value)} className={inputClassName} />
+                </label>
+            ))}
+        </div>
+        <div>
+            <p className="text-text-secondary mb-1">Desempates (en orden):</p>
+            <ol className="space-y-1">
+                {rules.tiebreakers.map((tiebreaker, index) => (
+                    <li key={tiebreaker} className="flex items-center justify-between bg-gray-900 px-3 py-1 rounded-md text-text-primary">
+                        <span><span className="font-bold text-primary mr-2">{index + 1}</span>{TIEBREAKER_LABELS[tiebreaker].name}</span>
+                        <span className="flex gap-1">
+                            <button type="button" onClick={() => moveTiebreaker(index, -1)} disabled={index === 0} className="p-1 rounded hover:bg-gray-700 disabled:opacity-30" aria-label={`Subir ${TIEBREAKER_LABELS[tiebreaker].name}`}>
+                                <ArrowUpIcon className="w-4 h-4" />
+                            </button>
+                            <button type="button" onClick={() => moveTiebreaker(index, 1)} disabled={index === rules.tiebreakers.length - 1} className="p-1 rounded hover:bg-gray-700 disabled:opacity-30" aria-label={`Bajar ${TIEBREAKER_LABELS[tiebreaker].name}`}>
+                                <ArrowDownIcon className="w-4 h-4" />
+                            </button>
+                            <button type="button" onClick={() => setTiebreakers(rules.tiebreakers.filter(t => t !== tiebreaker))} className="p-1 rounded text-red-500 hover:bg-gray-700" aria-label={`Quitar ${TIEBREAKER_LABELS[tiebreaker].name}`}>
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </span>
+                    </li>
+                ))}
+            </ol>
+            {unusedTiebreakers.length > 0 && (
+                <select
+                    value=""
+                    onChange={e => setTiebreakers([...rules.tiebreakers, e.target.value as Tiebreaker])}
+                    className="mt-1 w-full bg-gray-900 border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-1 focus:ring-primary"
+                >
+                    <option value="">Añadir desempate...</option>
+                    {unusedTiebreakers.map(t => <option key={t} value={t}>{TIEBREAKER_LABELS[t].name}</option>)}
+                </select>
+            )}
+        </div>
+    </div>
+  );
+};
@@ -1,6 +1,11 @@
-import React from 'react';
-import { Standings } from '../types';
+import React, { useState } from 'react';
+import { Club, Standings, Tiebreaker } from '../types';
+import { GroupStandings } from '../utils/groupUtils';
+import { TIEBREAKER_LABELS } from '../utils/standingsUtils';
+import { FormResult, StandingsSnapshot } from '../utils/categoryStandingsUtils';
 import { Card } from './Card';
+import { PositionChart } from './PositionChart';
+import { ClubBadge } from './ClubBadge';
 import { TrophyIcon, PdfIcon, ExportIcon } from './icons';
 
 // Make sure jspdf and XLSX are globally available
@@ -10,12 +15,41 @@ declare const XLSX: any;
 
 interface StandingsTableProps {
   standings: Standings[];
+  groupStandings?: GroupStandings[];
+  qualifiersPerGroup?: number;
   categoryName?: string;
   isMaximized?: boolean;
   onToggleMaximize?: () => void;
+  isPresentation?: boolean; // large read-only layout for the public display
+  // Standings counting only confirmed results; given when some results are provisional or protested
+  confirmed?: { standings: Standings[]; groupStandings?: GroupStandings[] };
+  history?: StandingsSnapshot[];
+  movement?: Record<string, number>; // places gained or lost in the last round or match day
+  form?: Record<string, FormResult[]>; // last results of each team, oldest first
+  teamClubs?: Record<string, Club>;
 }
 
-export const StandingsTable: React.FC<StandingsTableProps> = ({ standings, categoryName, isMaximized, onToggleMaximize }) => {
+const FORM_LABELS: Record<FormResult, string> = { W: 'G', L: 'P' };
+
+export const StandingsTable: React.FC<StandingsTableProps> = ({ standings: allStandings, groupStandings: allGroupStandings, qualifiersPerGroup, categoryName, isMaximized, onToggleMaximize, isPresentation, confirmed, history = [], movement = {}, form, teamClubs = {} }) => {
+  const [showConfirmed, setShowConfirmed] = useState(false);
+  const [showChart, setShowChart] = useState(false);
+  const { standings, groupStandings } = showConfirmed && confirmed ? confirmed : { standings: allStandings, groupStandings: allGroupStandings };
+
+  // With a group phase every group gets its own table; otherwise a single table for the category
+  const tables = groupStandings
+    ? groupStandings.map(g => ({ title: `Grupo ${g.group.name}`, standings: g.standings }))
+    : [{ title: null, standings }];
+
+  // Swiss standings carry the Buchholz and Sonneborn-Berger tiebreaks
+  const hasSwissTiebreaks = standings.some(s => s.buchholz !== undefined);
+
+  // Which tiebreaker placed a team that was level on points with others
+  const getTiebreakLabel = (s: Standings): string | null => {
+    if (s.tiebreak === undefined) return null;
+    return s.tiebreak === null ? 'Empate sin resolver' : TIEBREAKER_LABELS[s.tiebreak].name;
+  };
+
   const getRankColor = (rank: number) => {
     if (rank === 0) return 'text-yellow-400';
     if (rank === 1) return 'text-gray-300';
@@ -28,20 +62,25 @@ export const StandingsTable: React.FC<StandingsTableProps> = ({ standings, categ
       alert("No hay datos para exportar.");
       return;
     }
-    const dataToExport = standings.map((s, index) => ({
-      '#': index + 1,
-      'Equipo': s.team.name,
-      'PJ': s.played,
-      'G': s.wins,
-      'P': s.losses,
-      'PF': s.pointsFor,
-      'PC': s.pointsAgainst,
-      'DIF': s.pointsDifference,
-      'Ptos': s.points,
-    }));
-    const worksheet = XLSX.utils.json_to_sheet(dataToExport);
     const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, "Clasificación");
+    tables.forEach(table => {
+      const dataToExport = table.standings.map((s, index) => ({
+        '#': index + 1,
+        'Equipo': s.team.name,
+        'PJ': s.played,
+        'G': s.wins,
+        'P': s.losses,
+        'PF': s.pointsFor,
+        'PC': s.pointsAgainst,
+        'DIF': s.pointsDifference,
+        'Ptos': s.points,
+        ...(form ? { 'Forma': (form[s.team.id] || []).map(f => FORM_LABELS[f]).join('') } : {}),
+        ...(hasSwissTiebreaks ? { 'Buchholz': s.buchholz, 'S-B': s.sonnebornBerger } : {}),
+        'Desempate': getTiebreakLabel(s) || '',
+      }));
+      const worksheet = XLSX.utils.json_to_sheet(dataToExport);
+      XLSX.utils.book_append_sheet(workbook, worksheet, table.title || "Clasificación");
+    });
     XLSX.writeFile(workbook, `clasificacion_${(categoryName || 'torneo').replace(/\s+/g, '_').toLowerCase()}.xlsx`);
   };
 
@@ -55,33 +94,49 @@ export const StandingsTable: React.FC<StandingsTableProps> = ({ standings, categ
     const { jsPDF } = jspdf;
     const doc = new jsPDF();
 
-    const title = `Tabla de Clasificación - ${categoryName || 'General'}`;
+    const title = `Tabla de Clasificación${showConfirmed && confirmed ? ' (confirmada)' : ''} - ${categoryName || 'General'}`;
     doc.text(title, 14, 15);
 
-    const head = [['#', 'Equipo', 'PJ', 'G', 'P', 'PF', 'PC', 'DIF', 'Ptos']];
-    const body = standings.map((s, index) => [
-      index + 1,
-      s.team.name,
-      s.played,
-      s.wins,
-      s.losses,
-      s.pointsFor,
-      s.pointsAgainst,
-      s.pointsDifference > 0 ? `+${s.pointsDifference}` : s.pointsDifference,
-      s.points,
-    ]);
-
-    (doc as any).autoTable({
-      startY: 20,
-      head: head,
-      body: body,
-      headStyles: { fillColor: [209, 213, 219], textColor: [49, 49, 49], fontStyle: 'bold' },
-      styles: { halign: 'center' },
-      columnStyles: {
-        1: { halign: 'left' } // Align team name to the left
+    const head = [['#', 'Equipo', 'PJ', 'G', 'P', 'PF', 'PC', 'DIF', 'Ptos', ...(hasSwissTiebreaks ? ['Bu', 'S-B'] : [])]];
+    let startY = 20;
+    tables.forEach(table => {
+      if (table.title) {
+        doc.setFontSize(12);
+        doc.text(table.title, 14, startY + 5);
+        startY += 8;
       }
+      const body = table.standings.map((s, index) => [
+        index + 1,
+        s.tiebreak !== undefined ? `${s.team.name} (${s.tiebreak ? TIEBREAKER_LABELS[s.tiebreak].short : '='})` : s.team.name,
+        s.played,
+        s.wins,
+        s.losses,
+        s.pointsFor,
+        s.pointsAgainst,
+        s.pointsDifference > 0 ? `+${s.pointsDifference}` : s.pointsDifference,
+        s.points,
+        ...(hasSwissTiebreaks ? [s.buchholz ?? 0, s.sonnebornBerger ?? 0] : []),
+      ]);
+
+      (doc as any).autoTable({
+        startY,
+        head: head,
+        body: body,
+        headStyles: { fillColor: [209, 213, 219], textColor: [49, 49, 49], fontStyle: 'bold' },
+        styles: { halign: 'center' },
+        columnStyles: {
+          1: { halign: 'left' } // Align team name to the left
+        }
+      });
+      startY = (doc as any).lastAutoTable.finalY + 10;
     });
 
+    const usedTiebreakers = Array.from(new Set<Tiebreaker>(tables.flatMap(t => t.standings.flatMap(s => s.tiebreak ? [s.tiebreak] : []))));
+    if (usedTiebreakers.length > 0) {
+      doc.setFontSize(8);
+      doc.text(`Desempates: ${usedTiebreakers.map(t => `${TIEBREAKER_LABELS[t].short} = ${TIEBREAKER_LABELS[t].name}`).join(', ')}`, 14, startY);
+    }
+
     doc.save(`clasificacion_${(categoryName || 'torneo').replace(/\s+/g, '_').toLowerCase()}.pdf`);
   };
   
@@ -110,54 +165,137 @@ export const StandingsTable: React.FC<StandingsTableProps> = ({ standings, categ
 
   return (
     <Card 
-        title="Clasificación" 
+        title={isPresentation && categoryName ? `Clasificación · ${categoryName}` : 'Clasificación'}
         icon={<TrophyIcon />}
-        headerActions={headerActions}
+        headerActions={!isPresentation && headerActions}
         isMaximized={isMaximized}
         onToggleMaximize={onToggleMaximize}
     >
-      <div className="overflow-x-auto">
-        <table className="w-full text-left text-sm">
-          <thead className="border-b border-border text-text-secondary uppercase">
-            <tr>
-              <th className="py-2 px-3 text-center">#</th>
-              <th className="py-2 px-3">Equipo</th>
-              <th className="py-2 px-3 text-center">PJ</th>
-              <th className="py-2 px-3 text-center">G</th>
-              <th className="py-2 px-3 text-center">P</th>
-              <th className="py-2 px-3 text-center" title="Puntos a Favor">PF</th>
-              <th className="py-2 px-3 text-center" title="Puntos en Contra">PC</th>
-              <th className="py-2 px-3 text-center" title="Diferencia de Puntos">DIF</th>
-              <th className="py-2 px-3 text-center">Ptos</th>
-            </tr>
-          </thead>
-          <tbody>
-            {standings.map((s, index) => (
-              <tr key={s.team.id} className="border-b border-border last:border-b-0">
-                <td className={`py-3 px-3 text-center font-bold ${getRankColor(index)}`}>{index + 1}</td>
-                <td className="py-3 px-3">
-                    <div className="font-medium text-text-primary">{s.team.name}</div>
-                </td>
-                <td className="py-3 px-3 text-center text-text-primary">{s.played}</td>
-                <td className="py-3 px-3 text-center text-green-400">{s.wins}</td>
-                <td className="py-3 px-3 text-center text-red-400">{s.losses}</td>
-                <td className="py-3 px-3 text-center text-text-primary">{s.pointsFor}</td>
-                <td className="py-3 px-3 text-center text-text-primary">{s.pointsAgainst}</td>
-                 <td className={`py-3 px-3 text-center font-bold ${s.pointsDifference > 0 ? 'text-green-400' : s.pointsDifference < 0 ? 'text-red-400' : 'text-text-secondary'}`}>
-                    {s.pointsDifference > 0 ? `+${s.pointsDifference}` : s.pointsDifference}
-                </td>
-                <td className="py-3 px-3 text-center font-bold text-primary">{s.points}</td>
-              </tr>
-            ))}
-             {standings.length === 0 && (
+      <div className="space-y-6">
+        {history.length > 1 && !isPresentation && (
+          <div className="flex justify-end">
+            <div className="flex gap-1 bg-background p-1 rounded-md text-sm">
+              {[{ label: 'Tabla', value: false }, { label: 'Evolución', value: true }].map(option => (
+                <button
+                  key={option.label}
+                  onClick={() => setShowChart(option.value)}
+                  className={`px-3 py-1 rounded-md font-semibold transition-colors ${showChart === option.value ? 'bg-primary text-background' : 'text-text-secondary hover:bg-gray-600'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {showChart && history.length > 1 && !isPresentation ? tables.map(table => (
+          <div key={table.title || 'general'}>
+            {table.title && <h3 className="text-sm font-bold uppercase tracking-wide text-primary mb-2">{table.title}</h3>}
+            <PositionChart history={history} teams={table.standings.map(s => s.team)} />
+          </div>
+        )) : (<>
+        {confirmed && !isPresentation && (
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span className="text-orange-400">Hay resultados provisionales o en reclamación.</span>
+            <div className="flex gap-1 bg-background p-1 rounded-md">
+              {[{ label: 'Provisional', value: false }, { label: 'Confirmada', value: true }].map(option => (
+                <button
+                  key={option.label}
+                  onClick={() => setShowConfirmed(option.value)}
+                  className={`px-3 py-1 rounded-md font-semibold transition-colors ${showConfirmed === option.value ? 'bg-primary text-background' : 'text-text-secondary hover:bg-gray-600'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {tables.map(table => (
+          <div key={table.title || 'general'} className="overflow-x-auto">
+            {table.title && <h3 className="text-sm font-bold uppercase tracking-wide text-primary mb-2">{table.title}</h3>}
+            <table className={`w-full text-left ${isPresentation ? 'text-2xl' : 'text-sm'}`}>
+              <thead className="border-b border-border text-text-secondary uppercase">
                 <tr>
-                    <td colSpan={9} className="text-center py-8 text-text-secondary">
-                        No hay datos de clasificación todavía.
-                    </td>
+                  <th className="py-2 px-3 text-center">#</th>
+                  <th className="py-2 px-3">Equipo</th>
+                  <th className="py-2 px-3 text-center">PJ</th>
+                  <th className="py-2 px-3 text-center">G</th>
+                  <th className="py-2 px-3 text-center">P</th>
+                  <th className="py-2 px-3 text-center" title="Puntos a Favor">PF</th>
+                  <th className="py-2 px-3 text-center" title="Puntos en Contra">PC</th>
+                  <th className="py-2 px-3 text-center" title="Diferencia de Puntos">DIF</th>
+                  <th className="py-2 px-3 text-center">Ptos</th>
+                  {form && <th className="py-2 px-3 text-center" title="Últimos cinco resultados">Forma</th>}
+                  {hasSwissTiebreaks && (
+                    <>
+                      <th className="py-2 px-3 text-center" title="Buchholz: suma de los puntos de los rivales">Bu</th>
+                      <th className="py-2 px-3 text-center" title="Sonneborn-Berger: suma de los puntos de los rivales vencidos">S-B</th>
+                    </>
+                  )}
                 </tr>
-            )}
-          </tbody>
-        </table>
+              </thead>
+              <tbody>
+                {table.standings.map((s, index) => {
+                  const qualifies = groupStandings && qualifiersPerGroup !== undefined && index < qualifiersPerGroup;
+                  const moved = showConfirmed && confirmed ? 0 : movement[s.team.id] || 0;
+                  return (
+                    <tr key={s.team.id} className={`border-b border-border last:border-b-0 ${qualifies ? 'border-l-2 border-l-primary' : ''}`}>
+                      <td className={`py-3 px-3 text-center font-bold ${getRankColor(index)}`}>
+                        {index + 1}
+                        {moved !== 0 && (
+                          <span className={`ml-1 text-xs ${moved > 0 ? 'text-green-400' : 'text-red-400'}`} title={`${Math.abs(moved)} ${Math.abs(moved) === 1 ? 'puesto' : 'puestos'} desde la jornada anterior`}>
+                            {moved > 0 ? '▲' : '▼'}{Math.abs(moved)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 px-3">
+                          <div className="font-medium text-text-primary flex items-center gap-2"><ClubBadge club={teamClubs[s.team.id]} />{s.team.name}</div>
+                          {s.tiebreak !== undefined && !isPresentation && (
+                            <div className={`text-xs ${s.tiebreak ? 'text-text-secondary' : 'text-yellow-400'}`} title="Criterio que decidió la posición entre equipos empatados a puntos">
+                              Desempate: {getTiebreakLabel(s)}
+                            </div>
+                          )}
+                      </td>
+                      <td className="py-3 px-3 text-center text-text-primary">{s.played}</td>
+                      <td className="py-3 px-3 text-center text-green-400">{s.wins}</td>
+                      <td className="py-3 px-3 text-center text-red-400">{s.losses}</td>
+                      <td className="py-3 px-3 text-center text-text-primary">{s.pointsFor}</td>
+                      <td className="py-3 px-3 text-center text-text-primary">{s.pointsAgainst}</td>
+                       <td className={`py-3 px-3 text-center font-bold ${s.pointsDifference > 0 ? 'text-green-400' : s.pointsDifference < 0 ? 'text-red-400' : 'text-text-secondary'}`}>
+                          {s.pointsDifference > 0 ? `+${s.pointsDifference}` : s.pointsDifference}
+                      </td>
+                      <td className="py-3 px-3 text-center font-bold text-primary">{s.points}</td>
+                      {form && (
+                        <td className="py-3 px-3">
+                          <div className="flex justify-center gap-1">
+                            {(form[s.team.id] || []).map((result, i) => (
+                              <span key={i} className={`w-5 h-5 rounded-full text-xs font-bold flex items-center justify-center text-white ${result === 'W' ? 'bg-green-600' : 'bg-red-600'}`}>
+                                {FORM_LABELS[result]}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                      )}
+                      {hasSwissTiebreaks && (
+                        <>
+                          <td className="py-3 px-3 text-center text-text-secondary">{s.buchholz}</td>
+                          <td className="py-3 px-3 text-center text-text-secondary">{s.sonnebornBerger}</td>
+                        </>
+                      )}
+                    </tr>
+                  );
+                })}
+                 {table.standings.length === 0 && (
+                    <tr>
+                        <td colSpan={9 + (hasSwissTiebreaks ? 2 : 0) + (form ? 1 : 0)} className="text-center py-8 text-text-secondary">
+                            No hay datos de clasificación todavía.
+                        </td>
+                    </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        ))}
+        </>)}
       </div>
     </Card>
   );
@@ -1,7 +1,11 @@
 import React, { useState, useMemo, useRef } from 'react';
-import { Player, Team, TeamImportPayload } from '../types';
+import { Player, Team, Category, Club, TeamImportPayload, UnavailabilityWindow } from '../types';
 import { TrashIcon, PlusIcon, PencilIcon, ExportIcon, ImportIcon, RefreshIcon } from './icons';
 import { ConfirmationDialog } from './ConfirmationDialog';
+import { AvailabilityEditor } from './AvailabilityEditor';
+import { ClubBadge } from './ClubBadge';
+import { checkTeamEligibility, describeEligibilityViolation, isBlocking } from '../utils/eligibilityUtils';
+import { todayIso } from '../utils/dateUtils';
 
 // Make sure XLSX is globally available from the script tag
 declare const XLSX: any;
@@ -10,15 +14,19 @@ declare const XLSX: any;
 interface TeamManagerProps {
   players: Player[];
   teams: Team[];
-  onAddTeam: (name: string, playerIds: string[]) => void;
-  onUpdateTeam: (id: string, name:string, playerIds: string[]) => void;
+  categories: Category[];
+  clubs: Club[];
+  onAddTeam: (name: string, playerIds: string[], unavailability: UnavailabilityWindow[], clubId?: string) => void;
+  onUpdateTeam: (id: string, name:string, playerIds: string[], unavailability: UnavailabilityWindow[], clubId?: string) => void;
   onDeleteTeam: (id: string) => void;
   onImportTeams: (payload: TeamImportPayload) => void;
 }
 
-export const TeamManager: React.FC<TeamManagerProps> = ({ players, teams, onAddTeam, onUpdateTeam, onDeleteTeam, onImportTeams }) => {
+export const TeamManager: React.FC<TeamManagerProps> = ({ players, teams, categories, clubs, onAddTeam, onUpdateTeam, onDeleteTeam, onImportTeams }) => {
   const [newTeamName, setNewTeamName] = useState('');
   const [selectedPlayerIds, setSelectedPlayerIds] = useState<string[]>([]);
+  const [unavailability, setUnavailability] = useState<UnavailabilityWindow[]>([]);
+  const [clubId, setClubId] = useState('');
   const [editingTeamId, setEditingTeamId] = useState<string | null>(null);
   const [teamToDelete, setTeamToDelete] = useState<Team | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -43,18 +51,25 @@ export const TeamManager: React.FC<TeamManagerProps> = ({ players, teams, onAddT
 
   const availablePlayers = players.filter(p => !assignedPlayerIds.has(p.id));
 
+  // A team being edited keeps its categories, so its new roster must meet their requirements
+  const teamCategories = categories.filter(c => editingTeamId !== null && c.teamIds.includes(editingTeamId));
+  const rosterViolations = editingTeamId
+    ? teamCategories.flatMap(c => checkTeamEligibility(editingTeamId, selectedPlayerIds, c, players, todayIso()))
+    : [];
+  const isBlocked = rosterViolations.some(v => isBlocking(teamCategories.find(c => c.id === v.categoryId)!));
+
   const filteredTeams = teams.filter(team =>
     team.name.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (newTeamName.trim() === '') return;
+    if (newTeamName.trim() === '' || isBlocked) return;
     
     if (isEditing) {
-      onUpdateTeam(editingTeamId, newTeamName, selectedPlayerIds);
+      onUpdateTeam(editingTeamId, newTeamName, selectedPlayerIds, unavailability, clubId || undefined);
     } else {
-      onAddTeam(newTeamName, selectedPlayerIds);
+      onAddTeam(newTeamName, selectedPlayerIds, unavailability, clubId || undefined);
     }
     
     resetForm();
@@ -64,6 +79,8 @@ export const TeamManager: React.FC<TeamManagerProps> = ({ players, teams, onAddT
     setEditingTeamId(team.id);
     setNewTeamName(team.name);
     setSelectedPlayerIds(team.playerIds);
+    setUnavailability(team.unavailability || []);
+    setClubId(team.clubId || '');
   };
 
   const handleCancelEdit = () => {
@@ -80,6 +97,8 @@ export const TeamManager: React.FC<TeamManagerProps> = ({ players, teams, onAddT
   const resetForm = () => {
     setNewTeamName('');
     setSelectedPlayerIds([]);
+    setUnavailability([]);
+    setClubId('');
     setEditingTeamId(null);
   }
 
@@ -170,7 +189,7 @@ export const TeamManager: React.FC<TeamManagerProps> = ({ players, teams, onAddT
     if(fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const isFormValid = newTeamName.trim() !== '';
+  const isFormValid = newTeamName.trim() !== '' && !isBlocked;
   const canConfirmImport = importedTeams && Object.keys(unmatchedPlayerActions).length === unmatchedPlayers.length;
   const formIsDirty = newTeamName.trim() !== '' || selectedPlayerIds.length > 0;
 
@@ -183,7 +202,7 @@ export const TeamManager: React.FC<TeamManagerProps> = ({ players, teams, onAddT
         title="Confirmar Eliminación de Equipo"
     >
         <p>¿Estás seguro de que quieres eliminar al equipo <strong>{teamToDelete?.name}</strong>?</p>
-        <p className="text-sm text-yellow-400 mt-2">Esta acción eliminará el equipo, sus partidos asociados y lo desvinculará de cualquier categoría.</p>
+        <p className="text-sm text-yellow-400 mt-2">Esta acción eliminará el equipo, sus partidos asociados y lo desvinculará de cualquier categoría. Sus cargos y pagos se conservan en las cuentas.</p>
     </ConfirmationDialog>
 
     <div className="flex flex-col h-full">
@@ -249,6 +268,16 @@ export const TeamManager: React.FC<TeamManagerProps> = ({ players, teams, onAddT
           placeholder="Nombre del equipo"
           className="w-full bg-gray-900 border border-border rounded-md px-3 py-2 mb-2 focus:outline-none focus:ring-1 focus:ring-primary"
         />
+        {clubs.length > 0 && (
+            <select
+                value={clubId}
+                onChange={(e) => setClubId(e.target.value)}
+                className="w-full bg-gray-900 border border-border rounded-md px-3 py-2 mb-2 focus:outline-none focus:ring-1 focus:ring-primary text-text-secondary"
+            >
+                <option value="">Sin club</option>
+                {clubs.map(club => <option key={club.id} value={club.id}>{club.name}</option>)}
+            </select>
+        )}
         <div className="mb-2">
             <p className="text-sm text-text-secondary mb-1">Selecciona jugadores:</p>
             <div className="grid grid-cols-2 gap-2 max-h-32 overflow-y-auto">
@@ -265,7 +294,19 @@ export const TeamManager: React.FC<TeamManagerProps> = ({ players, teams, onAddT
                 ))}
             </div>
             {availablePlayers.length === 0 && <p className="text-xs text-text-secondary mt-1">No hay jugadores disponibles. Crea jugadores primero.</p>}
+            {rosterViolations.length > 0 && (
+                <div className={`mt-2 text-xs p-2 rounded-md border ${isBlocked ? 'border-red-700 text-red-400' : 'border-yellow-700 text-yellow-400'}`}>
+                    <p className="font-semibold mb-1">{isBlocked ? 'No se puede guardar: la plantilla no cumple los requisitos de su categoría.' : 'La plantilla no cumple los requisitos de su categoría:'}</p>
+                    <ul className="space-y-0.5">
+                        {rosterViolations.map((v, i) => {
+                            const category = teamCategories.find(c => c.id === v.categoryId)!;
+                            return <li key={i}>{category.name}: {describeEligibilityViolation(v, category, players, todayIso())}</li>;
+                        })}
+                    </ul>
+                </div>
+            )}
         </div>
+        <AvailabilityEditor windows={unavailability} onChange={setUnavailability} />
         <div className="flex gap-2 mt-2">
             <button
                 type="submit"
@@ -302,7 +343,10 @@ export const TeamManager: React.FC<TeamManagerProps> = ({ players, teams, onAddT
               {filteredTeams.map((team) => (
                 <li key={team.id} className="flex justify-between items-start bg-background p-3 rounded-md border border-border">
                   <div>
-                    <p className="font-semibold text-text-primary">{team.name}</p>
+                    <p className="font-semibold text-text-primary flex items-center gap-2">
+                      <ClubBadge club={clubs.find(c => c.id === team.clubId)} />
+                      {team.name}
+                    </p>
                     <div className="text-xs text-text-secondary mt-1">
                       {team.playerIds.map(pid => {
                           const player = players.find(p => p.id === pid);
@@ -3,6 +3,7 @@ import { Standings, Match } from '../types';
 import { generateSummary } from '../services/geminiService';
 import { Card } from './Card';
 import { ReportIcon, SparklesIcon } from './icons';
+import { isMatchDecided } from '../utils/scoringUtils';
 
 interface TournamentSummaryProps {
   standings: Standings[];
@@ -15,7 +16,7 @@ interface TournamentSummaryProps {
 export const TournamentSummary: React.FC<TournamentSummaryProps> = ({ standings, matches, categoryName, isMaximized, onToggleMaximize }) => {
   const [summary, setSummary] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const hasFinishedMatches = matches.some(m => m.status === 'Finished');
+  const hasFinishedMatches = matches.some(isMatchDecided);
 
   const handleGenerateSummary = async () => {
     setIsLoading(true);
@@ -2,6 +2,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { PublicDisplay } from './components/PublicDisplay';
+import { DISPLAY_HASH } from './utils/displayUtils';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +11,9 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
+// The venue screen opens the app in its own window at #pantalla
 root.render(
   <React.StrictMode>
-    <App />
+    {window.location.hash === DISPLAY_HASH ? <PublicDisplay /> : <App />}
   </React.StrictMode>
 );
@@ -1,6 +1,7 @@
 
 import { GoogleGenAI } from "@google/genai";
-import { Player, Match, Standings, Team, MatchSet } from "../types";
+import { Player, Match, MatchStatus, Standings, Team, MatchSet } from "../types";
+import { isMatchDecided } from "../utils/scoringUtils";
 
 const API_KEY = process.env.API_KEY;
 
@@ -23,14 +24,16 @@ export async function generateSummary(standings: Standings[], matches: Match[],
     }
 
     try {
-        const finishedMatches = matches.filter(m => m.status === 'Finished');
+        const finishedMatches = matches.filter(isMatchDecided);
         
         const standingsText = standings.map((s, index) => 
             `${index + 1}. ${s.team.name}: ${s.points} puntos (Ganados: ${s.wins}, Perdidos: ${s.losses})`
         ).join('\n');
 
         const matchesText = finishedMatches.map(m => 
-            `${m.team1.name} vs ${m.team2.name} - Sets: ${formatSets(m.sets)}`
+            m.status === MatchStatus.Finished
+                ? `${m.team1.name} vs ${m.team2.name} - Sets: ${formatSets(m.sets)}`
+                : `${m.team1.name} vs ${m.team2.name} - Gana ${m.winner!.name} por ${m.status === MatchStatus.Walkover ? 'incomparecencia (W.O.)' : 'retirada del rival'}`
         ).join('\n');
 
         const prompt = `
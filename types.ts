@@ -5,18 +5,84 @@ export interface Player {
   lastName: string;
   idCard: string;
   birthDate: string;
+  gender?: Gender;
   photoUrl?: string;
+  clubId?: string;
+  licence?: PlayerLicence;
+  unavailability?: UnavailabilityWindow[];
+}
+
+export type Gender = 'male' | 'female';
+
+export type LicenceStatus = 'pending' | 'active' | 'suspended';
+
+export type LicenceDocumentKind = 'licence' | 'medical' | 'waiver' | 'other';
+
+export interface LicenceDocument {
+  id: string;
+  kind: LicenceDocumentKind;
+  name: string; // original file name
+  dataUrl: string;
+  uploadedAt: string; // ISO timestamp
+}
+
+// Federation licence of a player for a season, with the papers needed to play
+export interface PlayerLicence {
+  number: string;
+  season: string; // e.g. '2025-2026'
+  status: LicenceStatus;
+  expiresOn?: string;
+  medicalExpiresOn?: string; // medical fitness certificate; none = not handed in
+  waiverSigned: boolean;
+  documents: LicenceDocument[];
 }
 
 export interface Team {
   id: string;
   name: string;
   playerIds: string[];
+  clubId?: string;
+  unavailability?: UnavailabilityWindow[];
+}
+
+// Club or school that teams and players represent
+export interface Club {
+  id: string;
+  name: string;
+  logoUrl?: string; // image data URL
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  colors?: [string, string]; // primary and secondary, '#rrggbb'
+}
+
+export type OfficialRole = 'referee' | 'scorekeeper';
+
+export interface Official {
+  id: string;
+  firstName: string;
+  lastName: string;
+  roles: OfficialRole[]; // what the official can be assigned as
+  teamIds: string[]; // teams the official belongs to, whose matches they cannot officiate
+}
+
+// A period when a player or team cannot play. Without a date it applies every day
+// (e.g. "not before 12:00"); without times it covers the whole day.
+export interface UnavailabilityWindow {
+  id: string;
+  date?: string;
+  from?: string; // 'HH:MM'
+  to?: string; // 'HH:MM'
+  note?: string;
 }
 
 export enum MatchStatus {
   Pending = 'Pending',
   Finished = 'Finished',
+  Walkover = 'Walkover', // one team did not show up; the winner is the other one
+  Retired = 'Retired', // one team retired mid-match; the sets played are kept
+  Suspended = 'Suspended', // postponed, still to be played
+  Annulled = 'Annulled', // does not count at all
 }
 
 export interface MatchSet {
@@ -33,8 +99,111 @@ export interface Match {
   winner: Team | null;
   status: MatchStatus;
   date: string;
+  round?: number; // Jornada number; absent on matches created before fixtures had rounds
+  bracketNodeId?: string; // Set on knockout matches, links the match to its BracketNode
+  groupId?: string; // Set on group phase matches
+  statusReason?: string; // Why the match was a walkover, retirement, suspended or annulled
+  time?: string; // 'HH:MM' start time, set together with courtId when the match gets a slot
+  courtId?: string;
+  refereeId?: string;
+  scorekeeperId?: string;
+  reschedules?: RescheduleEntry[]; // every date change after the first date, oldest first
+  deadline?: string; // date by which a postponed match must be played
+  rallies?: RallyPoint[]; // point-by-point log from the live scoring console
+  firstServer?: 'team1' | 'team2'; // serves first in the first set of a live-scored match
+  sheet?: MatchSheet; // the signed acta
+  disciplinary?: DisciplinaryIncident[];
+  protests?: Protest[];
+  provisional?: boolean; // result entered but not yet confirmed by the organisation
 }
 
+// filed → underReview → upheld | rejected
+export type ProtestStatus = 'filed' | 'underReview' | 'upheld' | 'rejected';
+
+// One step of a protest, kept as its audit trail
+export interface ProtestHistoryEntry {
+  status: ProtestStatus;
+  at: string; // ISO timestamp
+  note?: string;
+  previousSets?: MatchSet[]; // set when upholding the protest corrected the score
+  correctedSets?: MatchSet[];
+}
+
+export interface Protest {
+  id: string;
+  teamId: string; // team that filed it
+  reason: string;
+  status: ProtestStatus;
+  history: ProtestHistoryEntry[];
+}
+
+export type DisciplinaryCard = 'yellow' | 'red';
+
+export interface DisciplinaryIncident {
+  id: string;
+  playerId: string;
+  teamId: string;
+  card: DisciplinaryCard;
+  set?: number; // 1-based set in which it happened
+  minute?: number;
+  description?: string;
+}
+
+// A suspension runs for a number of the player's matches, until a date, or both
+export interface Sanction {
+  id: string;
+  playerId: string;
+  categoryId?: string; // only matches of this category; none = every category
+  reason: string;
+  startDate: string; // matches on or after this date count towards it
+  matches?: number;
+  until?: string; // last day of the suspension
+  matchId?: string; // match where the offence happened
+}
+
+export type MatchSheetSigner = 'captain1' | 'captain2' | 'referee';
+
+export interface MatchSheetSignature {
+  name: string;
+  image: string; // data URL drawn on screen: JPEG, or PNG for signatures saved before they were compressed
+  signedAt: string; // ISO timestamp
+}
+
+// Acta de partido: what the result alone does not record
+export interface MatchSheet {
+  startTime?: string; // 'HH:MM'
+  endTime?: string;
+  observations?: string;
+  signatures: Partial<Record<MatchSheetSigner, MatchSheetSignature>>;
+}
+
+export interface RallyPoint {
+  winner: 'team1' | 'team2';
+  server: 'team1' | 'team2';
+  at: string; // ISO timestamp
+}
+
+export interface RescheduleEntry {
+  previousDate: string;
+  previousTime?: string;
+  newDate: string; // empty when postponed without a new date yet
+  newTime?: string;
+  reason?: string;
+  requestedBy?: string;
+  changedAt: string; // ISO timestamp
+}
+
+export interface RescheduleRequest {
+  date: string;
+  time?: string;
+  reason?: string;
+  requestedBy?: string;
+  deadline?: string;
+}
+
+// Fields a match editor may change; the winner is only taken as given for walkovers and retirements
+export type MatchUpdate = Partial<Pick<Match, 'sets' | 'date' | 'status' | 'statusReason' | 'winner' | 'time' | 'courtId' | 'refereeId' | 'scorekeeperId' | 'rallies' | 'firstServer' | 'sheet' | 'disciplinary' | 'protests' | 'provisional'>>;
+
 export interface Standings {
   team: Team;
   played: number;
@@ -44,12 +213,199 @@ export interface Standings {
   pointsFor: number;
   pointsAgainst: number;
   pointsDifference: number;
+  setsFor: number;
+  setsAgainst: number;
+  buchholz?: number; // Swiss only: sum of the opponents' points
+  sonnebornBerger?: number; // Swiss only: sum of the points of the opponents beaten
+  // Criterion that placed the team among those level on points; null if still tied
+  tiebreak?: Tiebreaker | null;
+}
+
+export type Tiebreaker =
+  | 'wins'
+  | 'headToHead'
+  | 'setRatio'
+  | 'setDifference'
+  | 'pointsRatio'
+  | 'pointsDifference'
+  | 'pointsFor'
+  | 'buchholz'
+  | 'sonnebornBerger';
+
+export interface PointsTable {
+  winClean: number; // win without conceding a set (2-0)
+  winDecider: number; // win conceding sets (2-1)
+  lossDecider: number; // loss winning sets (1-2)
+  lossClean: number; // loss without winning a set (0-2)
+  walkover: number; // team that does not show up
+}
+
+export interface StandingsRules {
+  points: PointsTable;
+  tiebreakers: Tiebreaker[];
+}
+
+export type BracketSource =
+  | { type: 'seed'; seed: number } // 1-based; seeds beyond the field are byes
+  | { type: 'winner'; nodeId: string }
+  | { type: 'loser'; nodeId: string };
+
+export type BracketSection = 'main' | 'thirdPlace' | 'losers' | 'grandFinal' | 'grandFinalReset' | 'consolation';
+
+export interface BracketNode {
+  id: string;
+  section: BracketSection;
+  round: number;
+  position: number;
+  sources: [BracketSource, BracketSource];
+  resetOf?: string; // Grand final reset: only played if the losers' bracket champion wins that node
+}
+
+export type KnockoutFormat = 'single' | 'double';
+
+export interface KnockoutStage {
+  format: KnockoutFormat;
+  seeding: 'standings' | 'manual' | 'groups' | 'rating';
+  seedTeamIds: string[]; // index 0 is seed 1
+  thirdPlaceMatch: boolean;
+  consolation: boolean; // Extra bracket (repechaje) for first-round losers
+  nodes: BracketNode[];
+}
+
+export type KnockoutOptions = Pick<KnockoutStage, 'format' | 'seeding' | 'thirdPlaceMatch' | 'consolation'>;
+
+export interface Group {
+  id: string;
+  name: string;
+  teamIds: string[];
+}
+
+export interface GroupStage {
+  groups: Group[];
+  seeding: 'snake' | 'random';
+  twoLegged: boolean;
+  qualifiersPerGroup: number;
+  // 'crossed': 1A vs 2B, 1B vs 2A...; 'seeded': qualifiers ranked across groups into a standard bracket
+  crossover: 'crossed' | 'seeded';
+}
+
+export interface ScoringRules {
+  setsToWin: number; // 2 = best of three
+  pointsPerSet: number;
+  tiebreakSetPoints: number; // points of the deciding set
+  winByTwo: boolean;
+  maxPoints: number | null; // cap when playing win-by-two; null = no cap
+}
+
+export interface SwissBye {
+  round: number;
+  teamId: string;
+}
+
+export interface SwissStage {
+  totalRounds: number;
+  byes: SwissBye[];
 }
 
 export interface Category {
   id: string;
   name: string;
   teamIds: string[];
+  scoring?: ScoringRules; // defaults to DEFAULT_SCORING_RULES
+  standingsRules?: StandingsRules; // defaults to DEFAULT_STANDINGS_RULES
+  expelledTeamIds?: string[]; // Teams whose results are left out of the standings
+  groupStage?: GroupStage;
+  swiss?: SwissStage;
+  playoff?: KnockoutStage;
+  eligibility?: EligibilityRules; // none = open to everyone
+  licenceCheck?: 'block' | 'warn'; // none = licences are not checked
+  fees?: FeeSchedule; // none = free entry and no fines
+}
+
+export interface FeeSchedule {
+  inscription: number; // charged to each team entered in the category
+  walkoverFine: number; // charged to the team that does not show up
+}
+
+export type ChargeKind = 'inscription' | 'walkoverFine' | 'fine' | 'other';
+
+// Something a team owes; inscriptions and walkover fines are generated, the rest entered by hand
+export interface Charge {
+  id: string;
+  teamId: string;
+  categoryId?: string;
+  kind: ChargeKind;
+  amount: number;
+  description: string;
+  date: string;
+  matchId?: string; // match whose incident the fine is for
+  teamName?: string; // stored when the team is deleted, so its history stays readable
+}
+
+export type PaymentMethod = 'cash' | 'transfer';
+
+export interface Payment {
+  id: string;
+  teamId: string;
+  amount: number;
+  method: PaymentMethod;
+  receiptNumber: string;
+  date: string;
+  note?: string;
+  teamName?: string; // stored when the team is deleted, so issued receipts stay on record
+}
+
+export interface EligibilityRules {
+  minAge?: number;
+  maxAge?: number; // inclusive: sub-13 is a maximum age of 12
+  cutoffDate?: string; // ages are taken on this date; defaults to 31 December of the current year
+  gender?: Gender; // none = mixed
+  maxPlayersPerTeam?: number;
+  enforcement: 'block' | 'warn'; // 'block' stops ineligible assignments, 'warn' only flags them
+}
+
+export type CategorySettings = Pick<Category, 'scoring' | 'standingsRules' | 'eligibility' | 'licenceCheck' | 'fees'>;
+
+export interface Court {
+  id: string;
+  name: string;
+  venue: string; // Frontón or sports centre the court belongs to
+}
+
+export interface ScheduleSettings {
+  courts: Court[];
+  dayStart: string; // 'HH:MM'
+  dayEnd: string; // 'HH:MM', every slot must finish by then
+  slotMinutes: number; // length of a slot, i.e. the time booked for a match
+  minRestMinutes: number; // minimum break for a player between two matches
+}
+
+export interface MatchSlot {
+  date: string;
+  time: string;
+  courtId: string;
+}
+
+export interface FillDatesOptions {
+  startDate: string;
+  intervalDays: number; // between match days: 1 = every day, 7 = weekly
+  maxMatchesPerTeamPerDay: number;
+}
+
+export type ScheduleConflictType = 'court' | 'player' | 'rest';
+
+export interface ScheduleConflict {
+  type: ScheduleConflictType;
+  matchIds: [string, string];
+  playerIds: string[]; // players in both matches; empty if it is the same team with no players registered
+}
+
+export type OfficialConflictType = 'ownTeam' | 'overlap' | 'doubleRole';
+
+export interface OfficialConflict {
+  type: OfficialConflictType;
+  officialId: string;
+  matchIds: string[]; // one match, or the two that overlap
 }
 
 export interface TeamImportPayload {
@@ -60,4 +416,34 @@ export interface TeamImportPayload {
 export interface CategoryImportPayload {
   name: string;
   teamNames: string[];
-}
\ No newline at end of file
+}
+export interface GroupStagePayload extends Omit<GroupStage, 'groups'> {
+  groupCount: number;
+  teamIds: string[]; // in seed order
+}
+
+// What the public display needs to render, sent by the main window on every change
+export interface DisplaySnapshot {
+  categories: Category[];
+  teams: Team[];
+  matches: Match[];
+  schedule: ScheduleSettings;
+}
+
+// One side of a rated match. Keys identify teams and players across championships:
+// the team name and the player's ID card, since ids change from one championship to another
+export interface RatedSide {
+  key: string;
+  name: string;
+  players: { key: string; name: string }[];
+}
+
+// A finished result as the rating engine needs it; kept after its championship is closed
+export interface RatedResult {
+  matchId: string;
+  date: string;
+  round?: number;
+  sides: [RatedSide, RatedSide];
+  sets: [number, number];
+  winner: 0 | 1;
+}
@@ -0,0 +1,281 @@
+import { Team, Match, Category, KnockoutStage, KnockoutOptions, BracketNode, BracketSource } from '../types';
+import { createPendingMatch } from './tournamentUtils';
+import { isMatchDecided } from './scoringUtils';
+
+/**
+ * State of a bracket slot: a known team, a bye (the slot will never be filled)
+ * or `null` while it still depends on a match that has not been played.
+ */
+export type SlotState = Team | 'bye' | null;
+
+export interface ResolvedNode {
+  node: BracketNode;
+  team1: SlotState;
+  team2: SlotState;
+  winner: SlotState;
+  loser: SlotState;
+  match?: Match;
+}
+
+/**
+ * Standard seeding order for a bracket of the given size (a power of two), e.g.
+ * [1, 8, 4, 5, 2, 7, 3, 6] for 8, so the top seeds can only meet in the last rounds.
+ */
+const getSeedOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const nextSize = order.length * 2;
+    order = order.flatMap(seed => [seed, nextSize + 1 - seed]);
+  }
+  return order;
+};
+
+export const getBracketSize = (teamCount: number): number => {
+  let size = 2;
+  while (size < teamCount) size *= 2;
+  return size;
+};
+
+const nodeId = (section: 'main' | 'losers' | 'consolation', round: number, position: number) => `${section}-${round}-${position}`;
+
+/**
+ * Builds a single-elimination tree for a section: round 1 takes the given sources
+ * in pairs and every later round pairs the winners of the previous one.
+ */
+const buildEliminationRounds = (section: 'main' | 'consolation', firstRoundSources: BracketSource[]): BracketNode[] => {
+  const nodes: BracketNode[] = [];
+  let sources = firstRoundSources;
+  for (let round = 1; sources.length > 1; round++) {
+    const roundNodes: BracketNode[] = [];
+    for (let position = 0; position < sources.length / 2; position++) {
+      roundNodes.push({ id: nodeId(section, round, position), section, round, position, sources: [sources[position * 2], sources[position * 2 + 1]] });
+    }
+    nodes.push(...roundNodes);
+    sources = roundNodes.map(node => ({ type: 'winner', nodeId: node.id }));
+  }
+  return nodes;
+};
+
+/**
+ * Losers' bracket for a winners' bracket of the given size. Losers of round 1 play
+ * each other; after that, rounds alternate between a "drop-in" round, where the
+ * survivors meet the teams just eliminated from the winners' bracket (in reverse
+ * order, to delay rematches), and a round where the survivors play each other.
+ */
+const buildLosersBracket = (size: number, winnersRounds: number): BracketNode[] => {
+  const nodes: BracketNode[] = [];
+  if (winnersRounds < 2) return nodes;
+
+  const add = (round: number, position: number, sources: [BracketSource, BracketSource]) =>
+    nodes.push({ id: nodeId('losers', round, position), section: 'losers', round, position, sources });
+
+  for (let position = 0; position < size / 4; position++) {
+    add(1, position, [{ type: 'loser', nodeId: nodeId('main', 1, position * 2) }, { type: 'loser', nodeId: nodeId('main', 1, position * 2 + 1) }]);
+  }
+
+  for (let winnersRound = 2; winnersRound <= winnersRounds; winnersRound++) {
+    const dropInRound = 2 * (winnersRound - 1);
+    const count = size / 2 ** winnersRound;
+    for (let position = 0; position < count; position++) {
+      add(dropInRound, position, [
+        { type: 'winner', nodeId: nodeId('losers', dropInRound - 1, position) },
+        { type: 'loser', nodeId: nodeId('main', winnersRound, count - 1 - position) },
+      ]);
+    }
+    if (winnersRound < winnersRounds) {
+      for (let position = 0; position < count / 2; position++) {
+        add(dropInRound + 1, position, [
+          { type: 'winner', nodeId: nodeId('losers', dropInRound, position * 2) },
+          { type: 'winner', nodeId: nodeId('losers', dropInRound, position * 2 + 1) },
+        ]);
+      }
+    }
+  }
+
+  return nodes;
+};
+
+export const generateKnockoutStage = (seedTeamIds: string[], options: KnockoutOptions): KnockoutStage => {
+  const size = getBracketSize(seedTeamIds.length);
+  const totalRounds = Math.log2(size);
+  const seedOrder = getSeedOrder(size);
+
+  const nodes = buildEliminationRounds('main', seedOrder.map(seed => ({ type: 'seed', seed })));
+  const finalId = nodeId('main', totalRounds, 0);
+
+  if (options.format === 'double') {
+    const losersNodes = buildLosersBracket(size, totalRounds);
+    nodes.push(...losersNodes);
+    // With only two teams there is no losers' bracket: the final's loser gets the second chance
+    const losersChampion: BracketSource = losersNodes.length > 0
+      ? { type: 'winner', nodeId: losersNodes[losersNodes.length - 1].id }
+      : { type: 'loser', nodeId: finalId };
+    nodes.push({
+      id: 'grandFinal',
+      section: 'grandFinal',
+      round: 1,
+      position: 0,
+      sources: [{ type: 'winner', nodeId: finalId }, losersChampion],
+    });
+    nodes.push({
+      id: 'grandFinalReset',
+      section: 'grandFinalReset',
+      round: 2,
+      position: 0,
+      sources: [{ type: 'winner', nodeId: 'grandFinal' }, { type: 'loser', nodeId: 'grandFinal' }],
+      resetOf: 'grandFinal',
+    });
+    return { ...options, thirdPlaceMatch: false, consolation: false, seedTeamIds, nodes };
+  }
+
+  if (options.thirdPlaceMatch && totalRounds >= 2) {
+    nodes.push({
+      id: 'thirdPlace',
+      section: 'thirdPlace',
+      round: totalRounds,
+      position: 0,
+      sources: [{ type: 'loser', nodeId: nodeId('main', totalRounds - 1, 0) }, { type: 'loser', nodeId: nodeId('main', totalRounds - 1, 1) }],
+    });
+  }
+
+  if (options.consolation && size >= 4) {
+    const firstRoundLosers = nodes
+      .filter(node => node.section === 'main' && node.round === 1)
+      .map((node): BracketSource => ({ type: 'loser', nodeId: node.id }));
+    nodes.push(...buildEliminationRounds('consolation', firstRoundLosers));
+  }
+
+  return { ...options, seedTeamIds, nodes };
+};
+
+/**
+ * Walks the bracket in node order (feeders always come first) and works out who
+ * occupies each slot from the seeds and the results of the category's matches.
+ */
+export const resolveBracket = (stage: KnockoutStage, teams: Team[], matches: Match[]): Map<string, ResolvedNode> => {
+  const resolved = new Map<string, ResolvedNode>();
+
+  const resolveSource = (source: BracketSource): SlotState => {
+    switch (source.type) {
+      case 'seed': {
+        const teamId = stage.seedTeamIds[source.seed - 1];
+        return teams.find(t => t.id === teamId) || 'bye';
+      }
+      case 'winner':
+        return resolved.get(source.nodeId)?.winner ?? null;
+      case 'loser':
+        return resolved.get(source.nodeId)?.loser ?? null;
+    }
+  };
+
+  // A reset is a rematch of the grand final, needed only if the losers' bracket champion won it
+  const resolveReset = (resetOf: string): [SlotState, SlotState] => {
+    const grandFinal = resolved.get(resetOf);
+    if (!grandFinal || grandFinal.winner === null) return [null, null];
+    const { team1, team2, winner } = grandFinal;
+    const isNeeded = team1 && team2 && team1 !== 'bye' && team2 !== 'bye' && winner !== 'bye' && winner.id === team2.id;
+    return isNeeded ? [team1, team2] : ['bye', 'bye'];
+  };
+
+  stage.nodes.forEach(node => {
+    const [team1, team2] = node.resetOf
+      ? resolveReset(node.resetOf)
+      : [resolveSource(node.sources[0]), resolveSource(node.sources[1])];
+    const result: ResolvedNode = { node, team1, team2, winner: null, loser: null };
+
+    if (team1 === null || team2 === null) {
+      // Still waiting on a feeder match
+    } else if (team1 === 'bye' || team2 === 'bye') {
+      result.winner = team1 === 'bye' ? team2 : team1;
+      result.loser = 'bye';
+    } else {
+      const match = matches.find(m => m.bracketNodeId === node.id);
+      result.match = match;
+      if (match && isMatchDecided(match)) {
+        const team1Won = match.winner!.id === team1.id;
+        result.winner = team1Won ? team1 : team2;
+        result.loser = team1Won ? team2 : team1;
+      }
+    }
+
+    resolved.set(node.id, result);
+  });
+
+  return resolved;
+};
+
+/**
+ * Returns the knockout matches the category should have given the current results:
+ * a match for every node whose two teams are known, keeping existing matches (and
+ * their scores) whenever their pairing is still valid. Editing an earlier result
+ * therefore replaces or removes the later matches it no longer feeds.
+ */
+export const syncBracketMatches = (category: Category, teams: Team[], matches: Match[]): Match[] => {
+  const stage = category.playoff;
+  if (!stage) return [];
+
+  const categoryMatches = matches.filter(m => m.categoryId === category.id && m.bracketNodeId);
+  const resolved = resolveBracket(stage, teams, categoryMatches);
+  const timestamp = Date.now();
+  const bracketMatches: Match[] = [];
+
+  stage.nodes.forEach(node => {
+    const { team1, team2 } = resolved.get(node.id)!;
+    if (!team1 || !team2 || team1 === 'bye' || team2 === 'bye') return;
+
+    const existing = categoryMatches.find(m => m.bracketNodeId === node.id);
+    if (existing && existing.team1.id === team1.id && existing.team2.id === team2.id) {
+      bracketMatches.push(existing);
+    } else {
+      bracketMatches.push(createPendingMatch(`match-${timestamp}-${node.id}`, category, team1, team2, { bracketNodeId: node.id }));
+    }
+  });
+
+  return bracketMatches;
+};
+
+/**
+ * Re-syncs the knockout matches of a single category inside the full match list.
+ */
+export const applyBracketSync = (category: Category, teams: Team[], matches: Match[]): Match[] => [
+  ...matches.filter(m => m.categoryId !== category.id || !m.bracketNodeId),
+  ...syncBracketMatches(category, teams, matches),
+];
+
+export const getBracketRoundName = (node: BracketNode, stage: KnockoutStage): string => {
+  const lastRound = Math.max(...stage.nodes.filter(n => n.section === node.section).map(n => n.round));
+  switch (node.section) {
+    case 'thirdPlace': return 'Tercer Puesto';
+    case 'grandFinal': return 'Gran Final';
+    case 'grandFinalReset': return 'Gran Final (Desempate)';
+    case 'losers':
+      return node.round === lastRound ? 'Final de Perdedores' : `Perdedores - Ronda ${node.round}`;
+    case 'consolation':
+      return node.round === lastRound ? 'Final de Consolación' : `Consolación - Ronda ${node.round}`;
+    case 'main':
+      break;
+  }
+
+  switch (lastRound - node.round) {
+    case 0: return stage.format === 'double' ? 'Final de Ganadores' : 'Final';
+    case 1: return 'Semifinales';
+    case 2: return 'Cuartos de Final';
+    case 3: return 'Octavos de Final';
+    default: return `Ronda ${node.round}`;
+  }
+};
+
+/**
+ * Groups knockout matches under their round name ("Cuartos de Final", "Final"...),
+ * in bracket order.
+ */
+export const groupMatchesByBracketRound = (stage: KnockoutStage, matches: Match[]): { name: string; matches: Match[] }[] => {
+  const groups = new Map<string, Match[]>();
+  stage.nodes.forEach(node => {
+    const match = matches.find(m => m.bracketNodeId === node.id);
+    if (!match) return;
+    const name = getBracketRoundName(node, stage);
+    groups.set(name, [...(groups.get(name) || []), match]);
+  });
+  return Array.from(groups.entries()).map(([name, roundMatches]) => ({ name, matches: roundMatches }));
+};
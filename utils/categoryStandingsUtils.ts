@@ -0,0 +1,80 @@
+import { Category, Match, Standings, Team } from '../types';
+import { calculateStandings, calculateSwissStandings } from './tournamentUtils';
+import { calculateGroupStandings, GroupStandings } from './groupUtils';
+import { getScoringRules, isMatchDecided } from './scoringUtils';
+import { getStandingsRules } from './standingsUtils';
+
+/**
+ * League (or Swiss) standings of a category and, with a group phase, the standings
+ * of each group. Expelled teams and knockout matches are left out, as in the main table.
+ */
+export const getCategoryStandings = (category: Category, teams: Team[], matches: Match[]): { standings: Standings[]; groupStandings?: GroupStandings[] } => {
+  const expelled = category.expelledTeamIds || [];
+  const rankedTeams = teams.filter(t => category.teamIds.includes(t.id) && !expelled.includes(t.id));
+  const leagueMatches = matches.filter(m => m.categoryId === category.id && !m.bracketNodeId);
+  if (rankedTeams.length === 0) return { standings: [] };
+
+  const rules = getStandingsRules(category);
+  const scoring = getScoringRules(category);
+  const standings = category.swiss
+    ? calculateSwissStandings(rankedTeams, leagueMatches, category.swiss, rules, scoring)
+    : calculateStandings(rankedTeams, leagueMatches, rules, scoring);
+  const groupStandings = category.groupStage && calculateGroupStandings(category.groupStage, rankedTeams, leagueMatches, rules, scoring);
+  return { standings, groupStandings };
+};
+
+export interface StandingsSnapshot {
+  label: string; // 'J3' when replaying by round, the date otherwise
+  ranks: Record<string, number>; // 1-based position of each team in its own table (its group, if any)
+}
+
+const getRanks = ({ standings, groupStandings }: ReturnType<typeof getCategoryStandings>): Record<string, number> => {
+  const tables = groupStandings ? groupStandings.map(g => g.standings) : [standings];
+  return Object.fromEntries(tables.flatMap(table => table.map((s, i) => [s.team.id, i + 1])));
+};
+
+/**
+ * Replays the category's league results step by step: after each round when every
+ * played match has one, otherwise after each match day. Undated matches cannot be
+ * placed in time when replaying by date and are left out.
+ */
+export const getStandingsHistory = (category: Category, teams: Team[], matches: Match[]): StandingsSnapshot[] => {
+  const played = matches.filter(m => m.categoryId === category.id && !m.bracketNodeId && isMatchDecided(m));
+  const byRound = played.length > 0 && played.every(m => m.round !== undefined);
+  const replayed = byRound ? played : played.filter(m => m.date);
+  const steps = byRound
+    ? Array.from(new Set(replayed.map(m => m.round!))).sort((a, b) => a - b)
+    : Array.from(new Set(replayed.map(m => m.date))).sort();
+
+  return steps.map(step => {
+    const cumulative = replayed.filter(m => (byRound ? m.round! <= (step as number) : m.date <= (step as string)));
+    // Swiss byes are given per round, so only those already played count
+    const lastRound = Math.max(0, ...cumulative.map(m => m.round ?? 0));
+    const stepCategory = category.swiss
+      ? { ...category, swiss: { ...category.swiss, byes: category.swiss.byes.filter(b => b.round <= lastRound) } }
+      : category;
+    return {
+      label: byRound ? `J${step}` : new Date(`${step}T00:00:00`).toLocaleDateString('es-ES', { day: '2-digit', month: '2-digit' }),
+      ranks: getRanks(getCategoryStandings(stepCategory, teams, cumulative)),
+    };
+  });
+};
+
+// Places gained (positive) or lost since the previous snapshot
+export const getRankMovement = (history: StandingsSnapshot[]): Record<string, number> => {
+  if (history.length < 2) return {};
+  const [previous, last] = history.slice(-2);
+  return Object.fromEntries(Object.keys(last.ranks)
+    .filter(teamId => previous.ranks[teamId] !== undefined)
+    .map(teamId => [teamId, previous.ranks[teamId] - last.ranks[teamId]]));
+};
+
+export type FormResult = 'W' | 'L';
+
+// Last results of a team in the category, oldest first: by jornada, then date, with undated matches last
+export const getTeamForm = (teamId: string, matches: Match[], count = 5): FormResult[] =>
+  matches
+    .filter(m => isMatchDecided(m) && (m.team1.id === teamId || m.team2.id === teamId))
+    .sort((a, b) => (a.round ?? Infinity) - (b.round ?? Infinity) || (a.date || '9999').localeCompare(b.date || '9999'))
+    .slice(-count)
+    .map(m => (m.winner?.id === teamId ? 'W' : 'L'));
@@ -0,0 +1,137 @@
+import { BracketSection, Category, Club, Match, MatchStatus, Team } from '../types';
+import { getCategoryStandings } from './categoryStandingsUtils';
+import { SlotState, resolveBracket } from './bracketUtils';
+import { isMatchDecided } from './scoringUtils';
+
+// Club ranking points for 1st, 2nd, 3rd... of each category; lower places score nothing
+export const CLUB_PLACEMENT_POINTS = [10, 8, 6, 5, 4, 3, 2, 1];
+
+export interface Placement {
+  teamId: string;
+  position: number; // 1-based; both semifinal losers are 3rd when there is no third-place match
+}
+
+export interface CategoryPlacements {
+  category: Category;
+  finished: boolean;
+  placements: Placement[]; // best first
+}
+
+export interface ClubRankingEntry {
+  club: Club;
+  teams: number; // teams of the club entered in some category
+  gold: number;
+  silver: number;
+  bronze: number;
+  points: number;
+}
+
+// Club of each team by team id, for badges next to team names
+export const getTeamClubs = (teams: Team[], clubs: Club[]): Record<string, Club> =>
+  Object.fromEntries(teams.flatMap(t => {
+    const club = clubs.find(c => c.id === t.clubId);
+    return club ? [[t.id, club]] : [];
+  }));
+
+export const getClubInitials = (club: Club): string =>
+  club.name.split(/\s+/).filter(Boolean).slice(0, 2).map(word => word[0].toUpperCase()).join('');
+
+const isTeam = (slot: SlotState): slot is Team => slot !== null && slot !== 'bye';
+
+/**
+ * Podium of a finished knockout stage, or null while the title (or the third-place
+ * match) is still to be played. In double elimination the bronze goes to the loser
+ * of the losers' bracket final.
+ */
+const getBracketPodium = (category: Category, teams: Team[], matches: Match[]): Placement[] | null => {
+  const stage = category.playoff!;
+  const resolved = resolveBracket(stage, teams, matches.filter(m => m.categoryId === category.id && m.bracketNodeId));
+  const nodes = Array.from(resolved.values());
+  const lastOf = (section: BracketSection) => {
+    const inSection = nodes.filter(r => r.node.section === section);
+    const lastRound = Math.max(...inSection.map(r => r.node.round));
+    return inSection.filter(r => r.node.round === lastRound);
+  };
+
+  const reset = nodes.find(r => r.node.section === 'grandFinalReset');
+  const final = stage.format === 'double'
+    ? (reset && isTeam(reset.team1) ? reset : nodes.find(r => r.node.section === 'grandFinal'))
+    : lastOf('main')[0];
+  if (!final || !isTeam(final.winner)) return null;
+
+  const podium: Placement[] = [{ teamId: final.winner.id, position: 1 }];
+  if (isTeam(final.loser)) podium.push({ teamId: final.loser.id, position: 2 });
+
+  const thirdPlace = nodes.find(r => r.node.section === 'thirdPlace');
+  if (thirdPlace) {
+    if (!isTeam(thirdPlace.winner)) return null;
+    podium.push({ teamId: thirdPlace.winner.id, position: 3 });
+    if (isTeam(thirdPlace.loser)) podium.push({ teamId: thirdPlace.loser.id, position: 4 });
+  } else {
+    const bronzeNodes = stage.format === 'double'
+      ? lastOf('losers')
+      : nodes.filter(r => r.node.section === 'main' && r.node.round === final.node.round - 1);
+    bronzeNodes.forEach(r => { if (isTeam(r.loser)) podium.push({ teamId: r.loser.id, position: 3 }); });
+  }
+  return podium;
+};
+
+/**
+ * Final classification of a category. The knockout stage, once decided, sets the
+ * podium and the league (or group) standings order everyone else; until then the
+ * league standings stand in as a provisional classification.
+ */
+export const getCategoryPlacements = (category: Category, teams: Team[], matches: Match[]): CategoryPlacements => {
+  const leagueMatches = matches.filter(m => m.categoryId === category.id && !m.bracketNodeId);
+  const leagueOrder = getCategoryStandings(category, teams, matches).standings.map(s => s.team.id);
+  const toPlacements = (teamIds: string[], offset = 0) => teamIds.map((teamId, index) => ({ teamId, position: offset + index + 1 }));
+
+  if (category.playoff) {
+    const podium = getBracketPodium(category, teams, matches);
+    if (!podium) return { category, finished: false, placements: toPlacements(leagueOrder) };
+    const placed = new Set(podium.map(p => p.teamId));
+    return { category, finished: true, placements: [...podium, ...toPlacements(leagueOrder.filter(id => !placed.has(id)), podium.length)] };
+  }
+
+  const finished = leagueMatches.some(isMatchDecided) && leagueMatches.every(m => isMatchDecided(m) || m.status === MatchStatus.Annulled);
+  return { category, finished, placements: toPlacements(leagueOrder) };
+};
+
+/**
+ * Medals (finished categories only) and ranking points (every category, from its
+ * current classification) of each club with teams entered in the championship.
+ */
+export const getClubRanking = (clubs: Club[], teams: Team[], results: CategoryPlacements[]): ClubRankingEntry[] => {
+  const entries = new Map<string, ClubRankingEntry>();
+  const getEntry = (teamId: string) => {
+    const club = clubs.find(c => c.id === teams.find(t => t.id === teamId)?.clubId);
+    if (!club) return null;
+    if (!entries.has(club.id)) entries.set(club.id, { club, teams: 0, gold: 0, silver: 0, bronze: 0, points: 0 });
+    return entries.get(club.id)!;
+  };
+
+  new Set(results.flatMap(r => r.category.teamIds)).forEach(teamId => {
+    const entry = getEntry(teamId);
+    if (entry) entry.teams++;
+  });
+
+  results.forEach(({ finished, placements }) => {
+    placements.forEach(({ teamId, position }) => {
+      const entry = getEntry(teamId);
+      if (!entry) return;
+      entry.points += CLUB_PLACEMENT_POINTS[position - 1] ?? 0;
+      if (!finished) return;
+      if (position === 1) entry.gold++;
+      else if (position === 2) entry.silver++;
+      else if (position === 3) entry.bronze++;
+    });
+  });
+
+  return Array.from(entries.values());
+};
+
+export const sortByMedals = (entries: ClubRankingEntry[]): ClubRankingEntry[] =>
+  [...entries].sort((a, b) => b.gold - a.gold || b.silver - a.silver || b.bronze - a.bronze || a.club.name.localeCompare(b.club.name));
+
+export const sortByPoints = (entries: ClubRankingEntry[]): ClubRankingEntry[] =>
+  [...entries].sort((a, b) => b.points - a.points || b.gold - a.gold || a.club.name.localeCompare(b.club.name));
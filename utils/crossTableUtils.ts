@@ -0,0 +1,57 @@
+import { GroupStage, Match, MatchStatus, ScoringRules, Team } from '../types';
+import { getMatchResult, isMatchDecided } from './scoringUtils';
+
+export type CrossTableOutcome = 'win' | 'loss' | 'pending' | 'void';
+
+export interface CrossTableEntry {
+  match: Match;
+  outcome: CrossTableOutcome;
+  label: string; // result seen from the row team
+}
+
+export interface CrossTable {
+  title: string | null;
+  teams: Team[];
+  // entries[row][column], ordered by round and date; the diagonal is empty
+  entries: CrossTableEntry[][][];
+}
+
+const getEntry = (rowTeamId: string, match: Match, rules: ScoringRules): CrossTableEntry => {
+  const side = match.team1.id === rowTeamId ? 'team1' : 'team2';
+  const otherSide = side === 'team1' ? 'team2' : 'team1';
+  if (match.status === MatchStatus.Annulled) return { match, outcome: 'void', label: 'Anul.' };
+  if (!isMatchDecided(match)) return { match, outcome: 'pending', label: '-' };
+
+  const outcome = match.winner?.id === rowTeamId ? 'win' : 'loss';
+  if (match.status === MatchStatus.Walkover) return { match, outcome, label: 'W.O.' };
+  const result = getMatchResult(match.sets, rules);
+  const label = `${result[side]}-${result[otherSide]}${match.status === MatchStatus.Retired ? ' (ret.)' : ''}`;
+  return { match, outcome, label };
+};
+
+const buildTable = (title: string | null, teams: Team[], matches: Match[], rules: ScoringRules): CrossTable => ({
+  title,
+  teams,
+  entries: teams.map(row => teams.map(column => {
+    if (row.id === column.id) return [];
+    return matches
+      .filter(m => (m.team1.id === row.id && m.team2.id === column.id) || (m.team1.id === column.id && m.team2.id === row.id))
+      .sort((a, b) => (a.round ?? 0) - (b.round ?? 0) || a.date.localeCompare(b.date))
+      .map(m => getEntry(row.id, m, rules));
+  })),
+});
+
+/**
+ * Head-to-head tables of a category's league matches: one per group with a group
+ * phase, otherwise a single table. Knockout matches are left out.
+ */
+export const buildCrossTables = (teams: Team[], matches: Match[], rules: ScoringRules, groupStage?: GroupStage): CrossTable[] => {
+  const leagueMatches = matches.filter(m => !m.bracketNodeId);
+  if (!groupStage) return [buildTable(null, teams, leagueMatches, rules)];
+  return groupStage.groups.map(group => buildTable(
+    `Grupo ${group.name}`,
+    teams.filter(t => group.teamIds.includes(t.id)),
+    leagueMatches.filter(m => m.groupId === group.id),
+    rules,
+  ));
+};
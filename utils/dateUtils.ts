@@ -0,0 +1,5 @@
+// Today as YYYY-MM-DD in local time; toISOString() would give the UTC date, a day ahead in the evening west of Greenwich
+export const todayIso = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
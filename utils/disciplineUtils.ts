@@ -0,0 +1,122 @@
+import { DisciplinaryCard, Match, Player, Sanction, Team } from '../types';
+import { isMatchDecided } from './scoringUtils';
+
+export const CARD_LABELS: Record<DisciplinaryCard, string> = {
+  yellow: 'Amarilla',
+  red: 'Roja',
+};
+
+const formatDate = (date: string) => new Date(date + 'T00:00:00').toLocaleDateString('es-ES');
+
+export const describeSanction = (sanction: Sanction): string => {
+  const parts = [
+    sanction.matches ? `${sanction.matches} ${sanction.matches === 1 ? 'partido' : 'partidos'}` : '',
+    sanction.until ? `hasta el ${formatDate(sanction.until)}` : '',
+  ].filter(Boolean);
+  return parts.join(' y ');
+};
+
+const getPlayerTeamIds = (playerId: string, teams: Team[]) => teams.filter(t => t.playerIds.includes(playerId)).map(t => t.id);
+
+// Fixture order: by date when both matches have one, otherwise by jornada, with dated matches first
+const compareMatchOrder = (a: Match, b: Match): number => {
+  if (a.date && b.date && a.date !== b.date) return a.date.localeCompare(b.date);
+  return (a.round ?? 0) - (b.round ?? 0) || Number(!a.date) - Number(!b.date);
+};
+
+/**
+ * Whether the match comes after the sanction started. Undated matches are still to
+ * be played, so they count unless their jornada is not later than the offence's.
+ */
+const isAfterSanctionStart = (match: Match, sanction: Sanction, offence?: Match): boolean => {
+  if (match.date) return match.date >= sanction.startDate;
+  if (offence && offence.categoryId === match.categoryId && offence.round !== undefined && match.round !== undefined) {
+    return match.round > offence.round;
+  }
+  return true;
+};
+
+// Matches of the player's teams the sanction applies to, in fixture order, leaving out the one where the offence happened
+const getSanctionMatches = (sanction: Sanction, matches: Match[], teams: Team[]): Match[] => {
+  const teamIds = getPlayerTeamIds(sanction.playerId, teams);
+  const offence = matches.find(m => m.id === sanction.matchId);
+  return matches
+    .filter(m =>
+      m.id !== sanction.matchId
+      && (!sanction.categoryId || m.categoryId === sanction.categoryId)
+      && (teamIds.includes(m.team1.id) || teamIds.includes(m.team2.id))
+      && isAfterSanctionStart(m, sanction, offence)
+    )
+    .sort(compareMatchOrder);
+};
+
+/**
+ * Matches already served: decided matches of the player's teams since the sanction
+ * started, counting only those before `upTo` in fixture order when given.
+ */
+export const countServedMatches = (sanction: Sanction, matches: Match[], teams: Team[], upTo?: Match): number =>
+  getSanctionMatches(sanction, matches, teams)
+    .filter(m => isMatchDecided(m) && (!upTo || (m.id !== upTo.id && compareMatchOrder(m, upTo) <= 0)))
+    .length;
+
+export const isSanctionServed = (sanction: Sanction, matches: Match[], teams: Team[], today: string): boolean => {
+  const matchesServed = !sanction.matches || countServedMatches(sanction, matches, teams) >= sanction.matches;
+  const dateServed = !sanction.until || sanction.until < today;
+  return matchesServed && dateServed;
+};
+
+// A decided match is covered if the ban was not yet served before it; a pending one if it is among the next matches still to serve
+const isCoveredByMatchBan = (sanction: Sanction, match: Match, matches: Match[], teams: Team[]): boolean => {
+  const sanctionMatches = getSanctionMatches(sanction, matches, teams);
+  if (!sanction.matches || !sanctionMatches.some(m => m.id === match.id)) return false;
+  if (isMatchDecided(match)) return countServedMatches(sanction, matches, teams, match) < sanction.matches;
+  const remaining = sanction.matches - countServedMatches(sanction, matches, teams);
+  return sanctionMatches.filter(m => !isMatchDecided(m)).findIndex(m => m.id === match.id) < remaining;
+};
+
+/**
+ * Sanctions that keep a player out of a match. Undated matches are checked
+ * against today's date.
+ */
+export const getBlockingSanctions = (playerId: string, match: Match, sanctions: Sanction[], matches: Match[], teams: Team[], today: string): Sanction[] => {
+  const matchDate = match.date || today;
+  return sanctions.filter(sanction => {
+    if (sanction.playerId !== playerId || sanction.matchId === match.id) return false;
+    if (sanction.categoryId && sanction.categoryId !== match.categoryId) return false;
+    const byMatches = isCoveredByMatchBan(sanction, match, matches, teams);
+    const byDate = !!sanction.until && matchDate >= sanction.startDate && matchDate <= sanction.until;
+    return byMatches || byDate;
+  });
+};
+
+export interface SuspendedPlayer {
+  player: Player;
+  team: Team;
+  sanctions: Sanction[];
+}
+
+export const getSuspendedPlayers = (match: Match, players: Player[], teams: Team[], sanctions: Sanction[], matches: Match[], today: string): SuspendedPlayer[] =>
+  [match.team1, match.team2].flatMap(matchTeam => {
+    const team = teams.find(t => t.id === matchTeam.id) ?? matchTeam;
+    return players
+      .filter(p => team.playerIds.includes(p.id))
+      .map(player => ({ player, team, sanctions: getBlockingSanctions(player.id, match, sanctions, matches, teams, today) }))
+      .filter(s => s.sanctions.length > 0);
+  });
+
+export interface CardCount {
+  playerId: string;
+  yellow: number;
+  red: number;
+}
+
+// Cards per player over the given matches, most sanctioned first
+export const countCards = (matches: Match[]): CardCount[] => {
+  const counts = new Map<string, CardCount>();
+  matches.forEach(m => (m.disciplinary || []).forEach(incident => {
+    const count = counts.get(incident.playerId) ?? { playerId: incident.playerId, yellow: 0, red: 0 };
+    count[incident.card]++;
+    counts.set(incident.playerId, count);
+  }));
+  return Array.from(counts.values()).sort((a, b) => b.red - a.red || b.yellow - a.yellow);
+};
@@ -0,0 +1,72 @@
+import { Category, DisplaySnapshot, Match, MatchSet, MatchStatus } from '../types';
+import { getMatchResult, getScoringRules } from './scoringUtils';
+import { DEFAULT_SCHEDULE_SETTINGS } from './scheduleUtils';
+import { replayRallies, Side } from './liveScoringUtils';
+
+export const DISPLAY_HASH = '#pantalla';
+
+const DISPLAY_CHANNEL = 'fronton-display';
+
+export const publishDisplaySnapshot = (snapshot: DisplaySnapshot) => {
+  if (typeof BroadcastChannel === 'undefined') return;
+  const channel = new BroadcastChannel(DISPLAY_CHANNEL);
+  channel.postMessage(snapshot);
+  channel.close();
+};
+
+// Returns the unsubscribe function
+export const subscribeToDisplaySnapshots = (onSnapshot: (snapshot: DisplaySnapshot) => void): (() => void) => {
+  if (typeof BroadcastChannel === 'undefined') return () => {};
+  const channel = new BroadcastChannel(DISPLAY_CHANNEL);
+  channel.onmessage = event => onSnapshot(event.data as DisplaySnapshot);
+  return () => channel.close();
+};
+
+const readStored = <T>(key: string, defaultValue: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : defaultValue;
+  } catch {
+    return defaultValue;
+  }
+};
+
+// The last state the main window persisted, to show something before the first broadcast
+export const readStoredSnapshot = (): DisplaySnapshot => ({
+  categories: readStored('categories', []),
+  teams: readStored('teams', []),
+  matches: readStored('matches', []),
+  schedule: readStored('schedule', DEFAULT_SCHEDULE_SETTINGS),
+});
+
+// A score typed in set by set only counts on the match day, so leftovers on postponed matches are ignored
+const hasStarted = (match: Match, today: string) =>
+  !!match.rallies?.length || (match.date === today && match.sets.some(set => set.team1 !== null || set.team2 !== null));
+
+// Pending matches with some score already in: being scored live or filled in as they go
+export const getMatchesInProgress = (matches: Match[], today: string): Match[] =>
+  matches.filter(m => m.status === MatchStatus.Pending && hasStarted(m, today));
+
+export const getUpcomingMatches = (matches: Match[], today: string, limit: number): Match[] =>
+  matches
+    .filter(m => m.status === MatchStatus.Pending && !hasStarted(m, today) && m.date >= today)
+    .sort((a, b) => `${a.date} ${a.time ?? ''}`.localeCompare(`${b.date} ${b.time ?? ''}`))
+    .slice(0, limit);
+
+export interface DisplayScore {
+  setsWon: { team1: number; team2: number };
+  setNumber: number;
+  current: MatchSet;
+  server?: Side; // only known for matches scored point by point
+}
+
+export const getDisplayScore = (match: Match, category?: Category): DisplayScore => {
+  const rules = getScoringRules(category);
+  if (match.rallies?.length && match.firstServer) {
+    const live = replayRallies(match.rallies, rules, match.firstServer);
+    return { setsWon: getMatchResult(live.sets, rules), setNumber: live.currentSet + 1, current: live.sets[live.currentSet], server: live.server };
+  }
+  const result = getMatchResult(match.sets, rules);
+  const lastIndex = Math.max(0, match.sets.map(set => set.team1 !== null || set.team2 !== null).lastIndexOf(true));
+  return { setsWon: result, setNumber: lastIndex + 1, current: match.sets[lastIndex] ?? { team1: null, team2: null } };
+};
@@ -0,0 +1,110 @@
+import { Category, EligibilityRules, Gender, Player, Team } from '../types';
+
+export const GENDER_LABELS: Record<Gender, string> = {
+  male: 'Masculino',
+  female: 'Femenino',
+};
+
+export const ELIGIBILITY_PRESETS: { name: string; rules: Pick<EligibilityRules, 'minAge' | 'maxAge'> }[] = [
+  { name: 'Sub-13', rules: { maxAge: 12 } },
+  { name: 'Sub-15', rules: { maxAge: 14 } },
+  { name: 'Sub-18', rules: { maxAge: 17 } },
+  { name: 'Senior', rules: { minAge: 18 } },
+  { name: 'Máster', rules: { minAge: 35 } },
+];
+
+export type EligibilityViolationType = 'tooYoung' | 'tooOld' | 'noBirthDate' | 'gender' | 'noGender' | 'tooManyPlayers';
+
+export interface EligibilityViolation {
+  type: EligibilityViolationType;
+  categoryId: string;
+  teamId: string;
+  playerId?: string; // none for team-level violations
+}
+
+// Age reached on the given date, or null without a birth date
+export const getAgeOn = (birthDate: string, date: string): number | null => {
+  if (!birthDate) return null;
+  const [birthYear, birthMonth, birthDay] = birthDate.split('-').map(Number);
+  const [year, month, day] = date.split('-').map(Number);
+  const hadBirthday = month > birthMonth || (month === birthMonth && day >= birthDay);
+  return year - birthYear - (hadBirthday ? 0 : 1);
+};
+
+export const getCutoffDate = (rules: EligibilityRules, today: string): string =>
+  rules.cutoffDate || `${today.slice(0, 4)}-12-31`;
+
+export const checkPlayerEligibility = (player: Player, rules: EligibilityRules, today: string): EligibilityViolationType[] => {
+  const violations: EligibilityViolationType[] = [];
+  if (rules.minAge !== undefined || rules.maxAge !== undefined) {
+    const age = getAgeOn(player.birthDate, getCutoffDate(rules, today));
+    if (age === null) violations.push('noBirthDate');
+    else if (rules.minAge !== undefined && age < rules.minAge) violations.push('tooYoung');
+    else if (rules.maxAge !== undefined && age > rules.maxAge) violations.push('tooOld');
+  }
+  if (rules.gender) {
+    if (!player.gender) violations.push('noGender');
+    else if (player.gender !== rules.gender) violations.push('gender');
+  }
+  return violations;
+};
+
+/**
+ * Violations of a team with the given roster in a category: those of each player
+ * plus the roster size.
+ */
+export const checkTeamEligibility = (teamId: string, playerIds: string[], category: Category, players: Player[], today: string): EligibilityViolation[] => {
+  const rules = category.eligibility;
+  if (!rules) return [];
+  const violations: EligibilityViolation[] = playerIds.flatMap(playerId => {
+    const player = players.find(p => p.id === playerId);
+    return player
+      ? checkPlayerEligibility(player, rules, today).map(type => ({ type, categoryId: category.id, teamId, playerId }))
+      : [];
+  });
+  if (rules.maxPlayersPerTeam !== undefined && playerIds.length > rules.maxPlayersPerTeam) {
+    violations.push({ type: 'tooManyPlayers', categoryId: category.id, teamId });
+  }
+  return violations;
+};
+
+// Every violation in the championship, category by category
+export const findEligibilityViolations = (categories: Category[], teams: Team[], players: Player[], today: string): EligibilityViolation[] =>
+  categories.flatMap(category =>
+    teams
+      .filter(t => category.teamIds.includes(t.id))
+      .flatMap(team => checkTeamEligibility(team.id, team.playerIds, category, players, today))
+  );
+
+export const isBlocking = (category: Category): boolean => category.eligibility?.enforcement === 'block';
+
+export const describeEligibilityRules = (rules: EligibilityRules): string => {
+  const parts: string[] = [];
+  if (rules.minAge !== undefined && rules.maxAge !== undefined) parts.push(`${rules.minAge}-${rules.maxAge} años`);
+  else if (rules.maxAge !== undefined) parts.push(`${rules.maxAge} años o menos`);
+  else if (rules.minAge !== undefined) parts.push(`${rules.minAge} años o más`);
+  if (rules.gender) parts.push(GENDER_LABELS[rules.gender]);
+  if (rules.maxPlayersPerTeam !== undefined) parts.push(`máx. ${rules.maxPlayersPerTeam} jugadores`);
+  return parts.length > 0 ? parts.join(' · ') : 'Abierta';
+};
+
+export const describeEligibilityViolation = (violation: EligibilityViolation, category: Category, players: Player[], today: string): string => {
+  const player = players.find(p => p.id === violation.playerId);
+  const name = player ? `${player.firstName} ${player.lastName}` : '';
+  const rules = category.eligibility!;
+  const age = player ? getAgeOn(player.birthDate, getCutoffDate(rules, today)) : null;
+  switch (violation.type) {
+    case 'tooYoung':
+      return `${name}: ${age} años a la fecha de corte (mínimo ${rules.minAge}).`;
+    case 'tooOld':
+      return `${name}: ${age} años a la fecha de corte (máximo ${rules.maxAge}).`;
+    case 'noBirthDate':
+      return `${name} no tiene fecha de nacimiento.`;
+    case 'gender':
+      return `${name} no es del sexo de la categoría (${GENDER_LABELS[rules.gender!].toLowerCase()}).`;
+    case 'noGender':
+      return `${name} no tiene el sexo registrado.`;
+    case 'tooManyPlayers':
+      return `El equipo supera el máximo de ${rules.maxPlayersPerTeam} jugadores.`;
+  }
+};
@@ -0,0 +1,124 @@
+import { Team, Match, Category, Group, GroupStage, Standings, StandingsRules, ScoringRules } from '../types';
+import { generateRoundRobinMatches, calculateStandings, shuffle } from './tournamentUtils';
+import { compareStandings, DEFAULT_STANDINGS_RULES } from './standingsUtils';
+import { DEFAULT_SCORING_RULES, isMatchClosed } from './scoringUtils';
+import { getBracketSize } from './bracketUtils';
+
+export interface GroupStandings {
+  group: Group;
+  standings: Standings[];
+}
+
+export interface QualifierSeed {
+  teamId: string;
+  label: string; // e.g. "1º A"
+}
+
+export const getGroupName = (index: number): string => String.fromCharCode(65 + index);
+
+/**
+ * Splits the teams into groups A, B, C... Teams are expected in seed order: with
+ * snake seeding the direction flips on every row (A→D, D→A...) so each group gets
+ * a similar mix of strong and weak teams; random seeding shuffles them first.
+ */
+export const assignTeamsToGroups = (teamIds: string[], groupCount: number, seeding: GroupStage['seeding']): Group[] => {
+  const ordered = seeding === 'random' ? shuffle(teamIds) : teamIds;
+  const timestamp = Date.now();
+  const groups: Group[] = Array.from({ length: groupCount }, (_, i) => ({
+    id: `group-${timestamp}-${i}`,
+    name: getGroupName(i),
+    teamIds: [],
+  }));
+
+  ordered.forEach((teamId, index) => {
+    const row = Math.floor(index / groupCount);
+    const column = index % groupCount;
+    const groupIndex = seeding === 'snake' && row % 2 === 1 ? groupCount - 1 - column : column;
+    groups[groupIndex].teamIds.push(teamId);
+  });
+
+  return groups;
+};
+
+export const generateGroupStageMatches = (stage: GroupStage, teams: Team[], category: Category): Match[] =>
+  stage.groups.flatMap(group => {
+    const groupTeams = teams.filter(t => group.teamIds.includes(t.id));
+    return generateRoundRobinMatches(groupTeams, category, stage.twoLegged).map(match => ({
+      ...match,
+      id: `${match.id}-${group.id}`,
+      groupId: group.id,
+    }));
+  });
+
+export const calculateGroupStandings = (
+  stage: GroupStage,
+  teams: Team[],
+  matches: Match[],
+  rules: StandingsRules = DEFAULT_STANDINGS_RULES,
+  scoring: ScoringRules = DEFAULT_SCORING_RULES
+): GroupStandings[] =>
+  stage.groups.map(group => ({
+    group,
+    standings: calculateStandings(
+      teams.filter(t => group.teamIds.includes(t.id)),
+      matches.filter(m => m.groupId === group.id),
+      rules,
+      scoring
+    ),
+  }));
+
+export const isGroupStageComplete = (matches: Match[]): boolean => {
+  const groupMatches = matches.filter(m => m.groupId);
+  return groupMatches.length > 0 && groupMatches.every(isMatchClosed);
+};
+
+/**
+ * Orders the group qualifiers as knockout seeds according to the crossover rule.
+ *
+ * 'crossed' gives group winners the top seeds in group order and places each lower
+ * qualifier against the mirror position of its partner group (A↔B, C↔D...), so the
+ * first round reads 1A-2B, 1B-2A... It needs an even number of groups and a bracket
+ * with no byes; otherwise the 'seeded' rule is used, which ranks all first places
+ * by their record, then all second places, and so on.
+ */
+export const getGroupQualifierSeeds = (stage: GroupStage, groupStandings: GroupStandings[], rules: StandingsRules = DEFAULT_STANDINGS_RULES): QualifierSeed[] => {
+  const qualifiers = stage.qualifiersPerGroup;
+  const groupCount = groupStandings.length;
+  const total = qualifiers * groupCount;
+  const toSeed = (groupIndex: number, rank: number): QualifierSeed => ({
+    teamId: groupStandings[groupIndex].standings[rank - 1].team.id,
+    label: `${rank}º ${groupStandings[groupIndex].group.name}`,
+  });
+
+  const canCross = stage.crossover === 'crossed'
+    && groupCount % 2 === 0
+    && (qualifiers === 1 || qualifiers % 2 === 0)
+    && getBracketSize(total) === total
+    && groupStandings.every(g => g.standings.length >= qualifiers);
+
+  if (canCross) {
+    const seeds: QualifierSeed[] = new Array(total);
+    const seedOf = (groupIndex: number, rank: number) => (rank - 1) * groupCount + groupIndex + 1;
+    const upperRanks = qualifiers === 1 ? 1 : qualifiers / 2;
+
+    for (let rank = 1; rank <= qualifiers; rank++) {
+      for (let groupIndex = 0; groupIndex < groupCount; groupIndex++) {
+        const seed = rank <= upperRanks
+          ? seedOf(groupIndex, rank)
+          : total + 1 - seedOf(groupIndex ^ 1, qualifiers + 1 - rank);
+        seeds[seed - 1] = toSeed(groupIndex, rank);
+      }
+    }
+    return seeds;
+  }
+
+  const seeds: QualifierSeed[] = [];
+  for (let rank = 1; rank <= qualifiers; rank++) {
+    const sameRank = groupStandings
+      .map((g, groupIndex) => ({ groupIndex, standing: g.standings[rank - 1] }))
+      .filter(entry => entry.standing)
+      .sort((a, b) => compareStandings(a.standing, b.standing, rules));
+    sameRank.forEach(entry => seeds.push(toSeed(entry.groupIndex, rank)));
+  }
+  return seeds;
+};
@@ -0,0 +1,145 @@
+import { Category, Charge, ChargeKind, Match, MatchStatus, Payment, PaymentMethod } from '../types';
+
+export const CHARGE_KIND_LABELS: Record<ChargeKind, string> = {
+  inscription: 'Inscripción',
+  walkoverFine: 'Multa por W.O.',
+  fine: 'Multa',
+  other: 'Otro cargo',
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Efectivo',
+  transfer: 'Transferencia',
+};
+
+export const formatAmount = (amount: number): string =>
+  amount.toLocaleString('es-ES', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Inscription charges for the category's teams that have not been charged for it
+ * yet: new teams, or every team when the category gets a fee after the fact.
+ */
+export const getInscriptionCharges = (category: Category, charges: Charge[], date: string): Charge[] => {
+  const fee = category.fees?.inscription ?? 0;
+  if (fee <= 0) return [];
+  return category.teamIds
+    .filter(teamId => !charges.some(c => c.kind === 'inscription' && c.teamId === teamId && c.categoryId === category.id))
+    .map(teamId => ({
+      id: `charge-${Date.now()}-${category.id}-${teamId}`,
+      teamId,
+      categoryId: category.id,
+      kind: 'inscription',
+      amount: fee,
+      description: `Inscripción en ${category.name}`,
+      date,
+    }));
+};
+
+/**
+ * Keeps the walkover fine of a match in step with its result: the team that did
+ * not show up is fined the category's fee, and the fine goes away if the match is
+ * no longer a walkover or the other team turns out to be the one absent.
+ */
+export const syncWalkoverFine = (charges: Charge[], match: Match, category: Category | undefined, today: string): Charge[] => {
+  const absentTeam = match.status === MatchStatus.Walkover && match.winner
+    ? (match.winner.id === match.team1.id ? match.team2 : match.team1)
+    : null;
+  const fee = category?.fees?.walkoverFine ?? 0;
+  const existing = charges.find(c => c.kind === 'walkoverFine' && c.matchId === match.id);
+  if (existing && absentTeam && existing.teamId === absentTeam.id) return charges;
+
+  // Nothing to add or remove: keep the same array so every live-scoring update does not rewrite the ledger
+  if ((!absentTeam || fee <= 0) && !existing) return charges;
+  const others = charges.filter(c => c !== existing);
+  if (!absentTeam || fee <= 0) return others;
+  return [...others, {
+    id: `charge-${Date.now()}`,
+    teamId: absentTeam.id,
+    categoryId: match.categoryId,
+    kind: 'walkoverFine',
+    amount: fee,
+    description: `W.O. ante ${match.winner!.name}`,
+    date: match.date || today,
+    matchId: match.id,
+  }];
+};
+
+/**
+ * Drops the walkover fines of matches that no longer exist, e.g. after the fixtures
+ * are regenerated. Those of deleted teams stay, as part of their kept history.
+ */
+export const dropOrphanWalkoverFines = (charges: Charge[], matches: Match[]): Charge[] => {
+  const matchIds = new Set(matches.map(m => m.id));
+  const kept = charges.filter(c => c.kind !== 'walkoverFine' || !c.matchId || c.teamName !== undefined || matchIds.has(c.matchId));
+  return kept.length === charges.length ? charges : kept;
+};
+
+export interface TeamBalance {
+  teamId: string;
+  charged: number;
+  paid: number;
+  balance: number; // positive = the team owes money
+}
+
+export const getTeamBalance = (teamId: string, charges: Charge[], payments: Payment[]): TeamBalance => {
+  const charged = charges.filter(c => c.teamId === teamId).reduce((sum, c) => sum + c.amount, 0);
+  const paid = payments.filter(p => p.teamId === teamId).reduce((sum, p) => sum + p.amount, 0);
+  return { teamId, charged, paid, balance: charged - paid };
+};
+
+export type LedgerEntry =
+  | { type: 'charge'; date: string; charge: Charge; balance: number }
+  | { type: 'payment'; date: string; payment: Payment; balance: number };
+
+// The team's charges and payments by date, with the balance after each one
+export const getTeamLedger = (teamId: string, charges: Charge[], payments: Payment[]): LedgerEntry[] => {
+  const entries = [
+    ...charges.filter(c => c.teamId === teamId).map(charge => ({ type: 'charge' as const, date: charge.date, charge, balance: 0 })),
+    ...payments.filter(p => p.teamId === teamId).map(payment => ({ type: 'payment' as const, date: payment.date, payment, balance: 0 })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || (a.type === b.type ? 0 : a.type === 'charge' ? -1 : 1));
+
+  let balance = 0;
+  return entries.map(entry => {
+    balance += entry.type === 'charge' ? entry.charge.amount : -entry.payment.amount;
+    return { ...entry, balance };
+  });
+};
+
+/**
+ * Voids the charges of a deleted category that are still unpaid. Payments settle the
+ * oldest charges first, so a team's outstanding balance is made of its newest ones;
+ * charges already paid stay, so the money received remains accounted for.
+ */
+export const voidUnpaidCategoryCharges = (charges: Charge[], payments: Payment[], categoryId: string): Charge[] => {
+  const voided = new Set<string>();
+  const teamIds = new Set(charges.filter(c => c.categoryId === categoryId).map(c => c.teamId));
+  teamIds.forEach(teamId => {
+    let outstanding = getTeamBalance(teamId, charges, payments).balance;
+    charges
+      .filter(c => c.teamId === teamId && c.categoryId === categoryId)
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .forEach(c => {
+        if (c.amount > outstanding) return;
+        voided.add(c.id);
+        outstanding -= c.amount;
+      });
+  });
+  if (teamIds.size === 0) return charges;
+  // The paid ones lose the link to their deleted match, so they are not dropped as orphan fines
+  return charges
+    .filter(c => !voided.has(c.id))
+    .map(c => {
+      if (c.categoryId !== categoryId || !c.matchId) return c;
+      const { matchId, ...charge } = c;
+      return charge;
+    });
+};
+
+export const isReceiptNumberTaken = (receiptNumber: string, payments: Payment[]): boolean =>
+  payments.some(p => p.receiptNumber.trim().toLowerCase() === receiptNumber.trim().toLowerCase());
+
+// Receipts are numbered R-0001, R-0002... following the highest number issued
+export const getNextReceiptNumber = (payments: Payment[]): string => {
+  const highest = Math.max(0, ...payments.map(p => parseInt(p.receiptNumber.replace(/\D/g, ''), 10) || 0));
+  return `R-${String(highest + 1).padStart(4, '0')}`;
+};
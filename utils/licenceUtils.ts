@@ -0,0 +1,109 @@
+import { LicenceDocumentKind, LicenceStatus, Match, Player, PlayerLicence, Team } from '../types';
+
+export const LICENCE_STATUS_LABELS: Record<LicenceStatus, string> = {
+  pending: 'En trámite',
+  active: 'En vigor',
+  suspended: 'Suspendida',
+};
+
+export const DOCUMENT_KIND_LABELS: Record<LicenceDocumentKind, string> = {
+  licence: 'Licencia',
+  medical: 'Certificado médico',
+  waiver: 'Descargo firmado',
+  other: 'Otro',
+};
+
+// Attachments are kept in the browser's storage with the players, so they must stay small
+export const MAX_DOCUMENT_SIZE_KB = 300;
+
+// Licences and certificates expiring within this many days are flagged for renewal
+export const EXPIRY_WARNING_DAYS = 30;
+
+export type LicenceIssue = 'noLicence' | 'licenceInactive' | 'licenceExpired' | 'medicalMissing' | 'medicalExpired' | 'waiverMissing';
+
+export const LICENCE_ISSUE_LABELS: Record<LicenceIssue, string> = {
+  noLicence: 'sin licencia',
+  licenceInactive: 'licencia no vigente',
+  licenceExpired: 'licencia caducada',
+  medicalMissing: 'sin certificado médico',
+  medicalExpired: 'certificado médico caducado',
+  waiverMissing: 'sin descargo firmado',
+};
+
+export const createEmptyLicence = (): PlayerLicence => ({
+  number: '',
+  season: '',
+  status: 'pending',
+  waiverSigned: false,
+  documents: [],
+});
+
+// What keeps the player from playing on the given date; expiry dates are the last valid day
+export const getLicenceIssues = (player: Player, date: string): LicenceIssue[] => {
+  const licence = player.licence;
+  if (!licence || !licence.number) return ['noLicence'];
+  const issues: LicenceIssue[] = [];
+  if (licence.status !== 'active') issues.push('licenceInactive');
+  if (licence.expiresOn && licence.expiresOn < date) issues.push('licenceExpired');
+  if (!licence.medicalExpiresOn) issues.push('medicalMissing');
+  else if (licence.medicalExpiresOn < date) issues.push('medicalExpired');
+  if (!licence.waiverSigned) issues.push('waiverMissing');
+  return issues;
+};
+
+const addDays = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+};
+
+export interface ExpiringItem {
+  kind: 'licence' | 'medical';
+  expiresOn: string;
+}
+
+// Licence and certificate still valid today but expiring within EXPIRY_WARNING_DAYS
+export const getExpiringSoon = (player: Player, today: string): ExpiringItem[] => {
+  const limit = addDays(today, EXPIRY_WARNING_DAYS);
+  const items: ExpiringItem[] = [];
+  const { expiresOn, medicalExpiresOn } = player.licence ?? {};
+  if (expiresOn && expiresOn >= today && expiresOn <= limit) items.push({ kind: 'licence', expiresOn });
+  if (medicalExpiresOn && medicalExpiresOn >= today && medicalExpiresOn <= limit) items.push({ kind: 'medical', expiresOn: medicalExpiresOn });
+  return items;
+};
+
+export const describeLicenceIssues = (issues: LicenceIssue[]): string => issues.map(i => LICENCE_ISSUE_LABELS[i]).join(', ');
+
+export interface UnlicensedPlayer {
+  player: Player;
+  team: Team;
+  issues: LicenceIssue[];
+}
+
+/**
+ * Players of both line-ups who cannot play the match on its date (today for
+ * undated matches). Matches have no line-up of their own, so the whole roster of
+ * each team is checked.
+ */
+export const getUnlicensedPlayers = (match: Match, players: Player[], teams: Team[], today: string): UnlicensedPlayer[] =>
+  [match.team1, match.team2].flatMap(matchTeam => {
+    const team = teams.find(t => t.id === matchTeam.id) ?? matchTeam;
+    return players
+      .filter(p => team.playerIds.includes(p.id))
+      .map(player => ({ player, team, issues: getLicenceIssues(player, match.date || today) }))
+      .filter(u => u.issues.length > 0);
+  });
+
+export interface RenewalEntry {
+  player: Player;
+  issues: LicenceIssue[]; // as of today
+  expiring: ExpiringItem[];
+}
+
+// Players with something to sort out today or about to expire, those already unable to play first
+export const getRenewalReport = (players: Player[], today: string): RenewalEntry[] =>
+  players
+    .map(player => ({ player, issues: getLicenceIssues(player, today), expiring: getExpiringSoon(player, today) }))
+    .filter(e => e.issues.length > 0 || e.expiring.length > 0)
+    .sort((a, b) => Number(b.issues.length > 0) - Number(a.issues.length > 0)
+      || a.player.lastName.localeCompare(b.player.lastName) || a.player.firstName.localeCompare(b.player.firstName));
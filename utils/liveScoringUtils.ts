@@ -0,0 +1,54 @@
+import { MatchSet, RallyPoint, ScoringRules } from '../types';
+import { getMatchResult, getSetWinner, getTotalSets } from './scoringUtils';
+
+export type Side = 'team1' | 'team2';
+
+export interface LiveScore {
+  sets: MatchSet[]; // sets not started yet are left empty
+  currentSet: number;
+  server: Side;
+  winner: Side | null;
+  ralliesBySet: RallyPoint[][]; // the log split by the set each rally was played in
+}
+
+const otherSide = (side: Side): Side => (side === 'team1' ? 'team2' : 'team1');
+
+// The first serve of each set alternates between the teams
+const getSetFirstServer = (firstServer: Side, setIndex: number): Side =>
+  setIndex % 2 === 0 ? firstServer : otherSide(firstServer);
+
+/**
+ * Replays a rally log under the scoring rules. The team that wins a rally serves
+ * the next one, and a set closes as soon as its score is a valid final score.
+ * Points logged after the match was decided are ignored.
+ */
+export const replayRallies = (rallies: RallyPoint[], rules: ScoringRules, firstServer: Side): LiveScore => {
+  const sets: MatchSet[] = Array.from({ length: getTotalSets(rules) }, () => ({ team1: null, team2: null }));
+  sets[0] = { team1: 0, team2: 0 };
+  const score: LiveScore = { sets, currentSet: 0, server: firstServer, winner: null, ralliesBySet: [[]] };
+
+  for (const rally of rallies) {
+    const set = sets[score.currentSet];
+    set[rally.winner] = (set[rally.winner] ?? 0) + 1;
+    score.ralliesBySet[score.currentSet].push(rally);
+    score.server = rally.winner;
+    if (!getSetWinner(set, rules, score.currentSet)) continue;
+
+    score.winner = getMatchResult(sets, rules).winner;
+    if (score.winner) break;
+    score.currentSet++;
+    sets[score.currentSet] = { team1: 0, team2: 0 };
+    score.ralliesBySet.push([]);
+    score.server = getSetFirstServer(firstServer, score.currentSet);
+  }
+  return score;
+};
+
+export const addRallyPoint = (rallies: RallyPoint[], winner: Side, rules: ScoringRules, firstServer: Side): RallyPoint[] => {
+  const { server, winner: matchWinner } = replayRallies(rallies, rules, firstServer);
+  if (matchWinner) return rallies;
+  return [...rallies, { winner, server, at: new Date().toISOString() }];
+};
+
+export const undoRallyPoint = (rallies: RallyPoint[]): RallyPoint[] => rallies.slice(0, -1);
+
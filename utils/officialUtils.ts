@@ -0,0 +1,112 @@
+import { Match, Official, OfficialConflict, OfficialRole } from '../types';
+import { doMatchesOverlap, occupiesSlot } from './scheduleUtils';
+
+export const OFFICIAL_ROLE_LABELS: Record<OfficialRole, string> = {
+  referee: 'Árbitro',
+  scorekeeper: 'Anotador',
+};
+
+export const OFFICIAL_ROLE_FIELDS: Record<OfficialRole, 'refereeId' | 'scorekeeperId'> = {
+  referee: 'refereeId',
+  scorekeeper: 'scorekeeperId',
+};
+
+const ROLES: OfficialRole[] = ['referee', 'scorekeeper'];
+
+export const getOfficialName = (official: Official) => `${official.firstName} ${official.lastName}`;
+
+export const isOwnTeamMatch = (official: Official, match: Match): boolean =>
+  official.teamIds.includes(match.team1.id) || official.teamIds.includes(match.team2.id);
+
+const isAssignedTo = (officialId: string, match: Match) => match.refereeId === officialId || match.scorekeeperId === officialId;
+
+/**
+ * Matches an official is assigned to, with the role, ordered by date and time.
+ * Annulled matches are left out.
+ */
+export const getOfficialAssignments = (official: Official, matches: Match[]): { match: Match; role: OfficialRole }[] =>
+  matches
+    .flatMap(match => ROLES.filter(role => match[OFFICIAL_ROLE_FIELDS[role]] === official.id && occupiesSlot(match)).map(role => ({ match, role })))
+    .sort((a, b) => `${a.match.date} ${a.match.time ?? ''}`.localeCompare(`${b.match.date} ${b.match.time ?? ''}`));
+
+/**
+ * Assignments that break the rules: officiating a match of one's own team, being
+ * both referee and scorekeeper of a match, or two matches at the same time.
+ */
+export const findOfficialConflicts = (matches: Match[], officials: Official[], slotMinutes: number): OfficialConflict[] => {
+  const conflicts: OfficialConflict[] = [];
+  officials.forEach(official => {
+    const assigned = matches.filter(m => occupiesSlot(m) && isAssignedTo(official.id, m));
+    assigned.forEach((match, i) => {
+      if (isOwnTeamMatch(official, match)) conflicts.push({ type: 'ownTeam', officialId: official.id, matchIds: [match.id] });
+      if (match.refereeId === official.id && match.scorekeeperId === official.id) {
+        conflicts.push({ type: 'doubleRole', officialId: official.id, matchIds: [match.id] });
+      }
+      assigned.slice(i + 1).forEach(other => {
+        if (doMatchesOverlap(match, other, slotMinutes)) conflicts.push({ type: 'overlap', officialId: official.id, matchIds: [match.id, other.id] });
+      });
+    });
+  });
+  return conflicts;
+};
+
+export const describeOfficialConflict = (conflict: OfficialConflict, officials: Official[], matches: Match[]): string => {
+  const official = officials.find(o => o.id === conflict.officialId);
+  const name = official ? getOfficialName(official) : 'Un oficial';
+  switch (conflict.type) {
+    case 'ownTeam':
+      return `${name} no puede oficiar un partido de su propio equipo.`;
+    case 'doubleRole':
+      return `${name} es árbitro y anotador del mismo partido.`;
+    case 'overlap': {
+      const times = conflict.matchIds.map(id => matches.find(m => m.id === id)?.time).filter(Boolean);
+      return `${name} tiene dos partidos a la vez (${times.join(' y ')}).`;
+    }
+  }
+};
+
+/**
+ * Fills the missing referee and scorekeeper of each match, in date and time order,
+ * with the eligible official who has the fewest assignments so far. An official is
+ * eligible if they can take the role, are not from either team, are not already
+ * officiating that match and are free at that time. Returns the changes by match id.
+ */
+export const autoAssignOfficials = (
+  toAssign: Match[],
+  matches: Match[],
+  officials: Official[],
+  slotMinutes: number,
+): Map<string, Partial<Pick<Match, 'refereeId' | 'scorekeeperId'>>> => {
+  const current = new Map(matches.map(m => [m.id, { ...m }]));
+  const workload = new Map(officials.map(o => [o.id, 0]));
+  matches.filter(occupiesSlot).forEach(m => [m.refereeId, m.scorekeeperId].forEach(id => {
+    if (id && workload.has(id)) workload.set(id, workload.get(id)! + 1);
+  }));
+
+  const changes = new Map<string, Partial<Pick<Match, 'refereeId' | 'scorekeeperId'>>>();
+  const byTime = [...toAssign].sort((a, b) => `${a.date} ${a.time ?? ''}`.localeCompare(`${b.date} ${b.time ?? ''}`));
+
+  byTime.forEach(({ id }) => {
+    const match = current.get(id);
+    if (!match) return;
+    ROLES.forEach(role => {
+      const field = OFFICIAL_ROLE_FIELDS[role];
+      if (match[field]) return;
+      const candidates = officials.filter(official =>
+        official.roles.includes(role)
+        && !isOwnTeamMatch(official, match)
+        && !isAssignedTo(official.id, match)
+        && !Array.from(current.values()).some(other =>
+          other.id !== match.id && occupiesSlot(other) && isAssignedTo(official.id, other) && doMatchesOverlap(match, other, slotMinutes)
+        )
+      );
+      if (candidates.length === 0) return;
+      const chosen = candidates.reduce((best, official) => (workload.get(official.id)! < workload.get(best.id)! ? official : best));
+      match[field] = chosen.id;
+      workload.set(chosen.id, workload.get(chosen.id)! + 1);
+      changes.set(match.id, { ...changes.get(match.id), [field]: chosen.id });
+    });
+  });
+
+  return changes;
+};
@@ -0,0 +1,114 @@
+import { Category, Match, Player, Team } from '../types';
+import { getScoringRules, isMatchDecided } from './scoringUtils';
+import { getMatchOutcome, getStandingsRules } from './standingsUtils';
+
+export interface PlayerStats {
+  player: Player;
+  played: number;
+  wins: number;
+  losses: number;
+  winRate: number; // 0-1, 0 with no matches played
+  setsWon: number;
+  setsLost: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  longestWinStreak: number;
+}
+
+export interface PlayerStatsFilter {
+  categoryId?: string;
+  from?: string; // inclusive ISO dates
+  to?: string;
+}
+
+// Fewest matches played to enter the win-rate leaderboard, so one lucky win does not top it
+export const MIN_MATCHES_FOR_WIN_RATE = 3;
+
+/**
+ * Side the player played on: the team they currently belong to or, for players
+ * since moved, the roster the match was created with.
+ */
+export const getPlayerSide = (match: Match, playerId: string, teams: Team[]): 'team1' | 'team2' | null => {
+  const isOn = (side: 'team1' | 'team2') =>
+    (teams.find(t => t.id === match[side].id) ?? match[side]).playerIds.includes(playerId) || match[side].playerIds.includes(playerId);
+  if (isOn('team1')) return 'team1';
+  if (isOn('team2')) return 'team2';
+  return null;
+};
+
+const matchesFilter = (match: Match, filter: PlayerStatsFilter): boolean =>
+  (!filter.categoryId || match.categoryId === filter.categoryId)
+  && (!filter.from || (!!match.date && match.date >= filter.from))
+  && (!filter.to || (!!match.date && match.date <= filter.to));
+
+/**
+ * Aggregates a player's decided matches across all their teams and categories.
+ * Sets and points are counted as in the standings, so a walkover is a clean sweep
+ * with no points scored.
+ */
+export const calculatePlayerStats = (
+  player: Player,
+  teams: Team[],
+  matches: Match[],
+  categories: Category[],
+  filter: PlayerStatsFilter = {}
+): PlayerStats => {
+  const stats: PlayerStats = {
+    player, played: 0, wins: 0, losses: 0, winRate: 0,
+    setsWon: 0, setsLost: 0, pointsFor: 0, pointsAgainst: 0, longestWinStreak: 0,
+  };
+  const played = matches
+    .filter(m => isMatchDecided(m) && matchesFilter(m, filter))
+    .sort((a, b) => (a.date || '').localeCompare(b.date || '') || (a.round ?? 0) - (b.round ?? 0));
+
+  let streak = 0;
+  played.forEach(match => {
+    const side = getPlayerSide(match, player.id, teams);
+    if (!side) return;
+    const category = categories.find(c => c.id === match.categoryId);
+    const outcome = getMatchOutcome(match, getStandingsRules(category).points, getScoringRules(category));
+    if (!outcome) return;
+    const won = outcome.winnerId === match[side].id;
+
+    stats.played++;
+    stats.setsWon += won ? outcome.winnerSets : outcome.loserSets;
+    stats.setsLost += won ? outcome.loserSets : outcome.winnerSets;
+    stats.pointsFor += won ? outcome.winnerScore : outcome.loserScore;
+    stats.pointsAgainst += won ? outcome.loserScore : outcome.winnerScore;
+    if (won) {
+      stats.wins++;
+      streak++;
+      stats.longestWinStreak = Math.max(stats.longestWinStreak, streak);
+    } else {
+      stats.losses++;
+      streak = 0;
+    }
+  });
+
+  stats.winRate = stats.played > 0 ? stats.wins / stats.played : 0;
+  return stats;
+};
+
+export const calculateAllPlayerStats = (
+  players: Player[],
+  teams: Team[],
+  matches: Match[],
+  categories: Category[],
+  filter: PlayerStatsFilter = {}
+): PlayerStats[] => players.map(p => calculatePlayerStats(p, teams, matches, categories, filter));
+
+export type LeaderboardKind = 'wins' | 'winRate';
+
+/**
+ * Best players by wins or by win rate (the latter only among players with enough
+ * matches). Ties fall back to the other measure, then to matches played.
+ */
+export const getLeaderboard = (stats: PlayerStats[], kind: LeaderboardKind, limit = 10): PlayerStats[] =>
+  stats
+    .filter(s => (kind === 'winRate' ? s.played >= MIN_MATCHES_FOR_WIN_RATE : s.wins > 0))
+    .sort((a, b) => kind === 'wins'
+      ? b.wins - a.wins || b.winRate - a.winRate || a.played - b.played
+      : b.winRate - a.winRate || b.wins - a.wins || b.played - a.played)
+    .slice(0, limit);
+
+export const formatWinRate = (winRate: number): string => `${Math.round(winRate * 100)}%`;
@@ -0,0 +1,61 @@
+import { Match, MatchSet, Protest, ProtestStatus } from '../types';
+
+export const PROTEST_STATUS_LABELS: Record<ProtestStatus, string> = {
+  filed: 'Presentada',
+  underReview: 'En revisión',
+  upheld: 'Estimada',
+  rejected: 'Desestimada',
+};
+
+const PROTEST_TRANSITIONS: Record<ProtestStatus, ProtestStatus[]> = {
+  filed: ['underReview'],
+  underReview: ['upheld', 'rejected'],
+  upheld: [],
+  rejected: [],
+};
+
+export const getNextProtestStatuses = (protest: Protest): ProtestStatus[] => PROTEST_TRANSITIONS[protest.status];
+
+export const isProtestOpen = (protest: Protest): boolean => PROTEST_TRANSITIONS[protest.status].length > 0;
+
+// A result is provisional while marked so or while a protest against it is open
+export const isResultProvisional = (match: Match): boolean =>
+  !!match.provisional || (match.protests || []).some(isProtestOpen);
+
+export const fileProtest = (match: Match, teamId: string, reason: string): Pick<Match, 'protests'> => {
+  const at = new Date().toISOString();
+  const protest: Protest = { id: `protest-${Date.now()}`, teamId, reason, status: 'filed', history: [{ status: 'filed', at }] };
+  return { protests: [...(match.protests || []), protest] };
+};
+
+/**
+ * Moves a protest to its next status, recording the step. Upholding it may correct
+ * the score, and the previous sets are kept in the history. Returns null if the
+ * transition is not allowed.
+ */
+export const advanceProtest = (
+  match: Match,
+  protestId: string,
+  status: ProtestStatus,
+  note?: string,
+  correctedSets?: MatchSet[],
+): Pick<Match, 'protests' | 'sets' | 'provisional'> | null => {
+  const protest = match.protests?.find(p => p.id === protestId);
+  if (!protest || !PROTEST_TRANSITIONS[protest.status].includes(status)) return null;
+
+  const isCorrected = status === 'upheld' && !!correctedSets && JSON.stringify(correctedSets) !== JSON.stringify(match.sets);
+  const updated: Protest = {
+    ...protest,
+    status,
+    history: [...protest.history, {
+      status,
+      at: new Date().toISOString(),
+      ...(note && { note }),
+      ...(isCorrected && { previousSets: match.sets, correctedSets }),
+    }],
+  };
+  const protests = match.protests!.map(p => (p.id === protestId ? updated : p));
+  // The ruling settles the result unless another protest is still open
+  const provisional = protests.some(isProtestOpen) ? match.provisional : false;
+  return { protests, sets: isCorrected ? correctedSets! : match.sets, provisional };
+};
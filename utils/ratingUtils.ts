@@ -0,0 +1,143 @@
+import { Category, Match, MatchStatus, Player, RatedResult, RatedSide, Team } from '../types';
+import { getMatchResult, getScoringRules } from './scoringUtils';
+import { getPlayerSide } from './playerStatsUtils';
+
+export const INITIAL_RATING = 1500;
+const K_FACTOR = 32;
+
+export interface RatingChange {
+  matchId: string;
+  date: string;
+  opponent: string;
+  won: boolean;
+  delta: number;
+  rating: number; // after the match
+}
+
+export interface Rating {
+  key: string;
+  name: string;
+  rating: number;
+  played: number;
+  history: RatingChange[]; // oldest first
+}
+
+export interface Ratings {
+  teams: Rating[]; // best first
+  players: Rating[];
+}
+
+// Keyed by category too, so a club's teams of the same name in different categories are rated apart
+export const getTeamRatingKey = (team: Pick<Team, 'name'>, category?: Pick<Category, 'name'>): string =>
+  [category?.name, team.name].filter(Boolean).map(name => name!.trim().toLowerCase()).join('|');
+
+export const getPlayerRatingKey = (player: Player): string => player.idCard.trim().toUpperCase() || player.id;
+
+/**
+ * The result of a finished match in the form the rating engine replays, or null for
+ * matches that do not rate (pending, walkovers, retirements, annulled...).
+ */
+export const toRatedResult = (match: Match, teams: Team[], players: Player[], categories: Category[]): RatedResult | null => {
+  if (match.status !== MatchStatus.Finished || !match.winner) return null;
+  const category = categories.find(c => c.id === match.categoryId);
+  const sets = getMatchResult(match.sets, getScoringRules(category));
+  const toSide = (side: 'team1' | 'team2'): RatedSide => ({
+    key: getTeamRatingKey(match[side], category),
+    name: category ? `${match[side].name} (${category.name})` : match[side].name,
+    players: players
+      .filter(p => getPlayerSide(match, p.id, teams) === side)
+      .map(p => ({ key: getPlayerRatingKey(p), name: `${p.firstName} ${p.lastName}` })),
+  });
+  return {
+    matchId: match.id,
+    date: match.date,
+    ...(match.round !== undefined && { round: match.round }),
+    sides: [toSide('team1'), toSide('team2')],
+    sets: [sets.team1, sets.team2],
+    winner: match.winner.id === match.team1.id ? 0 : 1,
+  };
+};
+
+/**
+ * Every result to rate: the archived ones of past championships and the finished
+ * matches of the current one, which take precedence when a match is in both.
+ */
+export const collectRatedResults = (archive: RatedResult[], matches: Match[], teams: Team[], players: Player[], categories: Category[]): RatedResult[] =>
+  mergeRatedResults(archive, matches.flatMap(m => toRatedResult(m, teams, players, categories) ?? []));
+
+// Adds the results to the archive, replacing those of the same match
+export const mergeRatedResults = (archive: RatedResult[], results: RatedResult[]): RatedResult[] => {
+  const ids = new Set(results.map(r => r.matchId));
+  return [...archive.filter(r => !ids.has(r.matchId)), ...results];
+};
+
+const expectedScore = (rating: number, opponentRating: number) => 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+
+// A clean sweep moves the ratings fully; a 2-1 win, three quarters as much
+const marginFactor = ([winnerSets, loserSets]: [number, number]) =>
+  winnerSets > 0 ? 0.5 + 0.5 * (winnerSets - loserSets) / winnerSets : 1;
+
+/**
+ * Elo ratings replayed from scratch over all the results in date order (undated
+ * results last), so a corrected score changes every rating after it. Players share
+ * the change of their side, worked out from the average rating of each line-up.
+ */
+export const calculateRatings = (results: RatedResult[]): Ratings => {
+  const teams = new Map<string, Rating>();
+  const players = new Map<string, Rating>();
+  const getRating = (map: Map<string, Rating>, key: string, name: string) => {
+    if (!map.has(key)) map.set(key, { key, name, rating: INITIAL_RATING, played: 0, history: [] });
+    const rating = map.get(key)!;
+    rating.name = name; // the latest name wins
+    return rating;
+  };
+  const apply = (rating: Rating, result: RatedResult, opponent: string, won: boolean, delta: number) => {
+    rating.rating += delta;
+    rating.played++;
+    rating.history.push({ matchId: result.matchId, date: result.date, opponent, won, delta, rating: rating.rating });
+  };
+
+  const ordered = [...results].sort((a, b) =>
+    (a.date || '9999').localeCompare(b.date || '9999') || (a.round ?? 0) - (b.round ?? 0) || a.matchId.localeCompare(b.matchId));
+
+  ordered.forEach(result => {
+    const winnerSide = result.sides[result.winner];
+    const loserSide = result.sides[1 - result.winner];
+    const winnerSets = [result.sets[result.winner], result.sets[1 - result.winner]] as [number, number];
+    const change = (winnerRating: number, loserRating: number) =>
+      K_FACTOR * marginFactor(winnerSets) * (1 - expectedScore(winnerRating, loserRating));
+
+    const winnerTeam = getRating(teams, winnerSide.key, winnerSide.name);
+    const loserTeam = getRating(teams, loserSide.key, loserSide.name);
+    const teamDelta = change(winnerTeam.rating, loserTeam.rating);
+    apply(winnerTeam, result, loserSide.name, true, teamDelta);
+    apply(loserTeam, result, winnerSide.name, false, -teamDelta);
+
+    if (winnerSide.players.length === 0 || loserSide.players.length === 0) return;
+    const lineUp = (side: RatedSide) => side.players.map(p => getRating(players, p.key, p.name));
+    const average = (ratings: Rating[]) => ratings.reduce((sum, r) => sum + r.rating, 0) / ratings.length;
+    const winners = lineUp(winnerSide);
+    const losers = lineUp(loserSide);
+    const playerDelta = change(average(winners), average(losers));
+    winners.forEach(r => apply(r, result, loserSide.name, true, playerDelta));
+    losers.forEach(r => apply(r, result, winnerSide.name, false, -playerDelta));
+  });
+
+  const byRating = (a: Rating, b: Rating) => b.rating - a.rating || a.name.localeCompare(b.name);
+  return { teams: Array.from(teams.values()).sort(byRating), players: Array.from(players.values()).sort(byRating) };
+};
+
+/**
+ * Rating of each of the given teams of the category by id, for seeding; teams
+ * without rated matches start at the initial rating.
+ */
+export const getTeamRatings = (ratings: Ratings, teams: Team[], category?: Category): Record<string, number> => {
+  const byKey = new Map(ratings.teams.map(r => [r.key, r.rating]));
+  return Object.fromEntries(teams.map(t => [t.id, byKey.get(getTeamRatingKey(t, category)) ?? INITIAL_RATING]));
+};
+
+// Team ids best rated first
+export const sortByRating = (teamIds: string[], teamRatings: Record<string, number>): string[] =>
+  [...teamIds].sort((a, b) => (teamRatings[b] ?? INITIAL_RATING) - (teamRatings[a] ?? INITIAL_RATING));
+
+export const formatRating = (rating: number): string => `${Math.round(rating)}`;
@@ -0,0 +1,47 @@
+import { Match, MatchStatus, RescheduleEntry, RescheduleRequest } from '../types';
+import { isMatchClosed } from './scoringUtils';
+
+/**
+ * Adds an entry to the match's rescheduling history if its date moved away from
+ * one it already had. Giving a match its first date is not a rescheduling.
+ */
+export const withRescheduleEntry = (previous: Match, updated: Match, details: Pick<RescheduleEntry, 'reason' | 'requestedBy'> = {}): Match => {
+  if (!previous.date || updated.date === previous.date) return updated;
+  const entry: RescheduleEntry = {
+    previousDate: previous.date,
+    previousTime: previous.time,
+    newDate: updated.date,
+    newTime: updated.time,
+    ...details,
+    changedAt: new Date().toISOString(),
+  };
+  return { ...updated, reschedules: [...(previous.reschedules || []), entry] };
+};
+
+/**
+ * Moves a match to a new date (or leaves it without one), recording why and at
+ * whose request. The court is only kept if a time is given, and a suspended match
+ * that gets a new date is pending again.
+ */
+export const rescheduleMatch = (match: Match, request: RescheduleRequest): Match => {
+  const moved: Match = {
+    ...match,
+    date: request.date,
+    time: request.time || undefined,
+    courtId: request.time ? match.courtId : undefined,
+    deadline: request.deadline || undefined,
+  };
+  if (request.date && match.status === MatchStatus.Suspended) {
+    moved.status = MatchStatus.Pending;
+    moved.statusReason = undefined;
+  }
+  return withRescheduleEntry(match, moved, { reason: request.reason || undefined, requestedBy: request.requestedBy || undefined });
+};
+
+export const isPostponed = (match: Match): boolean => (match.reschedules?.length ?? 0) > 0 || match.status === MatchStatus.Suspended;
+
+export const getOriginalDate = (match: Match): string => match.reschedules?.[0]?.previousDate ?? match.date;
+
+// A deadline only matters while the match is still to be played
+export const isDeadlineOverdue = (match: Match, today: string): boolean =>
+  !!match.deadline && !isMatchClosed(match) && match.deadline < today;
@@ -0,0 +1,288 @@
+import { FillDatesOptions, Match, MatchSlot, MatchStatus, Player, ScheduleConflict, ScheduleSettings, Team, UnavailabilityWindow } from '../types';
+
+export const DEFAULT_SCHEDULE_SETTINGS: ScheduleSettings = {
+  courts: [],
+  dayStart: '09:00',
+  dayEnd: '21:00',
+  slotMinutes: 60,
+  minRestMinutes: 30,
+};
+
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const minutesToTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+// Start times of the slots of a day; the last slot must finish by the end of the day
+export const getDaySlots = (settings: ScheduleSettings): string[] => {
+  const slots: string[] = [];
+  if (settings.slotMinutes <= 0) return slots;
+  const end = timeToMinutes(settings.dayEnd);
+  for (let start = timeToMinutes(settings.dayStart); start + settings.slotMinutes <= end; start += settings.slotMinutes) {
+    slots.push(minutesToTime(start));
+  }
+  return slots;
+};
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(date + 'T00:00:00Z');
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+};
+
+const formatDate = (date: string) => new Date(date + 'T00:00:00').toLocaleDateString('es-ES');
+
+export const describeUnavailability = (window: UnavailabilityWindow): string => {
+  const hours = window.from && window.to
+    ? `de ${window.from} a ${window.to}`
+    : window.to ? `antes de las ${window.to}` : window.from ? `desde las ${window.from}` : 'todo el día';
+  const day = window.date ? `el ${formatDate(window.date)}` : 'todos los días';
+  return `${hours} ${day}${window.note ? ` (${window.note})` : ''}`;
+};
+
+/**
+ * Whether a window rules out playing on that day and, if the time is known, in the
+ * time the match takes. Without a time only whole-day windows can be checked.
+ */
+const isUnavailable = (window: UnavailabilityWindow, date: string, time: string | undefined, durationMinutes: number): boolean => {
+  if (window.date && window.date !== date) return false;
+  if (!window.from && !window.to) return true;
+  if (!time) return false;
+  const start = timeToMinutes(time);
+  const from = window.from ? timeToMinutes(window.from) : 0;
+  const to = window.to ? timeToMinutes(window.to) : 24 * 60;
+  return start < to && from < start + Math.max(durationMinutes, 1);
+};
+
+export interface AvailabilityViolation {
+  name: string; // team or player
+  window: UnavailabilityWindow;
+}
+
+/**
+ * Unavailability windows of both teams of a match, and of their players, that clash
+ * with playing it on the given date (and time).
+ */
+export const getAvailabilityViolations = (
+  match: Pick<Match, 'team1' | 'team2'>,
+  date: string,
+  time: string | undefined,
+  durationMinutes: number,
+  teams: Team[],
+  players: Player[],
+): AvailabilityViolation[] => {
+  if (!date) return [];
+  return [match.team1, match.team2].flatMap(snapshot => {
+    const team = teams.find(t => t.id === snapshot.id) ?? snapshot;
+    const subjects = [
+      { name: team.name, windows: team.unavailability },
+      ...players.filter(p => team.playerIds.includes(p.id)).map(p => ({ name: `${p.firstName} ${p.lastName}`, windows: p.unavailability })),
+    ];
+    return subjects.flatMap(({ name, windows }) =>
+      (windows || []).filter(window => isUnavailable(window, date, time, durationMinutes)).map(window => ({ name, window }))
+    );
+  });
+};
+
+export const describeAvailabilityViolation = (violation: AvailabilityViolation): string =>
+  `${violation.name} no puede jugar ${describeUnavailability(violation.window)}`;
+
+export const getMatchSlot = (match: Match): MatchSlot | null =>
+  match.date && match.time && match.courtId ? { date: match.date, time: match.time, courtId: match.courtId } : null;
+
+// Suspended and annulled matches give their slot up: they neither block a court nor cause conflicts
+export const occupiesSlot = (match: Match): boolean => match.status !== MatchStatus.Suspended && match.status !== MatchStatus.Annulled;
+
+// Whether two matches are set to be played at overlapping times on the same day
+export const doMatchesOverlap = (a: Match, b: Match, slotMinutes: number): boolean => {
+  if (!a.date || a.date !== b.date || !a.time || !b.time) return false;
+  const [startA, startB] = [timeToMinutes(a.time), timeToMinutes(b.time)];
+  return startA < startB + slotMinutes && startB < startA + slotMinutes;
+};
+
+/**
+ * Pending matches still waiting for a court and time on the given day: those with
+ * no date yet or already dated that day.
+ */
+export const getUnscheduledMatches = (matches: Match[], date: string): Match[] =>
+  matches.filter(m => m.status === MatchStatus.Pending && !getMatchSlot(m) && (!m.date || m.date === date));
+
+interface BookedMatch {
+  match: Match;
+  date: string;
+  courtId: string;
+  start: number;
+  end: number;
+}
+
+const book = (match: Match, slot: MatchSlot, settings: ScheduleSettings): BookedMatch => {
+  const start = timeToMinutes(slot.time);
+  return { match, date: slot.date, courtId: slot.courtId, start, end: start + settings.slotMinutes };
+};
+
+const overlaps = (a: BookedMatch, b: BookedMatch) => a.start < b.end && b.start < a.end;
+
+// Minutes between the end of the earlier match and the start of the later one (negative if they overlap)
+const restBetween = (a: BookedMatch, b: BookedMatch) => Math.max(a.start, b.start) - Math.min(a.end, b.end);
+
+const getPlayerIds = (match: Match, teamsById: Map<string, Team>): string[] =>
+  [match.team1, match.team2].flatMap(team => (teamsById.get(team.id) ?? team).playerIds);
+
+/**
+ * Players who would be playing both matches, across categories, or null if the
+ * matches have nobody in common. A team with no players registered only clashes
+ * with its own matches.
+ */
+const getSharedPlayers = (a: Match, b: Match, teamsById: Map<string, Team>): string[] | null => {
+  const playersA = new Set(getPlayerIds(a, teamsById));
+  const shared = Array.from(new Set(getPlayerIds(b, teamsById))).filter(id => playersA.has(id));
+  const sharesTeam = [a.team1.id, a.team2.id].some(id => id === b.team1.id || id === b.team2.id);
+  return shared.length > 0 || sharesTeam ? shared : null;
+};
+
+/**
+ * Finds every pair of scheduled matches that cannot both happen as planned: two
+ * matches on the same court at the same time, a player in two matches at once,
+ * or a player without the minimum rest between two matches.
+ */
+export const findScheduleConflicts = (matches: Match[], teams: Team[], settings: ScheduleSettings): ScheduleConflict[] => {
+  const teamsById = new Map(teams.map(t => [t.id, t]));
+  const booked = matches.filter(occupiesSlot).flatMap(match => {
+    const slot = getMatchSlot(match);
+    return slot ? [book(match, slot, settings)] : [];
+  });
+
+  const conflicts: ScheduleConflict[] = [];
+  booked.forEach((a, i) => {
+    booked.slice(i + 1).forEach(b => {
+      if (a.date !== b.date) return;
+      const matchIds: [string, string] = [a.match.id, b.match.id];
+      if (a.courtId === b.courtId && overlaps(a, b)) conflicts.push({ type: 'court', matchIds, playerIds: [] });
+
+      const shared = getSharedPlayers(a.match, b.match, teamsById);
+      if (!shared) return;
+      const rest = restBetween(a, b);
+      if (rest < 0) conflicts.push({ type: 'player', matchIds, playerIds: shared });
+      else if (rest < settings.minRestMinutes) conflicts.push({ type: 'rest', matchIds, playerIds: shared });
+    });
+  });
+  return conflicts;
+};
+
+/**
+ * Places matches in the free slots of a day, each one in the earliest slot where
+ * nobody involved is unavailable, a court is free and every player keeps the
+ * minimum rest from their other matches that day, whatever the category. Earlier
+ * rounds go first; matches already scheduled stay put and matches that do not fit
+ * are left out.
+ */
+export const autoScheduleMatches = (toSchedule: Match[], matches: Match[], teams: Team[], players: Player[], settings: ScheduleSettings, date: string): Map<string, MatchSlot> => {
+  const teamsById = new Map(teams.map(t => [t.id, t]));
+  const pendingIds = new Set(toSchedule.map(m => m.id));
+  const booked = matches.filter(m => !pendingIds.has(m.id) && occupiesSlot(m)).flatMap(match => {
+    const slot = getMatchSlot(match);
+    return slot && slot.date === date ? [book(match, slot, settings)] : [];
+  });
+
+  const slots = getDaySlots(settings);
+  const assignments = new Map<string, MatchSlot>();
+  const byRound = [...toSchedule].sort((a, b) => (a.round ?? Number.MAX_SAFE_INTEGER) - (b.round ?? Number.MAX_SAFE_INTEGER));
+
+  byRound.forEach(match => {
+    for (const time of slots) {
+      if (getAvailabilityViolations(match, date, time, settings.slotMinutes, teams, players).length > 0) continue;
+      const candidates = settings.courts.map(court => book(match, { date, time, courtId: court.id }, settings));
+      const free = candidates.find(candidate => booked.every(other =>
+        !(other.courtId === candidate.courtId && overlaps(candidate, other)) &&
+        (!getSharedPlayers(match, other.match, teamsById) || restBetween(candidate, other) >= settings.minRestMinutes)
+      ));
+      if (free) {
+        assignments.set(match.id, { date, time, courtId: free.courtId });
+        booked.push(free);
+        return;
+      }
+    }
+  });
+
+  return assignments;
+};
+
+const clearSlot = (match: Match): Match => ({ ...match, time: undefined, courtId: undefined });
+
+/**
+ * Moves a match to a slot, or out of the grid with null. If another match already
+ * holds that court and time, it takes the moved match's previous place instead.
+ */
+export const moveMatchToSlot = (matches: Match[], matchId: string, slot: MatchSlot | null): Match[] => {
+  const moving = matches.find(m => m.id === matchId);
+  if (!moving) return matches;
+  const previous = getMatchSlot(moving);
+  const occupant = slot && matches.find(m => {
+    const other = getMatchSlot(m);
+    return m.id !== matchId && occupiesSlot(m) && other !== null && other.date === slot.date && other.time === slot.time && other.courtId === slot.courtId;
+  });
+
+  return matches.map(m => {
+    if (m.id === matchId) return slot ? { ...m, ...slot } : clearSlot(m);
+    if (occupant && m.id === occupant.id) return previous ? { ...m, ...previous } : clearSlot(m);
+    return m;
+  });
+};
+
+/**
+ * Takes the courts removed from the settings out of the matches that used them,
+ * which then go back to the unscheduled list.
+ */
+export const releaseRemovedCourts = (matches: Match[], settings: ScheduleSettings): Match[] => {
+  const courtIds = new Set(settings.courts.map(c => c.id));
+  return matches.map(m => (m.courtId && !courtIds.has(m.courtId) ? clearSlot(m) : m));
+};
+
+// How far ahead fillMatchDates looks for a free day
+const MAX_FILL_DAYS = 366;
+
+/**
+ * Gives a date to each match, going through the match days from the start date: a
+ * match takes the first day, no earlier than the matches of previous rounds, on
+ * which nobody involved is unavailable all day and neither team would go over the
+ * maximum matches that day (counting those already dated). Returns the dates by
+ * match id; matches that find no day within a year are left out.
+ */
+export const fillMatchDates = (toDate: Match[], matches: Match[], teams: Team[], players: Player[], options: FillDatesOptions): Map<string, string> => {
+  const pendingIds = new Set(toDate.map(m => m.id));
+  const teamDayCounts = new Map<string, number>();
+  const countKey = (teamId: string, date: string) => `${teamId}|${date}`;
+  const addToCount = (match: Match, date: string) => [match.team1.id, match.team2.id].forEach(id =>
+    teamDayCounts.set(countKey(id, date), (teamDayCounts.get(countKey(id, date)) ?? 0) + 1)
+  );
+  matches.filter(m => m.date && !pendingIds.has(m.id) && m.status !== MatchStatus.Annulled).forEach(m => addToCount(m, m.date));
+
+  const interval = Math.max(1, options.intervalDays);
+  const days = Array.from({ length: Math.ceil(MAX_FILL_DAYS / interval) }, (_, i) => addDays(options.startDate, i * interval));
+  const dates = new Map<string, string>();
+  const byRound = [...toDate].sort((a, b) => (a.round ?? Number.MAX_SAFE_INTEGER) - (b.round ?? Number.MAX_SAFE_INTEGER));
+
+  let currentRound: number | undefined;
+  let firstDay = 0;
+  let lastDayUsed = 0;
+  byRound.forEach(match => {
+    if (match.round !== currentRound) {
+      currentRound = match.round;
+      firstDay = lastDayUsed;
+    }
+    for (let i = firstDay; i < days.length; i++) {
+      const day = days[i];
+      const isFull = [match.team1.id, match.team2.id].some(id => (teamDayCounts.get(countKey(id, day)) ?? 0) >= options.maxMatchesPerTeamPerDay);
+      if (isFull || getAvailabilityViolations(match, day, undefined, 0, teams, players).length > 0) continue;
+      dates.set(match.id, day);
+      addToCount(match, day);
+      lastDayUsed = Math.max(lastDayUsed, i);
+      return;
+    }
+  });
+
+  return dates;
+};
@@ -0,0 +1,117 @@
+import { Category, Match, MatchSet, MatchStatus, ScoringRules } from '../types';
+
+// Best of three: sets to 18, deciding set to 16
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  setsToWin: 2,
+  pointsPerSet: 18,
+  tiebreakSetPoints: 16,
+  winByTwo: false,
+  maxPoints: null,
+};
+
+export const SCORING_PRESETS: { name: string; rules: ScoringRules }[] = [
+  { name: 'Estándar (mejor de 3, 18/16)', rules: DEFAULT_SCORING_RULES },
+  { name: 'Set único a 21', rules: { setsToWin: 1, pointsPerSet: 21, tiebreakSetPoints: 21, winByTwo: false, maxPoints: null } },
+  { name: 'Mejor de 5 (a 15)', rules: { setsToWin: 3, pointsPerSet: 15, tiebreakSetPoints: 15, winByTwo: true, maxPoints: 17 } },
+  { name: 'Femenino (mejor de 3, 15)', rules: { setsToWin: 2, pointsPerSet: 15, tiebreakSetPoints: 15, winByTwo: false, maxPoints: null } },
+];
+
+export const getScoringRules = (category?: Pick<Category, 'scoring'> | null): ScoringRules =>
+  category?.scoring ?? DEFAULT_SCORING_RULES;
+
+export const getTotalSets = (rules: ScoringRules): number => rules.setsToWin * 2 - 1;
+
+const isDecidingSet = (rules: ScoringRules, setIndex: number) => rules.setsToWin > 1 && setIndex === getTotalSets(rules) - 1;
+
+export const getSetTarget = (rules: ScoringRules, setIndex: number): number =>
+  isDecidingSet(rules, setIndex) ? rules.tiebreakSetPoints : rules.pointsPerSet;
+
+/**
+ * Highest score a team can reach in a set: the target itself, or the cap when sets
+ * must be won by two points (no limit if there is no cap).
+ */
+export const getSetMaxScore = (rules: ScoringRules, setIndex: number): number => {
+  const target = getSetTarget(rules, setIndex);
+  if (!rules.winByTwo) return target;
+  return rules.maxPoints !== null ? Math.max(rules.maxPoints, target) : Infinity;
+};
+
+/**
+ * Winner of a set, or null while the score is incomplete or not a valid final score
+ * under the rules (target not reached, or not two points clear below the cap).
+ */
+export const getSetWinner = (set: MatchSet, rules: ScoringRules, setIndex: number): 'team1' | 'team2' | null => {
+  if (set.team1 === null || set.team2 === null || set.team1 === set.team2) return null;
+  const [high, low] = set.team1 > set.team2 ? [set.team1, set.team2] : [set.team2, set.team1];
+  const target = getSetTarget(rules, setIndex);
+  if (high < target || high > getSetMaxScore(rules, setIndex)) return null;
+  if (rules.winByTwo) {
+    const isAtCap = high === rules.maxPoints;
+    if (!isAtCap && high - low < 2) return null;
+    // Past the target the set only ends two points clear (or one point clear at the cap)
+    if (high > target && (isAtCap ? low < high - 2 : low !== high - 2)) return null;
+  }
+  return set.team1 > set.team2 ? 'team1' : 'team2';
+};
+
+/**
+ * Counts won sets in order until a team reaches the sets needed to win. Counting
+ * stops at the first set without a valid result, and sets after the deciding one
+ * are ignored.
+ */
+export const getMatchResult = (sets: MatchSet[], rules: ScoringRules): { team1: number; team2: number; winner: 'team1' | 'team2' | null } => {
+  const result = { team1: 0, team2: 0, winner: null as 'team1' | 'team2' | null };
+  for (let i = 0; i < getTotalSets(rules) && !result.winner; i++) {
+    const setWinner = sets[i] ? getSetWinner(sets[i], rules, i) : null;
+    if (!setWinner) break;
+    result[setWinner]++;
+    if (result[setWinner] >= rules.setsToWin) result.winner = setWinner;
+  }
+  return result;
+};
+
+/**
+ * A set can be filled in once every previous set has a valid result and the match
+ * is still undecided.
+ */
+export const isSetPlayable = (sets: MatchSet[], rules: ScoringRules, setIndex: number): boolean => {
+  const previous = sets.slice(0, setIndex);
+  if (previous.some((set, i) => !getSetWinner(set, rules, i))) return false;
+  return getMatchResult(previous, rules).winner === null;
+};
+
+export const createEmptySets = (rules: ScoringRules): MatchSet[] =>
+  Array.from({ length: getTotalSets(rules) }, () => ({ team1: null, team2: null }));
+
+/**
+ * Pads (or trims trailing empty sets from) a match's sets to the number the rules
+ * allow, so matches created under different rules can still be edited.
+ */
+export const normalizeSets = (sets: MatchSet[], rules: ScoringRules): MatchSet[] => {
+  const totalSets = getTotalSets(rules);
+  const normalized = [...sets];
+  while (normalized.length < totalSets) normalized.push({ team1: null, team2: null });
+  while (normalized.length > totalSets && normalized[normalized.length - 1].team1 === null && normalized[normalized.length - 1].team2 === null) {
+    normalized.pop();
+  }
+  return normalized;
+};
+
+export const describeScoringRules = (rules: ScoringRules): string => {
+  const format = rules.setsToWin === 1 ? 'Set único' : `Mejor de ${getTotalSets(rules)}`;
+  const points = rules.setsToWin > 1 && rules.tiebreakSetPoints !== rules.pointsPerSet
+    ? `${rules.pointsPerSet}/${rules.tiebreakSetPoints}`
+    : `${rules.pointsPerSet}`;
+  const winByTwo = rules.winByTwo ? `, diferencia de 2${rules.maxPoints !== null ? ` (máx. ${rules.maxPoints})` : ''}` : '';
+  return `${format} a ${points} puntos${winByTwo}`;
+};
+
+/**
+ * A match has a result once it has a winner, whether played out, won by walkover
+ * or ended by a retirement.
+ */
+export const isMatchDecided = (match: Match): boolean =>
+  !!match.winner && [MatchStatus.Finished, MatchStatus.Walkover, MatchStatus.Retired].includes(match.status);
+
+// Decided or annulled: nothing left to play
+export const isMatchClosed = (match: Match): boolean => isMatchDecided(match) || match.status === MatchStatus.Annulled;
@@ -0,0 +1,188 @@
+import { Category, Match, MatchStatus, PointsTable, ScoringRules, Standings, StandingsRules, Tiebreaker } from '../types';
+import { DEFAULT_SCORING_RULES, getSetWinner, isMatchDecided } from './scoringUtils';
+
+// The historical table: 3 points for a 2-0, 2/1 for a 2-1
+export const DEFAULT_STANDINGS_RULES: StandingsRules = {
+  points: { winClean: 3, winDecider: 2, lossDecider: 1, lossClean: 0, walkover: 0 },
+  tiebreakers: ['wins', 'pointsDifference', 'pointsFor'],
+};
+
+export const TIEBREAKER_LABELS: Record<Tiebreaker, { name: string; short: string }> = {
+  wins: { name: 'Partidos ganados', short: 'PG' },
+  headToHead: { name: 'Enfrentamiento directo', short: 'ED' },
+  setRatio: { name: 'Cociente de sets', short: 'CS' },
+  setDifference: { name: 'Diferencia de sets', short: 'DS' },
+  pointsRatio: { name: 'Cociente de puntos', short: 'CP' },
+  pointsDifference: { name: 'Diferencia de puntos', short: 'DIF' },
+  pointsFor: { name: 'Puntos a favor', short: 'PF' },
+  buchholz: { name: 'Buchholz', short: 'Bu' },
+  sonnebornBerger: { name: 'Sonneborn-Berger', short: 'S-B' },
+};
+
+// Buchholz and Sonneborn-Berger only exist in Swiss standings, which always apply them first
+export const LEAGUE_TIEBREAKERS: Tiebreaker[] = ['wins', 'headToHead', 'setRatio', 'setDifference', 'pointsRatio', 'pointsDifference', 'pointsFor'];
+
+export const getStandingsRules = (category?: Pick<Category, 'standingsRules'> | null): StandingsRules =>
+  category?.standingsRules ?? DEFAULT_STANDINGS_RULES;
+
+/**
+ * What a decided match counts for in the standings, from the winner's and the
+ * loser's side: sets, scored points and standings points.
+ */
+export interface MatchOutcome {
+  match: Match;
+  winnerId: string;
+  loserId: string;
+  winnerSets: number;
+  loserSets: number;
+  winnerScore: number;
+  loserScore: number;
+  winnerPoints: number;
+  loserPoints: number;
+}
+
+/**
+ * Standings points for the winner and loser of a match given the sets each won.
+ */
+export const getMatchPoints = (winnerSets: number, loserSets: number, points: PointsTable): { winner: number; loser: number } =>
+  loserSets === 0
+    ? { winner: points.winClean, loser: points.lossClean }
+    : { winner: points.winDecider, loser: points.lossDecider };
+
+/**
+ * Works out the outcome of a match, or null if it does not count (pending,
+ * suspended or annulled). A walkover counts as a clean-sweep win with no points
+ * scored and gives the absent team the walkover points. A retirement keeps the
+ * sets completed before it and hands the winner the remaining sets.
+ */
+export const getMatchOutcome = (match: Match, points: PointsTable, scoring: ScoringRules = DEFAULT_SCORING_RULES): MatchOutcome | null => {
+  if (!isMatchDecided(match)) return null;
+
+  const winnerSide = match.winner!.id === match.team1.id ? 'team1' : 'team2';
+  const loserSide = winnerSide === 'team1' ? 'team2' : 'team1';
+  const sets = { team1: 0, team2: 0 };
+  const score = { team1: 0, team2: 0 };
+
+  match.sets.forEach((set, index) => {
+    if (set.team1 === null || set.team2 === null) return;
+    score.team1 += set.team1;
+    score.team2 += set.team2;
+    if (match.status === MatchStatus.Retired) {
+      const setWinner = getSetWinner(set, scoring, index);
+      if (setWinner) sets[setWinner]++;
+    } else if (set.team1 !== set.team2) {
+      sets[set.team1 > set.team2 ? 'team1' : 'team2']++;
+    }
+  });
+
+  const outcome: MatchOutcome = {
+    match,
+    winnerId: match[winnerSide].id,
+    loserId: match[loserSide].id,
+    winnerSets: sets[winnerSide],
+    loserSets: sets[loserSide],
+    winnerScore: score[winnerSide],
+    loserScore: score[loserSide],
+    winnerPoints: 0,
+    loserPoints: 0,
+  };
+
+  if (match.status === MatchStatus.Walkover) {
+    return { ...outcome, winnerSets: scoring.setsToWin, loserSets: 0, winnerScore: 0, loserScore: 0, winnerPoints: points.winClean, loserPoints: points.walkover };
+  }
+  if (match.status === MatchStatus.Retired) {
+    outcome.winnerSets = scoring.setsToWin;
+    outcome.loserSets = Math.min(outcome.loserSets, scoring.setsToWin - 1);
+  }
+  const awarded = getMatchPoints(outcome.winnerSets, outcome.loserSets, points);
+  return { ...outcome, winnerPoints: awarded.winner, loserPoints: awarded.loser };
+};
+
+const ratio = (won: number, lost: number) => (lost === 0 ? (won > 0 ? Infinity : 0) : won / lost);
+
+/**
+ * Points each team of a tied group earned in the matches between them only.
+ */
+const getHeadToHeadPoints = (group: Standings[], outcomes: MatchOutcome[]): Map<string, number> => {
+  const result = new Map(group.map(s => [s.team.id, 0]));
+  outcomes.forEach(outcome => {
+    if (!result.has(outcome.winnerId) || !result.has(outcome.loserId)) return;
+    result.set(outcome.winnerId, result.get(outcome.winnerId)! + outcome.winnerPoints);
+    result.set(outcome.loserId, result.get(outcome.loserId)! + outcome.loserPoints);
+  });
+  return result;
+};
+
+const getTiebreakerValues = (tiebreaker: Tiebreaker, group: Standings[], outcomes: MatchOutcome[]): Map<string, number> => {
+  if (tiebreaker === 'headToHead') return getHeadToHeadPoints(group, outcomes);
+  const value = (s: Standings): number => {
+    switch (tiebreaker) {
+      case 'wins': return s.wins;
+      case 'setRatio': return ratio(s.setsFor, s.setsAgainst);
+      case 'setDifference': return s.setsFor - s.setsAgainst;
+      case 'pointsRatio': return ratio(s.pointsFor, s.pointsAgainst);
+      case 'pointsDifference': return s.pointsDifference;
+      case 'pointsFor': return s.pointsFor;
+      case 'buchholz': return s.buchholz ?? 0;
+      case 'sonnebornBerger': return s.sonnebornBerger ?? 0;
+    }
+  };
+  return new Map(group.map(s => [s.team.id, value(s)]));
+};
+
+/**
+ * Orders a group of teams level on points by the first tiebreaker that separates
+ * them. Each resulting subgroup that is still level goes back through the whole
+ * chain on its own, so a head-to-head mini-league is recomputed among only the
+ * teams that remain tied.
+ */
+const resolveTie = (group: Standings[], chain: Tiebreaker[], outcomes: MatchOutcome[]): Standings[] => {
+  if (group.length < 2) return group;
+
+  for (const tiebreaker of chain) {
+    const values = getTiebreakerValues(tiebreaker, group, outcomes);
+    const distinct = Array.from(new Set(values.values())).sort((a, b) => (a === b ? 0 : a > b ? -1 : 1));
+    if (distinct.length < 2) continue;
+
+    group.forEach(s => { s.tiebreak = tiebreaker; });
+    return distinct.flatMap(value =>
+      resolveTie(group.filter(s => values.get(s.team.id) === value), chain, outcomes)
+    );
+  }
+
+  group.forEach(s => { s.tiebreak = null; });
+  return group;
+};
+
+/**
+ * Sorts standings by points and then by the tiebreaker chain, recording on each
+ * team that was level on points the criterion that decided its position.
+ */
+export const sortStandings = (standings: Standings[], outcomes: MatchOutcome[], rules: StandingsRules, leadingTiebreakers: Tiebreaker[] = []): Standings[] => {
+  const chain = Array.from(new Set([...leadingTiebreakers, ...rules.tiebreakers]));
+  standings.forEach(s => { s.tiebreak = undefined; });
+
+  const byPoints = [...standings].sort((a, b) => b.points - a.points);
+  const sorted: Standings[] = [];
+  for (let i = 0; i < byPoints.length;) {
+    const group = byPoints.filter(s => s.points === byPoints[i].points);
+    sorted.push(...resolveTie(group, chain, outcomes));
+    i += group.length;
+  }
+  return sorted;
+};
+
+/**
+ * Compares teams that never played each other (e.g. the same position in different
+ * groups): points first, then the chain without head-to-head.
+ */
+export const compareStandings = (a: Standings, b: Standings, rules: StandingsRules = DEFAULT_STANDINGS_RULES): number => {
+  if (b.points !== a.points) return b.points - a.points;
+  for (const tiebreaker of rules.tiebreakers) {
+    if (tiebreaker === 'headToHead') continue;
+    const values = getTiebreakerValues(tiebreaker, [a, b], []);
+    const [valueA, valueB] = [values.get(a.team.id)!, values.get(b.team.id)!];
+    if (valueA !== valueB) return valueA > valueB ? -1 : 1;
+  }
+  return 0;
+};
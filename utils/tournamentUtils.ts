@@ -1,56 +1,155 @@
-import { Team, Match, MatchStatus, Standings, Category } from '../types';
+import { Team, Match, MatchStatus, MatchSet, Standings, Category, SwissStage, SwissBye, StandingsRules, ScoringRules } from '../types';
+import { DEFAULT_SCORING_RULES, createEmptySets, getScoringRules } from './scoringUtils';
+import { DEFAULT_STANDINGS_RULES, MatchOutcome, getMatchOutcome, getStandingsRules, sortStandings } from './standingsUtils';
+
+export const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+export const createPendingMatch = (
+  id: string,
+  category: Category,
+  team1: Team,
+  team2: Team,
+  details: Partial<Pick<Match, 'round' | 'bracketNodeId'>> = {}
+): Match => ({
+  id,
+  categoryId: category.id,
+  team1,
+  team2,
+  sets: createEmptySets(getScoringRules(category)),
+  winner: null,
+  status: MatchStatus.Pending,
+  date: '',
+  ...details,
+});
+
+/**
+ * Builds a single round robin with the circle method: the first slot stays fixed
+ * while the others rotate one position per round, so every team plays at most once
+ * per jornada. With an odd number of teams an empty slot is added and whoever is
+ * paired with it rests that round.
+ */
+export const generateRoundRobinRounds = (teams: Team[]): [Team, Team][][] => {
+  const slots: (Team | null)[] = [...teams];
+  if (slots.length % 2 !== 0) slots.push(null);
+
+  const rounds: [Team, Team][][] = [];
+  const listedFirst = new Map<string, number>(teams.map(t => [t.id, 0]));
+
+  for (let round = 0; round < slots.length - 1; round++) {
+    const pairs: [Team, Team][] = [];
+    for (let i = 0; i < slots.length / 2; i++) {
+      const a = slots[i];
+      const b = slots[slots.length - 1 - i];
+      if (!a || !b) continue;
+
+      // List first whoever has been listed first fewer times; alternate on ties.
+      const aCount = listedFirst.get(a.id)!;
+      const bCount = listedFirst.get(b.id)!;
+      const aFirst = aCount !== bCount ? aCount < bCount : round % 2 === 0;
+      const pair: [Team, Team] = aFirst ? [a, b] : [b, a];
+      listedFirst.set(pair[0].id, listedFirst.get(pair[0].id)! + 1);
+      pairs.push(pair);
+    }
+    rounds.push(pairs);
+    slots.splice(1, 0, slots.pop()!);
+  }
+
+  return rounds;
+};
 
 export const generateRoundRobinMatches = (teams: Team[], category: Category, twoLegged: boolean = false): Match[] => {
-  const matches: Match[] = [];
   if (teams.length < 2) {
     return [];
   }
 
-  for (let i = 0; i < teams.length; i++) {
-    for (let j = i + 1; j < teams.length; j++) {
-      // First leg (ida)
-      const match1: Match = {
-        id: `match-${Date.now()}-${i}-${j}-1`,
-        categoryId: category.id,
-        team1: teams[i],
-        team2: teams[j],
-        sets: [
-          { team1: null, team2: null }, // Set 1
-          { team1: null, team2: null }, // Set 2
-          { team1: null, team2: null }, // Set 3 (Tiebreaker)
-        ],
-        winner: null,
-        status: MatchStatus.Pending,
-        date: '',
-      };
-      matches.push(match1);
-
-      if (twoLegged) {
-        // Second leg (vuelta)
-        const match2: Match = {
-          id: `match-${Date.now()}-${j}-${i}-2`, // Swapped indices for a more unique ID
-          categoryId: category.id,
-          team1: teams[j], // Swap teams
-          team2: teams[i],
-          sets: [
-            { team1: null, team2: null },
-            { team1: null, team2: null },
-            { team1: null, team2: null },
-          ],
-          winner: null,
-          status: MatchStatus.Pending,
-          date: '',
-        };
-        matches.push(match2);
-      }
-    }
+  // Shuffle the draw so the fixture is not always built in registration order
+  const rounds = generateRoundRobinRounds(shuffle(teams));
+  const timestamp = Date.now();
+
+  const matches = rounds.flatMap((pairs, roundIndex) =>
+    pairs.map(([team1, team2], i) =>
+      createPendingMatch(`match-${timestamp}-${roundIndex + 1}-${i}`, category, team1, team2, { round: roundIndex + 1 })
+    )
+  );
+
+  if (twoLegged) {
+    // Second leg (vuelta) mirrors the first: same pairings per round, teams swapped
+    rounds.forEach((pairs, roundIndex) => {
+      const round = rounds.length + roundIndex + 1;
+      pairs.forEach(([team1, team2], i) => {
+        matches.push(createPendingMatch(`match-${timestamp}-${round}-${i}`, category, team2, team1, { round }));
+      });
+    });
   }
-  // Shuffle matches to mix legs for a more varied schedule
-  return matches.sort(() => Math.random() - 0.5);
+
+  return matches;
+};
+
+/**
+ * Groups matches by jornada, in round order. Matches without a round (created before
+ * fixtures had rounds) are returned in a single trailing group with `round: null`.
+ */
+export const groupMatchesByRound = (matches: Match[]): { round: number | null; matches: Match[] }[] => {
+  const groups = new Map<number | null, Match[]>();
+  matches.forEach(match => {
+    const round = match.round ?? null;
+    groups.set(round, [...(groups.get(round) || []), match]);
+  });
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => (a ?? Infinity) - (b ?? Infinity))
+    .map(([round, roundMatches]) => ({
+      round,
+      matches: [...roundMatches].sort((a, b) => (a.date || '').localeCompare(b.date || '')),
+    }));
+};
+
+/**
+ * Teams that rest in a given jornada: those not involved in any of its matches.
+ */
+export const getRoundByes = (teams: Team[], matches: Match[], round: number): Team[] => {
+  const playing = new Set(matches.filter(m => m.round === round).flatMap(m => [m.team1.id, m.team2.id]));
+  return teams.filter(t => !playing.has(t.id));
 };
 
 
-export const calculateStandings = (teams: Team[], matches: Match[]): Standings[] => {
+export const countSetWins = (sets: MatchSet[]): { team1: number; team2: number } => {
+  let team1 = 0;
+  let team2 = 0;
+  sets.forEach(set => {
+    if (set.team1 !== null && set.team2 !== null) {
+      if (set.team1 > set.team2) team1++;
+      else if (set.team2 > set.team1) team2++;
+    }
+  });
+  return { team1, team2 };
+};
+
+
+const getMatchOutcomes = (teams: Team[], matches: Match[], rules: StandingsRules, scoring: ScoringRules): MatchOutcome[] => {
+  const teamIds = new Set(teams.map(t => t.id));
+  return matches
+    .filter(match => teamIds.has(match.team1.id) && teamIds.has(match.team2.id))
+    .flatMap(match => getMatchOutcome(match, rules.points, scoring) ?? []);
+};
+
+/**
+ * Computes the standings of the given teams from the matches played between them
+ * (matches against anyone else, e.g. an expelled team, are ignored).
+ */
+export const calculateStandings = (
+  teams: Team[],
+  matches: Match[],
+  rules: StandingsRules = DEFAULT_STANDINGS_RULES,
+  scoring: ScoringRules = DEFAULT_SCORING_RULES
+): Standings[] => {
   const standingsMap: Map<string, Standings> = new Map(
     teams.map(team => [
       team.id,
@@ -63,84 +162,148 @@ export const calculateStandings = (teams: Team[], matches: Match[]): Standings[]
         pointsFor: 0,
         pointsAgainst: 0,
         pointsDifference: 0,
+        setsFor: 0,
+        setsAgainst: 0,
       },
     ])
   );
 
-  const relevantMatches = matches.filter(match => 
-    teams.some(t => t.id === match.team1.id) && teams.some(t => t.id === match.team2.id)
-  );
-
-  relevantMatches.forEach(match => {
-    if (match.status !== MatchStatus.Finished || !match.winner) {
-        return;
-    }
+  const outcomes = getMatchOutcomes(teams, matches, rules, scoring);
 
-    const winnerId = match.winner.id;
-    const loserId = winnerId === match.team1.id ? match.team2.id : match.team1.id;
-    const winnerStandings = standingsMap.get(winnerId);
-    const loserStandings = standingsMap.get(loserId);
-
-    if (!winnerStandings || !loserStandings) return;
-
-    let team1SetWins = 0;
-    let team2SetWins = 0;
-    let team1TotalPoints = 0;
-    let team2TotalPoints = 0;
-
-    match.sets.forEach(set => {
-        if (set.team1 !== null && set.team2 !== null) {
-            team1TotalPoints += set.team1;
-            team2TotalPoints += set.team2;
-            if (set.team1 > set.team2) team1SetWins++;
-            else if (set.team2 > set.team1) team2SetWins++;
-        }
-    });
-    
-    const isTeam1Winner = match.team1.id === winnerId;
+  outcomes.forEach(outcome => {
+    const winnerStandings = standingsMap.get(outcome.winnerId)!;
+    const loserStandings = standingsMap.get(outcome.loserId)!;
 
     winnerStandings.played += 1;
     winnerStandings.wins += 1;
     loserStandings.played += 1;
     loserStandings.losses += 1;
 
-    const winnerSets = Math.max(team1SetWins, team2SetWins);
-    const loserSets = Math.min(team1SetWins, team2SetWins);
-    
-    if (winnerSets === 2 && loserSets === 0) {
-        winnerStandings.points += 3;
-    } else if (winnerSets === 2 && loserSets === 1) {
-        winnerStandings.points += 2;
-        loserStandings.points += 1;
-    }
+    winnerStandings.points += outcome.winnerPoints;
+    loserStandings.points += outcome.loserPoints;
+    winnerStandings.setsFor += outcome.winnerSets;
+    winnerStandings.setsAgainst += outcome.loserSets;
+    loserStandings.setsFor += outcome.loserSets;
+    loserStandings.setsAgainst += outcome.winnerSets;
 
-    if (isTeam1Winner) {
-        winnerStandings.pointsFor += team1TotalPoints;
-        winnerStandings.pointsAgainst += team2TotalPoints;
-        loserStandings.pointsFor += team2TotalPoints;
-        loserStandings.pointsAgainst += team1TotalPoints;
-    } else {
-        winnerStandings.pointsFor += team2TotalPoints;
-        winnerStandings.pointsAgainst += team1TotalPoints;
-        loserStandings.pointsFor += team1TotalPoints;
-        loserStandings.pointsAgainst += team2TotalPoints;
-    }
+    winnerStandings.pointsFor += outcome.winnerScore;
+    winnerStandings.pointsAgainst += outcome.loserScore;
+    loserStandings.pointsFor += outcome.loserScore;
+    loserStandings.pointsAgainst += outcome.winnerScore;
 
     winnerStandings.pointsDifference = winnerStandings.pointsFor - winnerStandings.pointsAgainst;
     loserStandings.pointsDifference = loserStandings.pointsFor - loserStandings.pointsAgainst;
+  });
+
+  return sortStandings(Array.from(standingsMap.values()), outcomes, rules);
+};
+
+/**
+ * Standings for a Swiss tournament: the regular table plus byes, with the Buchholz
+ * and Sonneborn-Berger tiebreaks computed from the final points of each opponent.
+ */
+export const calculateSwissStandings = (
+  teams: Team[],
+  matches: Match[],
+  swiss: SwissStage,
+  rules: StandingsRules = DEFAULT_STANDINGS_RULES,
+  scoring: ScoringRules = DEFAULT_SCORING_RULES
+): Standings[] => {
+  const standings = calculateStandings(teams, matches, rules, scoring);
+  const outcomes = getMatchOutcomes(teams, matches, rules, scoring);
+  const standingsById = new Map(standings.map(s => [s.team.id, s]));
+
+  swiss.byes.forEach(bye => {
+    const standing = standingsById.get(bye.teamId);
+    if (!standing) return;
+    standing.played += 1;
+    standing.wins += 1;
+    // A bye counts as a clean-sweep win
+    standing.points += rules.points.winClean;
+  });
 
-    standingsMap.set(winnerId, winnerStandings);
-    standingsMap.set(loserId, loserStandings);
+  standings.forEach(s => {
+    s.buchholz = 0;
+    s.sonnebornBerger = 0;
   });
 
-  const standings = Array.from(standingsMap.values());
-  
-  standings.sort((a, b) => {
-    if (b.points !== a.points) return b.points - a.points;
-    if (b.wins !== a.wins) return b.wins - a.wins;
-    if (b.pointsDifference !== a.pointsDifference) return b.pointsDifference - a.pointsDifference;
-    return b.pointsFor - a.pointsFor;
+  outcomes.forEach(outcome => {
+    const winner = standingsById.get(outcome.winnerId)!;
+    const loser = standingsById.get(outcome.loserId)!;
+    winner.buchholz! += loser.points;
+    loser.buchholz! += winner.points;
+    winner.sonnebornBerger! += loser.points;
   });
 
-  return standings;
-};
\ No newline at end of file
+  return sortStandings(standings, outcomes, rules, ['buchholz', 'sonnebornBerger']);
+};
+
+const pairKey = (teamId1: string, teamId2: string) => [teamId1, teamId2].sort().join('|');
+
+// Caps the backtracking search so a round with no rematch-free pairing fails fast
+const PAIRING_SEARCH_BUDGET = 20000;
+
+/**
+ * Pairs teams in ranking order, each with the highest-ranked opponent it has not
+ * played yet, backtracking when the remaining teams cannot be paired without a
+ * rematch. Returns null if no rematch-free pairing exists or none is found within
+ * the search budget.
+ */
+const pairAvoidingRematches = (pool: Team[], playedPairs: Set<string>, budget = { nodes: PAIRING_SEARCH_BUDGET }): [Team, Team][] | null => {
+  if (pool.length === 0) return [];
+  const [first, ...rest] = pool;
+  for (let i = 0; i < rest.length; i++) {
+    if (playedPairs.has(pairKey(first.id, rest[i].id))) continue;
+    if (--budget.nodes < 0) return null;
+    const pairs = pairAvoidingRematches([...rest.slice(0, i), ...rest.slice(i + 1)], playedPairs, budget);
+    if (pairs) return [[first, rest[i]], ...pairs];
+  }
+  return null;
+};
+
+// Fallback pairing: each team in ranking order takes the highest-ranked opponent it has not played, if any is left
+const pairGreedily = (pool: Team[], playedPairs: Set<string>): [Team, Team][] => {
+  const remaining = [...pool];
+  const pairs: [Team, Team][] = [];
+  while (remaining.length > 1) {
+    const first = remaining.shift()!;
+    const index = Math.max(0, remaining.findIndex(t => !playedPairs.has(pairKey(first.id, t.id))));
+    pairs.push([first, remaining.splice(index, 1)[0]]);
+  }
+  return pairs;
+};
+
+export const getCurrentRound = (matches: Match[]): number => Math.max(0, ...matches.map(m => m.round ?? 0));
+
+/**
+ * Pairs the next Swiss round from the current standings. With an odd number of
+ * teams the lowest-ranked team that has not had a bye yet rests and gets the bye.
+ */
+export const generateSwissRound = (teams: Team[], matches: Match[], category: Category): { matches: Match[]; bye: SwissBye | null } => {
+  const swiss = category.swiss!;
+  const round = getCurrentRound(matches) + 1;
+  const ranked = calculateSwissStandings(teams, matches, swiss, getStandingsRules(category), getScoringRules(category)).map(s => s.team);
+
+  let pool = ranked;
+  let bye: SwissBye | null = null;
+  if (pool.length % 2 !== 0) {
+    const hadBye = new Set(swiss.byes.map(b => b.teamId));
+    const byeTeam = [...pool].reverse().find(t => !hadBye.has(t.id)) || pool[pool.length - 1];
+    bye = { round, teamId: byeTeam.id };
+    pool = pool.filter(t => t.id !== byeTeam.id);
+  }
+
+  const playedPairs = new Set(matches.map(m => pairKey(m.team1.id, m.team2.id)));
+  const pairs = pairAvoidingRematches(pool, playedPairs) ?? pairGreedily(pool, playedPairs);
+
+  // List first whoever has been listed first fewer times so far
+  const listedFirst = (team: Team) => matches.filter(m => m.team1.id === team.id).length;
+  const timestamp = Date.now();
+  const roundMatches = pairs.map(([a, b], i) => {
+    const [team1, team2] = listedFirst(a) <= listedFirst(b) ? [a, b] : [b, a];
+    return createPendingMatch(`match-${timestamp}-${round}-${i}`, category, team1, team2, { round });
+  });
+
+  return { matches: roundMatches, bye };
+};
+